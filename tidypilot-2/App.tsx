@@ -1,11 +1,25 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { UploadSection } from './components/UploadSection';
 import { Dashboard } from './components/Dashboard';
 import { CleaningPlanDisplay } from './components/CleaningPlanDisplay';
 import { AskTidyPilot } from './components/AskTidyPilot';
-import { analyzeDataset, performAutoClean } from './services/dataProcessing';
+import { TaskProgress } from './components/TaskProgress';
+import { RelationshipDiagram } from './components/RelationshipDiagram';
+import { RecipeEditor } from './components/RecipeEditor';
+import { ChangeLogView } from './components/ChangeLogView';
+import { CategoryHarmonizer } from './components/CategoryHarmonizer';
+import { RulesEditor } from './components/RulesEditor';
+import { DuplicateReview } from './components/DuplicateReview';
+import { quarantineRows } from './services/dataProcessing';
+import { defaultRecipe, startCleaningRun, keepRows, runLoggedRecipe } from './services/cleaningRecipes';
+import { analyzeInWorker, isCancellation } from './services/analysisClient';
+import { applySchemaReport } from './services/schemaAlignment';
+import { buildWorkspaceModel } from './services/relationshipDiscovery';
+import { createRuleSet, findRuleSetForFile } from './services/validationRules';
+import { removeDuplicates } from './services/recordLinkage';
+import { createMappingTable, findMappingTableForFile, mappingOperations, mappedValueCount } from './services/valueMappings';
 import { generateCleaningPlan } from './services/geminiService';
-import { DataRow, AppSettings, DatasetStats, CleaningPlan } from './types';
+import { DataRow, AppSettings, DatasetStats, CleaningOperation, CleaningRun, CleaningPlan, AnalysisProgress, DatasetLoadInfo, SchemaAlignmentReport, WorkspaceTable, WorkspaceModel, RuleSet, DuplicateReport, MappingTable } from './types';
 import { Play, Sparkles } from 'lucide-react';
 
 
@@ -13,12 +27,16 @@ import { Play, Sparkles } from 'lucide-react';
 const App: React.FC = () => {
   const [step, setStep] = useState<number>(1);
   const [rawData, setRawData] = useState<DataRow[]>([]);
-  const [cleanedData, setCleanedData] = useState<DataRow[] | null>(null);
+  const [cleaningRun, setCleaningRun] = useState<CleaningRun | null>(null);
+  const [rejectedData, setRejectedData] = useState<DataRow[]>([]);
   const [fileName, setFileName] = useState<string>("");
   const [settings, setSettings] = useState<AppSettings>({
     autoClean: false,
     strictMode: false,
-    outlierSensitivity: 'Medium'
+    outlierSensitivity: 'Medium',
+    numberLocale: 'auto',
+    outlierMethod: 'auto',
+    multivariateOutliers: true
   });
   
   const [stats, setStats] = useState<DatasetStats | null>(null);
@@ -26,32 +44,187 @@ const App: React.FC = () => {
   const [loadingPlan, setLoadingPlan] = useState<boolean>(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
 
-  const handleDataLoaded = (data: DataRow[], name: string) => {
+  // Stats profiled while the file was streamed in, reusable if settings haven't changed since
+  const [preparedStats, setPreparedStats] = useState<{ stats: DatasetStats; settings: AppSettings } | null>(null);
+  const [schemaReport, setSchemaReport] = useState<SchemaAlignmentReport | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const analysisAbort = useRef<AbortController | null>(null);
+
+  // Multi-table workspace: the active table is the one profiled and cleaned
+  const [workspace, setWorkspace] = useState<WorkspaceTable[]>([]);
+  const [workspaceModel, setWorkspaceModel] = useState<WorkspaceModel | null>(null);
+
+  // Validation rules for the current file; a saved set for the same feed is picked up automatically
+  const [ruleSet, setRuleSet] = useState<RuleSet>(() => createRuleSet(''));
+  // Category value mappings, picked up the same way and applied whenever the data is cleaned
+  const [mappingTable, setMappingTable] = useState<MappingTable>(() => createMappingTable(''));
+
+  // Cleaning recipe for the profiled file, and what the cleaned output was last built from
+  const [recipe, setRecipe] = useState<CleaningOperation[]>([]);
+  const [appliedRecipe, setAppliedRecipe] = useState<CleaningOperation[] | null>(null);
+  const [duplicateReport, setDuplicateReport] = useState<DuplicateReport | null>(null);
+  // Ids of applied steps the user undid, most recent last, for redo
+  const [undoneSteps, setUndoneSteps] = useState<string[]>([]);
+
+  const handleDataLoaded = (data: DataRow[], name: string, info: DatasetLoadInfo = {}) => {
     setRawData(data);
     setFileName(name);
+    setPreparedStats(info.stats ? { stats: info.stats, settings } : null);
+    setSchemaReport(info.schemaReport || null);
+    setWorkspace([]);
+    setWorkspaceModel(null);
+    setRuleSet(findRuleSetForFile(name) || createRuleSet(name));
+    setMappingTable(findMappingTableForFile(name) || createMappingTable(name));
+  };
+
+  const selectTable = (table: WorkspaceTable) => {
+    setRawData(table.rows);
+    setFileName(`${table.name}.csv`);
+    setRuleSet(findRuleSetForFile(table.name) || createRuleSet(table.name));
+    setMappingTable(findMappingTableForFile(table.name) || createMappingTable(table.name));
+    setPreparedStats(null);
+    setSchemaReport(null);
+    setStats(null);
+    setCleaningRun(null);
+    setRejectedData([]);
+    setRecipe([]);
+    setAppliedRecipe(null);
+    setUndoneSteps([]);
+    setDuplicateReport(null);
+    setCleaningPlan(null);
+    setStep(1);
+  };
+
+  const handleWorkspaceLoaded = (tables: WorkspaceTable[]) => {
+    const model = buildWorkspaceModel(tables);
+    setWorkspace(tables);
+    setWorkspaceModel(model);
+
+    // Start on the largest fact table; fall back to the largest table
+    const facts = new Set(model.tables.filter(t => t.role === 'fact').map(t => t.name));
+    const bySize = [...tables].sort((a, b) => b.rows.length - a.rows.length);
+    selectTable(bySize.find(t => facts.has(t.name)) || bySize[0]);
+  };
+
+  const selectTableByName = (name: string) => {
+    const table = workspace.find(t => t.name === name);
+    if (table) selectTable(table);
+  };
+
+  // Cluster row indices refer to rawData, so duplicates go first; strict mode then quarantines
+  // failing rows, and category mappings (keyed by the file's column names) run before the
+  // recipe reshapes the rest
+  const buildCleanedData = (
+    profiled: DatasetStats,
+    steps: CleaningOperation[] | null,
+    report: DuplicateReport | null,
+    mappings: MappingTable = mappingTable
+  ) => {
+    setAppliedRecipe(steps);
+    setDuplicateReport(report);
+    if (!steps && !report && !settings.strictMode && mappedValueCount(mappings) === 0) {
+      setCleaningRun(null);
+      setRejectedData([]);
+      return;
+    }
+    let run = startCleaningRun(rawData);
+    if (report) {
+      run = keepRows(run, removeDuplicates(rawData, report), 'duplicates', 'Remove duplicates chosen in duplicate review');
+    }
+    let rejected: DataRow[] = [];
+    if (settings.strictMode) {
+      const quarantined = quarantineRows(run.rows, profiled, ruleSet.rules, rawData);
+      run = keepRows(run, quarantined.rows, 'quarantine', 'Quarantine rows failing type, format or rule checks');
+      rejected = quarantined.rejected;
+    }
+    run = runLoggedRecipe(run, mappingOperations(mappings));
+    setCleaningRun(steps ? runLoggedRecipe(run, steps) : run);
+    setRejectedData(rejected);
+  };
+
+  const handleDeduplicate = (report: DuplicateReport) => {
+    if (stats) buildCleanedData(stats, appliedRecipe, report);
+  };
+
+  const handleMappingChange = (table: MappingTable) => {
+    setMappingTable(table);
+    if (stats && table.mappings !== mappingTable.mappings) buildCleanedData(stats, appliedRecipe, duplicateReport, table);
+  };
+
+  const handleApplyRecipe = () => {
+    if (stats) buildCleanedData(stats, recipe, duplicateReport);
+    setUndoneSteps([]);
+  };
+
+  // Undo and redo switch one applied step off or on and rebuild; unapplied edits to the recipe are kept
+  const setStepEnabled = (id: string, enabled: boolean) => {
+    if (!stats || !appliedRecipe) return;
+    const toggle = (steps: CleaningOperation[]) => steps.map(op => (op.id === id ? { ...op, enabled } : op));
+    const next = toggle(appliedRecipe);
+    setRecipe(recipe === appliedRecipe ? next : toggle(recipe));
+    buildCleanedData(stats, next, duplicateReport);
+  };
+
+  const handleUndoStep = (id: string) => {
+    setStepEnabled(id, false);
+    setUndoneSteps(ids => [...ids.filter(i => i !== id), id]);
+  };
+
+  const handleRedoStep = (id: string) => {
+    setStepEnabled(id, true);
+    setUndoneSteps(ids => ids.filter(i => i !== id));
+  };
+
+  const activeTableName = workspace.find(t => t.rows === rawData)?.name || '';
+
+  const profileRawData = async (): Promise<DatasetStats | null> => {
+    // Stats prepared at upload time never include rules
+    if (preparedStats && ruleSet.rules.length === 0 && JSON.stringify(preparedStats.settings) === JSON.stringify(settings)) {
+      return preparedStats.stats;
+    }
+
+    const controller = new AbortController();
+    analysisAbort.current = controller;
+    setAnalysisProgress({ phase: 'profiling', processedRows: 0, fraction: 0 });
+    try {
+      return await analyzeInWorker(
+        rawData,
+        settings,
+        { onProgress: setAnalysisProgress, signal: controller.signal },
+        { rules: ruleSet.rules }
+      );
+    } catch (e) {
+      if (!isCancellation(e)) console.error("Analysis failed", e);
+      return null;
+    } finally {
+      analysisAbort.current = null;
+      setAnalysisProgress(null);
+    }
   };
 
   const runAnalysis = async () => {
-    if (rawData.length === 0) return;
+    if (rawData.length === 0 || analysisProgress) return;
 
     // 1. Analyze Raw
-    const rawStats = analyzeDataset(rawData, settings);
+    const profiled = await profileRawData();
+    if (!profiled) return;
+    const rawStats = schemaReport ? applySchemaReport(profiled, schemaReport) : profiled;
     setStats(rawStats);
     setStep(2);
 
-    // 2. Auto-Clean (if enabled)
-    let processedData = rawData;
-    if (settings.autoClean) {
-        processedData = performAutoClean(rawData, rawStats);
-        setCleanedData(processedData);
-    } else {
-        setCleanedData(null);
-    }
+    // 2. Cleaning recipe, run straight away with auto-clean; strict mode quarantines either way
+    const steps = defaultRecipe(rawStats, settings);
+    setRecipe(steps);
+    setUndoneSteps([]);
+    buildCleanedData(rawStats, settings.autoClean ? steps : null, null);
 
     // 3. Generate Plan via Gemini
     setLoadingPlan(true);
     try {
-        const plan = await generateCleaningPlan(rawStats);
+        const plan = await generateCleaningPlan(rawStats, workspaceModel);
+        if (workspaceModel && plan.biModeling) {
+            plan.biModeling.relationships = workspaceModel.relationships;
+        }
         setCleaningPlan(plan);
     } catch (e) {
         console.error("Plan generation failed", e);
@@ -86,7 +259,7 @@ const App: React.FC = () => {
                  </button>
                  <div className="h-6 w-px bg-slate-200 mx-1"></div>
                  <button 
-                    onClick={() => { setStep(1); setRawData([]); setStats(null); setCleaningPlan(null); }}
+                    onClick={() => { setStep(1); setRawData([]); setPreparedStats(null); setSchemaReport(null); setWorkspace([]); setWorkspaceModel(null); setStats(null); setCleaningPlan(null); }}
                     className="text-sm text-slate-500 hover:text-indigo-600 font-medium transition-colors"
                  >
                     Start Over
@@ -104,14 +277,33 @@ const App: React.FC = () => {
           <div className="space-y-10 animate-fade-in-up">
             <UploadSection 
                 onDataLoaded={handleDataLoaded} 
+                onWorkspaceLoaded={handleWorkspaceLoaded}
                 settings={settings}
                 setSettings={setSettings}
             />
             {rawData.length > 0 && (
                 <div className="flex flex-col items-center animate-fade-in">
+                    {workspaceModel && (
+                        <div className="w-full mb-8">
+                            <RelationshipDiagram
+                                model={workspaceModel}
+                                activeTable={activeTableName}
+                                onSelectTable={selectTableByName}
+                            />
+                        </div>
+                    )}
                     <div className="bg-indigo-50 text-indigo-700 px-5 py-2 rounded-full text-sm font-semibold mb-6 border border-indigo-100 shadow-sm">
-                        {rawData.length.toLocaleString()} rows loaded from <span className="text-indigo-900">{fileName}</span>
+                        {rawData.length.toLocaleString()} rows loaded from <span className="text-indigo-900">{schemaReport ? `${schemaReport.files.length} files` : fileName}</span>
                     </div>
+                    {analysisProgress ? (
+                        <div className="w-full max-w-md">
+                            <TaskProgress
+                                label="Profiling dataset"
+                                progress={analysisProgress}
+                                onCancel={() => analysisAbort.current?.abort()}
+                            />
+                        </div>
+                    ) : (
                     <button 
                         onClick={runAnalysis}
                         className="group relative inline-flex items-center justify-center px-10 py-4 text-lg font-bold text-white transition-all duration-300 bg-indigo-600 rounded-2xl focus:outline-none focus:ring-4 focus:ring-indigo-600/20 hover:bg-indigo-700 shadow-xl shadow-indigo-200 hover:shadow-2xl hover:shadow-indigo-300 transform hover:-translate-y-1"
@@ -119,7 +311,19 @@ const App: React.FC = () => {
                         Analyze Data
                         <Play className="ml-2 w-5 h-5 group-hover:translate-x-1 transition-transform" />
                     </button>
+                    )}
                     
+                    <div className="mt-12 w-full max-w-5xl">
+                        <RulesEditor
+                            key={fileName}
+                            columns={Object.keys(rawData[0])}
+                            rows={rawData}
+                            fileName={fileName}
+                            ruleSet={ruleSet}
+                            onChange={setRuleSet}
+                        />
+                    </div>
+
                     {/* Preview Table */}
                     <div className="mt-12 w-full max-w-5xl overflow-hidden rounded-2xl border border-slate-200 shadow-lg bg-white">
                         <div className="bg-slate-50/80 px-6 py-3 border-b border-slate-200 text-xs font-bold text-slate-500 uppercase tracking-wider backdrop-blur">
@@ -156,7 +360,39 @@ const App: React.FC = () => {
                  </div>
              </div>
 
-             <Dashboard stats={stats} fileName={fileName} />
+             {workspaceModel && (
+                <RelationshipDiagram
+                    model={workspaceModel}
+                    activeTable={activeTableName}
+                    onSelectTable={selectTableByName}
+                />
+             )}
+
+             <Dashboard stats={stats} fileName={fileName} schemaReport={schemaReport} />
+
+             <DuplicateReview key={fileName} data={rawData} columns={stats.columns} onApply={handleDeduplicate} />
+
+             <CategoryHarmonizer key={fileName} stats={stats} fileName={fileName} table={mappingTable} onChange={handleMappingChange} />
+
+             <RecipeEditor
+                stats={stats}
+                settings={settings}
+                rows={rawData}
+                recipe={recipe}
+                isApplied={appliedRecipe === recipe}
+                onChange={setRecipe}
+                onApply={handleApplyRecipe}
+             />
+
+             {cleaningRun && (cleaningRun.log.steps.length > 0 || appliedRecipe) && (
+                <ChangeLogView
+                    log={cleaningRun.log}
+                    appliedRecipe={appliedRecipe}
+                    undoneSteps={undoneSteps}
+                    onUndo={handleUndoStep}
+                    onRedo={handleRedoStep}
+                />
+             )}
 
              <div className="border-t border-slate-200 pt-12">
                 <div className="mb-8">
@@ -166,7 +402,11 @@ const App: React.FC = () => {
                 <CleaningPlanDisplay 
                     plan={cleaningPlan} 
                     loading={loadingPlan} 
-                    cleanedData={cleanedData || undefined}
+                    cleanedData={cleaningRun?.rows}
+                    changeLog={cleaningRun?.log}
+                    rejectedData={rejectedData}
+                    appliedRecipe={appliedRecipe}
+                    settings={settings}
                     fileName={fileName}
                 />
              </div>
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { AssociationMatrix, ColumnAssociation } from '../types';
+import { describeAssociation } from '../services/associationAnalysis';
+
+interface AssociationHeatmapProps {
+  associations: AssociationMatrix;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+
+// Indigo for positive and unsigned association, rose for negative correlation
+const cellColor = (a: ColumnAssociation) => {
+  const strength = Math.min(1, Math.abs(a.value));
+  return a.value < 0 ? `rgba(244, 63, 94, ${strength})` : `rgba(79, 70, 229, ${strength})`;
+};
+
+export const AssociationHeatmap: React.FC<AssociationHeatmapProps> = ({ associations }) => {
+  const { columns, pairs } = associations;
+  const byPair = new Map<string, ColumnAssociation>(pairs.map(p => [pairKey(p.columns[0], p.columns[1]), p]));
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Grid3x3 className="text-slate-400" size={18} />
+          <h3 className="font-bold text-slate-700">Column Associations</h3>
+        </div>
+        {associations.sampledRows && (
+          <span className="text-xs text-slate-400 font-medium">First {associations.sampledRows.toLocaleString()} rows</span>
+        )}
+      </div>
+      <div className="p-6 overflow-x-auto">
+        <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th />
+              {columns.map(name => (
+                <th key={name} className="h-28 align-bottom font-medium text-slate-500">
+                  <div className="w-7 mx-auto truncate" style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)' }} title={name}>{name}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {columns.map(row => (
+              <tr key={row}>
+                <th className="pr-3 text-right font-medium text-slate-500 max-w-[10rem] truncate" title={row}>{row}</th>
+                {columns.map(col => {
+                  if (row === col) return <td key={col} className="w-7 h-7 rounded bg-slate-200" />;
+                  const pair = byPair.get(pairKey(row, col));
+                  return (
+                    <td
+                      key={col}
+                      className="w-7 h-7 rounded bg-slate-50"
+                      style={pair ? { backgroundColor: cellColor(pair) } : undefined}
+                      title={pair ? `${row} × ${col}: ${describeAssociation(pair)}` : `${row} × ${col}: too few rows`}
+                    />
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-4 text-xs text-slate-400">
+          Pearson r for number pairs (rank correlation ρ in the tooltip), Cramér's V for category pairs and the correlation ratio η for category–number pairs. Darker is stronger; rose marks negative correlation.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { CategoryCluster, ClusterMethod } from '../types';
+import { CLUSTER_METHODS } from '../services/categoryClustering';
+
+interface CategoryClustersProps {
+  clusters: CategoryCluster[];
+}
+
+const CLUSTERS_SHOWN = 10;
+
+export const CategoryClusters: React.FC<CategoryClustersProps> = ({ clusters }) => {
+  const [method, setMethod] = useState<ClusterMethod>(() => clusters[0]?.method || 'fingerprint');
+  const shown = clusters.filter(c => c.method === method);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="text-xs font-bold text-slate-500 uppercase tracking-wider">Value Clusters</div>
+        <div className="flex flex-wrap gap-1">
+          {CLUSTER_METHODS.map(m => {
+            const count = clusters.filter(c => c.method === m.method).length;
+            return (
+              <button
+                key={m.method}
+                onClick={() => setMethod(m.method)}
+                className={`px-2.5 py-1 rounded-lg text-xs font-semibold border transition-colors ${
+                  method === m.method ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-200'
+                }`}
+              >
+                {m.label} <span className="opacity-70">{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-slate-400">No clusters with this method.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {shown.slice(0, CLUSTERS_SHOWN).map(cluster => (
+            <div key={cluster.members.map(m => m.value).join('\u0000')} className="bg-white border border-slate-200 rounded-xl p-3">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="text-sm font-bold text-slate-800 truncate" title={cluster.canonical}>{cluster.canonical}</span>
+                <span className="shrink-0 text-[10px] font-bold uppercase tracking-wider text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">Suggested</span>
+              </div>
+              <div className="space-y-1">
+                {cluster.members.map(m => (
+                  <div key={m.value} className="flex items-center justify-between gap-3 text-xs">
+                    <span className="font-mono text-slate-600 truncate" title={m.value}>{m.value}</span>
+                    <span className="shrink-0 text-slate-400">{m.count.toLocaleString()} rows</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {shown.length > CLUSTERS_SHOWN && (
+        <p className="mt-2 text-xs text-slate-400">Showing the {CLUSTERS_SHOWN} largest of {shown.length} clusters.</p>
+      )}
+    </div>
+  );
+};
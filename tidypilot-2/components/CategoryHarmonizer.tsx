@@ -0,0 +1,240 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Combine, Save, Download, Upload, Check } from 'lucide-react';
+import { ClusterMethod, DatasetStats, MappingTable } from '../types';
+import { CLUSTER_METHODS } from '../services/categoryClustering';
+import { feedKeyOf } from '../services/validationRules';
+import {
+  HarmonizationGroup, buildGroups, groupsToMapping, moveMember, mappedValueCount,
+  loadMappingTables, saveMappingTable, deleteMappingTable, parseMappingTableJSON
+} from '../services/valueMappings';
+
+interface CategoryHarmonizerProps {
+  stats: DatasetStats;
+  fileName: string;
+  table: MappingTable;
+  onChange: (table: MappingTable) => void; // Applied straight away to the cleaned data
+}
+
+const inputClass = "w-full text-sm text-slate-700 bg-white border border-slate-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const sameMapping = (a: Record<string, string>, b: Record<string, string>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([from, to]) => b[from] === to);
+
+export const CategoryHarmonizer: React.FC<CategoryHarmonizerProps> = ({ stats, fileName, table, onChange }) => {
+  const columns = stats.columns.filter(c => c.inferredType === 'string' && ((c.clusters?.length || 0) > 0 || c.name in table.mappings));
+  const [columnName, setColumnName] = useState(() => columns[0]?.name || '');
+  const [method, setMethod] = useState<ClusterMethod>('fingerprint');
+  // Unapplied edits per column
+  const [drafts, setDrafts] = useState<Record<string, HarmonizationGroup[]>>({});
+  const [dragged, setDragged] = useState<string | null>(null);
+  const [savedTables, setSavedTables] = useState<MappingTable[]>(() => loadMappingTables());
+  const [message, setMessage] = useState<string | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const column = columns.find(c => c.name === columnName) || columns[0];
+  const applied = column ? table.mappings[column.name] : undefined;
+  const detected = useMemo(() => (column ? buildGroups(column, method, applied) : []), [column, method, applied]);
+  const groups = (column && drafts[column.name]) || detected;
+  const mapping = groupsToMapping(groups);
+  const isApplied = sameMapping(mapping, applied || {});
+  const isSaved = savedTables.some(t => t.id === table.id);
+
+  const setGroups = (next: HarmonizationGroup[]) => column && setDrafts({ ...drafts, [column.name]: next });
+
+  const updateGroup = (id: string, changes: Partial<HarmonizationGroup>) =>
+    setGroups(groups.map(g => (g.id === id ? { ...g, ...changes } : g)));
+
+  const toggleMember = (group: HarmonizationGroup, value: string) =>
+    updateGroup(group.id, { members: group.members.map(m => (m.value === value ? { ...m, accepted: !m.accepted } : m)) });
+
+  const selectMethod = (m: ClusterMethod) => {
+    setMethod(m);
+    if (column) setDrafts({ ...drafts, [column.name]: buildGroups(column, m, applied) });
+  };
+
+  const dropOn = (groupId: string | null) => {
+    if (dragged) setGroups(moveMember(groups, dragged, groupId));
+    setDragged(null);
+  };
+
+  const handleApply = () => {
+    if (!column) return;
+    onChange({ ...table, mappings: { ...table.mappings, [column.name]: mapping } });
+    setMessage(`Applied ${Object.keys(mapping).length} mappings to ${column.name}`);
+  };
+
+  const handleSave = () => {
+    setSavedTables(saveMappingTable(table));
+    setMessage(`Saved "${table.name}" — it will be applied to future uploads of this feed`);
+  };
+
+  const handleLoad = (id: string) => {
+    const saved = savedTables.find(t => t.id === id);
+    if (!saved) return;
+    setDrafts({});
+    onChange(saved);
+  };
+
+  const handleDelete = () => {
+    setSavedTables(deleteMappingTable(table.id));
+    setMessage(`Deleted saved table "${table.name}"`);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(table, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${table.name.replace(/[^a-z0-9_-]+/gi, '_')}.mappings.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseMappingTableJSON(await file.text());
+      setDrafts({});
+      onChange({ ...imported, feed: feedKeyOf(fileName) });
+      setMessage(`Imported ${mappedValueCount(imported)} mappings from ${file.name}`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not read mapping table');
+    }
+  };
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Combine className="text-slate-400" size={18} />
+          <h3 className="font-bold text-slate-700">Category Harmonization</h3>
+          <span className="text-xs font-semibold text-slate-500">
+            {mappedValueCount(table).toLocaleString()} values mapped · {isSaved ? `saved as "${table.name}"` : 'not saved'}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {savedTables.length > 0 && (
+            <select value="" onChange={e => handleLoad(e.target.value)} className="text-xs font-medium text-slate-600 bg-white border border-slate-200 rounded-lg px-2 py-1.5">
+              <option value="">Load saved table…</option>
+              {savedTables.map(t => (
+                <option key={t.id} value={t.id}>{t.name} ({mappedValueCount(t)})</option>
+              ))}
+            </select>
+          )}
+          <button onClick={() => importInput.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-indigo-200 transition-colors">
+            <Upload size={14} /> Import
+          </button>
+          <input ref={importInput} type="file" accept=".json" className="hidden" onChange={handleImport} />
+          <button onClick={handleExport} disabled={mappedValueCount(table) === 0} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-indigo-200 transition-colors disabled:opacity-40">
+            <Download size={14} /> Export
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {!column ? (
+          <p className="text-sm text-slate-400">No text column has variant spellings to merge.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <select value={column.name} onChange={e => setColumnName(e.target.value)} className={`${inputClass} w-56`}>
+                  {columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                </select>
+                <div className="flex flex-wrap gap-1">
+                  {CLUSTER_METHODS.map(m => (
+                    <button
+                      key={m.method}
+                      onClick={() => selectMethod(m.method)}
+                      className={`px-2.5 py-1 rounded-lg text-xs font-semibold border transition-colors ${
+                        method === m.method ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-200'
+                      }`}
+                    >
+                      {m.label} <span className="opacity-70">{column.clusters?.filter(c => c.method === m.method).length || 0}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <button
+                onClick={handleApply}
+                disabled={isApplied}
+                className="flex items-center gap-1.5 px-4 py-1.5 text-xs font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-40"
+              >
+                <Check size={14} /> {isApplied ? 'Applied' : `Apply ${Object.keys(mapping).length} mappings`}
+              </button>
+            </div>
+
+            {groups.length === 0 ? (
+              <p className="text-sm text-slate-400">No clusters with this method. Try another one.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {groups.map(group => (
+                  <div
+                    key={group.id}
+                    onDragOver={e => e.preventDefault()}
+                    onDrop={() => dropOn(group.id)}
+                    className={`bg-white border rounded-xl p-3 space-y-2 transition-colors ${dragged ? 'border-dashed border-indigo-300' : 'border-slate-200'}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <input
+                        list={`${group.id}-members`}
+                        value={group.canonical}
+                        onChange={e => updateGroup(group.id, { canonical: e.target.value })}
+                        className={`${inputClass} font-semibold`}
+                      />
+                      <datalist id={`${group.id}-members`}>
+                        {group.members.map(m => <option key={m.value} value={m.value} />)}
+                      </datalist>
+                      <span className="shrink-0 text-xs text-slate-400">
+                        {group.members.filter(m => m.accepted).reduce((sum, m) => sum + m.count, 0).toLocaleString()} rows
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {group.members.map(m => (
+                        <label
+                          key={m.value}
+                          draggable
+                          onDragStart={() => setDragged(m.value)}
+                          onDragEnd={() => setDragged(null)}
+                          title="Drag to another group"
+                          className={`flex items-center gap-1.5 px-2 py-1 rounded-lg border text-xs cursor-grab ${
+                            m.accepted ? 'bg-indigo-50/60 border-indigo-100 text-slate-700' : 'bg-white border-slate-200 text-slate-400 line-through'
+                          }`}
+                        >
+                          <input type="checkbox" checked={m.accepted} onChange={() => toggleMember(group, m.value)} className="accent-indigo-600" />
+                          <span className="font-mono">{m.value}</span>
+                          <span className="text-slate-400 no-underline">{m.count.toLocaleString()}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                <div
+                  onDragOver={e => e.preventDefault()}
+                  onDrop={() => dropOn(null)}
+                  className="flex items-center justify-center border border-dashed border-slate-200 rounded-xl p-3 text-xs text-slate-400"
+                >
+                  Drop a value here to start a new group
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input value={table.name} onChange={e => onChange({ ...table, name: e.target.value })} className={`${inputClass} w-64`} />
+          <button onClick={handleSave} disabled={mappedValueCount(table) === 0 || !table.name.trim()} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-indigo-700 bg-indigo-50 border border-indigo-100 rounded-lg hover:bg-indigo-100 transition-colors disabled:opacity-40">
+            <Save size={16} /> Save mapping table
+          </button>
+          {isSaved && (
+            <button onClick={handleDelete} className="text-xs font-semibold text-slate-400 hover:text-red-500 transition-colors">
+              Delete saved table
+            </button>
+          )}
+          {message && <span className="text-xs text-slate-500 font-medium">{message}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
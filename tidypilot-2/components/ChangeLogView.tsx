@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { History, Undo2, Redo2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChangeLog, CleaningOperation, StepLog } from '../types';
+import { describeOperation } from '../services/cleaningRecipes';
+
+interface ChangeLogViewProps {
+  log: ChangeLog;
+  appliedRecipe: CleaningOperation[] | null;
+  undoneSteps: string[]; // Most recently undone last
+  onUndo: (stepId: string) => void;
+  onRedo: (stepId: string) => void;
+}
+
+const ROWS_PER_PAGE = 25;
+const REMOVED_ROWS_SHOWN = 20;
+
+interface DiffCell {
+  before: any;
+  after: any;
+}
+
+const asText = (value: any) => (value === null || value === undefined ? '' : String(value));
+
+export const ChangeLogView: React.FC<ChangeLogViewProps> = ({ log, appliedRecipe, undoneSteps, onUndo, onRedo }) => {
+  const [stepFilter, setStepFilter] = useState<string>('all');
+  const [page, setPage] = useState(0);
+
+  const recipeIds = new Set((appliedRecipe || []).map(op => op.id));
+  const logged = new Map<string, StepLog>(log.steps.map(s => [s.stepId, s]));
+  const undoable = (appliedRecipe || []).filter(op => op.enabled && logged.has(op.id));
+  const redoable = undoneSteps.filter(id => appliedRecipe?.some(op => op.id === id && !op.enabled));
+  const filter = logged.has(stepFilter) ? stepFilter : 'all';
+
+  // Changed rows and columns under the filter; with every step, a cell shows its first value and its last
+  const diff = useMemo(() => {
+    const rows = new Map<number, Map<string, DiffCell>>();
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    log.changes.forEach(change => {
+      if (filter !== 'all' && change.stepId !== filter) return;
+      if (!seen.has(change.column)) {
+        seen.add(change.column);
+        columns.push(change.column);
+      }
+      let cells = rows.get(change.row);
+      if (!cells) rows.set(change.row, (cells = new Map()));
+      const cell = cells.get(change.column);
+      if (cell) cell.after = change.after;
+      else cells.set(change.column, { before: change.before, after: change.after });
+    });
+    return { rows: [...rows.entries()].sort((a, b) => a[0] - b[0]), columns };
+  }, [log, filter]);
+
+  const removed = filter === 'all' ? log.steps.flatMap(s => s.rowsRemoved) : logged.get(filter)?.rowsRemoved || [];
+  const cellsChanged = log.steps.reduce((sum, s) => sum + (filter === 'all' || s.stepId === filter ? s.cellsChanged : 0), 0);
+  const pageCount = Math.max(1, Math.ceil(diff.rows.length / ROWS_PER_PAGE));
+  const shownPage = Math.min(page, pageCount - 1);
+  const shownRows = diff.rows.slice(shownPage * ROWS_PER_PAGE, (shownPage + 1) * ROWS_PER_PAGE);
+
+  const selectStep = (stepId: string) => {
+    setStepFilter(stepId);
+    setPage(0);
+  };
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <History className="text-slate-400" size={18} />
+          <h3 className="font-bold text-slate-700">Change Log</h3>
+          <span className="text-xs font-semibold text-slate-500">
+            {log.steps.reduce((sum, s) => sum + s.cellsChanged, 0).toLocaleString()} cells changed · {log.steps.reduce((sum, s) => sum + s.rowsRemoved.length, 0).toLocaleString()} rows removed
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onUndo(undoable[undoable.length - 1].id)}
+            disabled={undoable.length === 0}
+            title={undoable.length > 0 ? `Undo: ${describeOperation(undoable[undoable.length - 1])}` : undefined}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-indigo-200 transition-colors disabled:opacity-40"
+          >
+            <Undo2 size={14} /> Undo
+          </button>
+          <button
+            onClick={() => onRedo(redoable[redoable.length - 1])}
+            disabled={redoable.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-indigo-200 transition-colors disabled:opacity-40"
+          >
+            <Redo2 size={14} /> Redo
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Steps */}
+        <ol className="divide-y divide-slate-100 border border-slate-100 rounded-xl">
+          {log.steps.filter(s => !recipeIds.has(s.stepId)).map(s => (
+            <li key={s.stepId} className="flex items-center justify-between gap-4 px-4 py-2.5">
+              <span className="text-sm text-slate-700 font-medium truncate">{s.description}</span>
+              <span className="shrink-0 text-xs text-slate-500">
+                {s.rowsRemoved.length > 0 ? `${s.rowsRemoved.length.toLocaleString()} rows removed` : `${s.cellsChanged.toLocaleString()} cells`}
+              </span>
+            </li>
+          ))}
+          {(appliedRecipe || []).filter(op => logged.has(op.id) || !op.enabled).map(op => {
+            const s = logged.get(op.id);
+            return (
+              <li key={op.id} className="flex items-center justify-between gap-4 px-4 py-2.5">
+                <span className={`text-sm font-medium truncate ${s ? 'text-slate-700' : 'text-slate-400 line-through'}`} title={describeOperation(op)}>
+                  {describeOperation(op)}
+                </span>
+                <div className="shrink-0 flex items-center gap-3">
+                  {s && (
+                    <span className="text-xs text-slate-500">
+                      {s.rowsRemoved.length > 0 ? `${s.rowsRemoved.length.toLocaleString()} rows removed` : `${s.cellsChanged.toLocaleString()} cells`}
+                    </span>
+                  )}
+                  {s ? (
+                    <button onClick={() => onUndo(op.id)} className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-indigo-600 transition-colors">
+                      <Undo2 size={14} /> Undo
+                    </button>
+                  ) : (
+                    <button onClick={() => onRedo(op.id)} className="flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-800 transition-colors">
+                      <Redo2 size={14} /> Redo
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+
+        {/* Diff */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="text-xs font-bold text-slate-500 uppercase tracking-wider">Raw vs Cleaned</div>
+            <select
+              value={filter}
+              onChange={e => selectStep(e.target.value)}
+              className="max-w-sm text-sm text-slate-700 bg-white border border-slate-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="all">All steps</option>
+              {log.steps.map((s, i) => <option key={s.stepId} value={s.stepId}>{i + 1}. {s.description}</option>)}
+            </select>
+          </div>
+
+          {removed.length > 0 && (
+            <p className="text-xs text-slate-500">
+              {removed.length.toLocaleString()} rows removed: {[...removed].sort((a, b) => a - b).slice(0, REMOVED_ROWS_SHOWN).join(', ')}
+              {removed.length > REMOVED_ROWS_SHOWN && ', …'}
+            </p>
+          )}
+          {log.truncated && (
+            <p className="text-xs text-amber-700">
+              {cellsChanged.toLocaleString()} cells changed; the log keeps the first {log.changes.length.toLocaleString()} changes.
+            </p>
+          )}
+
+          {diff.rows.length === 0 ? (
+            <p className="text-sm text-slate-400">No cell values changed{filter === 'all' ? '' : ' in this step'}.</p>
+          ) : (
+            <>
+              <div className="overflow-x-auto border border-slate-100 rounded-xl">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-bold uppercase tracking-wider">Row</th>
+                      {diff.columns.map(c => <th key={c} className="px-3 py-2 text-left font-bold whitespace-nowrap">{c}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {shownRows.map(([row, cells]) => (
+                      <tr key={row}>
+                        <td className="px-3 py-2 text-slate-400 font-semibold">{row}</td>
+                        {diff.columns.map(c => {
+                          const cell = cells.get(c);
+                          return (
+                            <td key={c} className="px-3 py-2 whitespace-nowrap align-top">
+                              {cell && (
+                                <div className="font-mono">
+                                  <div className="text-rose-600 line-through decoration-rose-300">{asText(cell.before) || <span className="italic no-underline">empty</span>}</div>
+                                  <div className="text-emerald-700">{asText(cell.after) || <span className="italic">empty</span>}</div>
+                                </div>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {pageCount > 1 && (
+                <div className="flex items-center justify-end gap-2 text-xs text-slate-500">
+                  <button onClick={() => setPage(shownPage - 1)} disabled={shownPage === 0} className="p-1 hover:text-indigo-600 disabled:opacity-30">
+                    <ChevronLeft size={16} />
+                  </button>
+                  Page {shownPage + 1} of {pageCount.toLocaleString()} · {diff.rows.length.toLocaleString()} changed rows
+                  <button onClick={() => setPage(shownPage + 1)} disabled={shownPage === pageCount - 1} className="p-1 hover:text-indigo-600 disabled:opacity-30">
+                    <ChevronRight size={16} />
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,22 @@
 import React from 'react';
-import { CleaningPlan, DataRow } from '../types';
-import { Download, RefreshCw, CheckCircle, Database, FileSpreadsheet, AlertTriangle, LayoutTemplate, Activity, Code } from 'lucide-react';
+import { AppSettings, ChangeLog, CleaningOperation, CleaningPlan, DataRow } from '../types';
+import { Download, RefreshCw, CheckCircle, ShieldAlert, History, Database, FileSpreadsheet, AlertTriangle, LayoutTemplate, Activity, Code } from 'lucide-react';
 import Papa from 'papaparse';
+import { describeRelationship } from '../services/relationshipDiscovery';
+import { changeLogRows } from '../services/cleaningRecipes';
 
 interface CleaningPlanDisplayProps {
   plan: CleaningPlan | null;
   loading: boolean;
   cleanedData?: DataRow[];
+  rejectedData?: DataRow[]; // Rows quarantined by strict mode
+  appliedRecipe?: CleaningOperation[] | null; // Recipe the cleaned rows were built with
+  changeLog?: ChangeLog; // Cell changes and removed rows behind cleanedData
+  settings: AppSettings;
   fileName: string;
 }
 
-export const CleaningPlanDisplay: React.FC<CleaningPlanDisplayProps> = ({ plan, loading, cleanedData, fileName }) => {
+export const CleaningPlanDisplay: React.FC<CleaningPlanDisplayProps> = ({ plan, loading, cleanedData, rejectedData = [], appliedRecipe, changeLog, settings, fileName }) => {
   if (loading) {
     return (
       <div className="bg-white p-16 rounded-2xl shadow-sm border border-slate-200 flex flex-col items-center justify-center text-center animate-pulse">
@@ -23,15 +29,15 @@ export const CleaningPlanDisplay: React.FC<CleaningPlanDisplayProps> = ({ plan,
 
   if (!plan) return null;
 
-  const downloadCSV = () => {
-    if (!cleanedData) return;
-    const csv = Papa.unparse(cleanedData);
+  const downloadCSV = (rows: DataRow[] | undefined, prefix: string) => {
+    if (!rows) return;
+    const csv = Papa.unparse(rows);
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     if (link.download !== undefined) {
       const url = URL.createObjectURL(blob);
       link.setAttribute('href', url);
-      link.setAttribute('download', `cleaned_${fileName}`);
+      link.setAttribute('download', `${prefix}_${fileName}`);
       link.style.visibility = 'hidden';
       document.body.appendChild(link);
       link.click();
@@ -49,18 +55,42 @@ export const CleaningPlanDisplay: React.FC<CleaningPlanDisplayProps> = ({ plan,
                     <CheckCircle size={24} />
                 </div>
                 <div>
-                    <h3 className="text-lg font-bold text-emerald-900">Auto-Clean Applied</h3>
+                    <h3 className="text-lg font-bold text-emerald-900">
+                        {appliedRecipe ? 'Cleaning Recipe Applied'
+                          : settings.strictMode ? 'Strict Mode Applied'
+                          : changeLog?.steps.some(s => s.stepId === 'duplicates') ? 'Duplicates Removed' : 'Categories Harmonized'}
+                    </h3>
                     <p className="text-emerald-700/80 text-sm mt-1 max-w-xl">
-                        We automatically normalized text, trimmed whitespace, removed exact duplicates, and fixed basic type issues based on your settings.
+                        {appliedRecipe && `Ran ${appliedRecipe.filter(op => op.enabled).length} cleaning steps on ${cleanedData.length.toLocaleString()} rows.`}
+                        {changeLog && ` ${changeLog.steps.reduce((sum, s) => sum + s.cellsChanged, 0).toLocaleString()} cells changed.`}
+                        {settings.strictMode && ` ${rejectedData.length.toLocaleString()} rows failing type, format or rule checks were quarantined.`}
                     </p>
                 </div>
             </div>
-            <button 
-                onClick={downloadCSV}
-                className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-8 py-3.5 rounded-xl font-bold shadow-lg shadow-emerald-200 transition-all transform hover:-translate-y-0.5"
-            >
-                <Download size={18} /> Download CSV
-            </button>
+            <div className="flex flex-col sm:flex-row gap-3">
+                {changeLog && (
+                    <button
+                        onClick={() => downloadCSV(changeLogRows(changeLog), 'changes')}
+                        className="flex items-center gap-2 bg-white hover:bg-emerald-50 text-emerald-700 border border-emerald-200 px-6 py-3.5 rounded-xl font-bold shadow-sm transition-all transform hover:-translate-y-0.5"
+                    >
+                        <History size={18} /> Change Log
+                    </button>
+                )}
+                {rejectedData.length > 0 && (
+                    <button
+                        onClick={() => downloadCSV(rejectedData, 'rejected')}
+                        className="flex items-center gap-2 bg-white hover:bg-rose-50 text-rose-700 border border-rose-200 px-6 py-3.5 rounded-xl font-bold shadow-sm transition-all transform hover:-translate-y-0.5"
+                    >
+                        <ShieldAlert size={18} /> Rejected Rows
+                    </button>
+                )}
+                <button 
+                    onClick={() => downloadCSV(cleanedData, 'cleaned')}
+                    className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-8 py-3.5 rounded-xl font-bold shadow-lg shadow-emerald-200 transition-all transform hover:-translate-y-0.5"
+                >
+                    <Download size={18} /> Download CSV
+                </button>
+            </div>
         </div>
       )}
 
@@ -172,6 +202,18 @@ export const CleaningPlanDisplay: React.FC<CleaningPlanDisplayProps> = ({ plan,
                                             ) : <span className="text-xs text-slate-400">None detected</span>}
                                         </div>
                                     </div>
+                                    {plan.biModeling.relationships && plan.biModeling.relationships.length > 0 && (
+                                        <div className="bg-slate-50 p-4 rounded-xl border border-slate-100">
+                                            <span className="block text-xs font-bold text-slate-600 mb-2 uppercase">Detected Relationships</span>
+                                            <ul className="space-y-1.5">
+                                                {plan.biModeling.relationships.map((r, i) => (
+                                                    <li key={i} className="text-xs text-slate-700 font-mono">
+                                                        {describeRelationship(r)}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                             
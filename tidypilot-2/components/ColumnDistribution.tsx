@@ -0,0 +1,104 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { ColumnProfile } from '../types';
+
+interface ColumnDistributionProps {
+  column: ColumnProfile;
+  rowCount: number;
+}
+
+// A pattern this rare next to a dominant one is probably drift rather than a second format
+const DRIFT_SHARE = 0.05;
+const DOMINANT_SHARE = 0.8;
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</div>
+    <div className="text-sm font-semibold text-slate-700">{value}</div>
+  </div>
+);
+
+export const ColumnDistribution: React.FC<ColumnDistributionProps> = ({ column, rowCount }) => {
+  const { numericStats, lengthStats, patterns } = column;
+  const filled = rowCount - column.missingCount;
+
+  const histogram = numericStats?.histogram.map(bin => ({
+    label: bin.end - bin.start === 1 ? formatNumber(bin.start) : `${formatNumber(bin.start)} – ${formatNumber(bin.end)}`,
+    count: bin.count
+  }));
+  const dominant = patterns && patterns.length > 0 && filled > 0 && patterns[0].count / filled >= DOMINANT_SHARE;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {numericStats && histogram && (
+        <div>
+          <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Histogram</div>
+          <div className="w-full h-28 min-w-0">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogram} margin={{ top: 0, right: 0, left: 0, bottom: 0 }}>
+                <XAxis dataKey="label" hide />
+                <Tooltip
+                  cursor={{ fill: '#f1f5f9' }}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: 12 }}
+                />
+                <Bar dataKey="count" fill="#6366f1" radius={[3, 3, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex justify-between text-[10px] text-slate-400 font-medium mt-1">
+            <span>{formatNumber(numericStats.min)}</span>
+            <span>{formatNumber(numericStats.max)}</span>
+          </div>
+        </div>
+      )}
+
+      {numericStats && (
+        <div className="grid grid-cols-4 gap-x-4 gap-y-3 content-start">
+          <Stat label="P1" value={formatNumber(numericStats.quantiles.p1)} />
+          <Stat label="P5" value={formatNumber(numericStats.quantiles.p5)} />
+          <Stat label="P25" value={formatNumber(numericStats.quantiles.p25)} />
+          <Stat label="Median" value={formatNumber(numericStats.median)} />
+          <Stat label="P75" value={formatNumber(numericStats.quantiles.p75)} />
+          <Stat label="P95" value={formatNumber(numericStats.quantiles.p95)} />
+          <Stat label="P99" value={formatNumber(numericStats.quantiles.p99)} />
+          <Stat label="Std Dev" value={formatNumber(numericStats.stdDev)} />
+          <Stat label="Skewness" value={numericStats.skewness.toFixed(2)} />
+          <Stat label="Kurtosis" value={numericStats.kurtosis.toFixed(2)} />
+          <Stat label="Zeros" value={numericStats.zeroCount.toLocaleString()} />
+          <Stat label="Negative" value={numericStats.negativeCount.toLocaleString()} />
+        </div>
+      )}
+
+      {patterns && patterns.length > 0 && (
+        <div>
+          <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Value Patterns</div>
+          <div className="space-y-1.5">
+            {patterns.map(p => {
+              const share = filled > 0 ? p.count / filled : 0;
+              const drift = dominant && share < DRIFT_SHARE;
+              return (
+                <div key={p.pattern} className="flex items-center gap-3 text-sm">
+                  <span className={`font-mono w-44 truncate ${drift ? 'text-amber-700' : 'text-slate-700'}`} title={p.pattern}>{p.pattern}</span>
+                  <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${drift ? 'bg-amber-400' : 'bg-indigo-400'}`} style={{ width: `${Math.max(1, share * 100)}%` }} />
+                  </div>
+                  <span className={`w-16 text-right text-xs font-medium ${drift ? 'text-amber-700' : 'text-slate-400'}`}>{(share * 100).toFixed(1)}%</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {lengthStats && (
+        <div className="grid grid-cols-3 gap-4 content-start">
+          <Stat label="Min Length" value={lengthStats.min.toLocaleString()} />
+          <Stat label="Avg Length" value={formatNumber(lengthStats.mean)} />
+          <Stat label="Max Length" value={lengthStats.max.toLocaleString()} />
+        </div>
+      )}
+    </div>
+  );
+};
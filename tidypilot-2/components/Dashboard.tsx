@@ -1,11 +1,18 @@
 import React from 'react';
-import { DatasetStats } from '../types';
+import { DatasetStats, SchemaAlignmentReport } from '../types';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, CartesianGrid } from 'recharts';
-import { AlertTriangle, CheckCircle, Database, FileX, BarChart3, Activity } from 'lucide-react';
+import { AlertTriangle, CheckCircle, Database, FileX, BarChart3, Activity, Files, KeyRound, ChevronDown, ChevronRight } from 'lucide-react';
+import { semanticLabel } from '../services/semanticTypes';
+import { describeKey } from '../services/structureDiscovery';
+import { ColumnDistribution } from './ColumnDistribution';
+import { CategoryClusters } from './CategoryClusters';
+import { AssociationHeatmap } from './AssociationHeatmap';
+import { MissingnessPanel } from './MissingnessPanel';
 
 interface DashboardProps {
   stats: DatasetStats;
   fileName: string;
+  schemaReport?: SchemaAlignmentReport | null;
 }
 
 const truncateLabel = (value: string, maxLength: number = 15) => {
@@ -25,7 +32,7 @@ const CustomYAxisTick = (props: any) => {
   );
 };
 
-export const Dashboard: React.FC<DashboardProps> = ({ stats, fileName }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ stats, fileName, schemaReport }) => {
   const missingData = stats.columns
     .filter(c => c.missingCount > 0)
     .map(c => ({ name: c.name, missing: c.missingCount }))
@@ -34,9 +41,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, fileName }) => {
   const totalCells = stats.rowCount * stats.columnCount;
   const qualityScore = Math.max(0, 100 - ((stats.totalMissingCells + (stats.duplicateRows * stats.columnCount)) / totalCells) * 100).toFixed(1);
 
+  const mismatchedColumns = schemaReport
+    ? schemaReport.columns.filter(c => c.missingFrom.length > 0 || new Set(c.sources.map(s => s.header)).size > 1)
+    : [];
+
   // State for toggles
   const [showLowConfidence, setShowLowConfidence] = React.useState(false);
   const [showAnomalies, setShowAnomalies] = React.useState(false);
+  const [expandedColumns, setExpandedColumns] = React.useState<Set<string>>(new Set());
+
+  const toggleColumn = (name: string) => setExpandedColumns(prev => {
+    const next = new Set(prev);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    return next;
+  });
 
   return (
     <div className="space-y-8 w-full animate-fade-in">
@@ -87,6 +106,101 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, fileName }) => {
         </div>
       </div>
 
+      {/* Schema Alignment (multi-file uploads) */}
+      {schemaReport && (
+        <div className="w-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Files className="text-slate-400" size={18} />
+                    <h3 className="font-bold text-slate-700">Schema Alignment</h3>
+                </div>
+                <span className="text-xs font-semibold text-slate-500">
+                    {schemaReport.files.length} files appended · source in <code className="font-mono text-indigo-600">{schemaReport.sourceColumn}</code>
+                </span>
+            </div>
+            {mismatchedColumns.length > 0 ? (
+                <div className="divide-y divide-slate-50">
+                    {mismatchedColumns.map(col => {
+                        const variants = Array.from(new Set(col.sources.map(s => s.header)));
+                        return (
+                            <div key={col.name} className="px-6 py-3 flex flex-col md:flex-row md:items-center gap-2 md:gap-6 text-sm">
+                                <span className="font-bold text-slate-800 md:w-1/4 truncate">{col.name}</span>
+                                <span className={`text-xs font-bold px-2.5 py-1 rounded-full w-fit ${
+                                    col.missingFrom.length > 0 ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-600'
+                                }`}>
+                                    In {schemaReport.files.length - col.missingFrom.length}/{schemaReport.files.length} files
+                                </span>
+                                <span className="text-xs text-slate-400 truncate">
+                                    {col.missingFrom.length > 0 && <>Missing from: {col.missingFrom.join(', ')}</>}
+                                    {col.missingFrom.length > 0 && variants.length > 1 && ' · '}
+                                    {variants.length > 1 && <>Matched headers: {variants.join(' ≈ ')}</>}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="px-6 py-4 flex items-center gap-2 text-emerald-600 text-sm font-medium">
+                    <CheckCircle size={16} /> All files share the same columns
+                </div>
+            )}
+        </div>
+      )}
+
+      {/* Grain: candidate keys and functional dependencies */}
+      {stats.structure && (
+        <div className="w-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <KeyRound className="text-slate-400" size={18} />
+                    <h3 className="font-bold text-slate-700">Grain & Dependencies</h3>
+                </div>
+                {stats.structure.sampledRows && (
+                    <span className="text-xs font-semibold text-slate-500">
+                        Based on the first {stats.structure.sampledRows.toLocaleString()} rows
+                    </span>
+                )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-100">
+                <div className="px-6 py-4 space-y-2">
+                    <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Candidate Keys</div>
+                    {stats.structure.keys.length > 0 ? stats.structure.keys.map(key => (
+                        <div key={key.columns.join('|')} className="flex items-center justify-between gap-4 text-sm">
+                            <span className="font-mono text-slate-800 truncate">{describeKey(key)}</span>
+                            <span className={`shrink-0 text-xs font-bold px-2.5 py-1 rounded-full ${
+                                key.violations === 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-100 text-amber-700'
+                            }`}>
+                                {key.violations === 0 ? 'Unique' : `Unique except ${key.violations} rows`}
+                            </span>
+                        </div>
+                    )) : (
+                        <p className="text-sm text-slate-400">No column or column combination identifies each row.</p>
+                    )}
+                </div>
+                <div className="px-6 py-4 space-y-2">
+                    <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Functional Dependencies</div>
+                    {stats.structure.dependencies.length > 0 ? stats.structure.dependencies.map(d => (
+                        <div key={`${d.from}|${d.to}`} className="flex items-center justify-between gap-4 text-sm">
+                            <span className="font-mono text-slate-800 truncate">{d.from} → {d.to}</span>
+                            <span className={`shrink-0 text-xs font-bold px-2.5 py-1 rounded-full ${
+                                d.violations === 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-100 text-amber-700'
+                            }`}>
+                                {d.violations === 0 ? 'Exact' : `${(d.support * 100).toFixed(1)}% support`}
+                            </span>
+                        </div>
+                    )) : (
+                        <p className="text-sm text-slate-400">No column determines another.</p>
+                    )}
+                </div>
+            </div>
+        </div>
+      )}
+
+      {/* Column Associations */}
+      {stats.associations && stats.associations.columns.length > 1 && (
+        <AssociationHeatmap associations={stats.associations} />
+      )}
+
       {/* Toggles */}
       <div className="flex flex-wrap gap-6 items-center justify-end text-sm text-slate-600 px-2">
         <label className="flex items-center gap-2 cursor-pointer select-none hover:text-indigo-600 transition-colors">
@@ -96,7 +210,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, fileName }) => {
                 onChange={e => setShowLowConfidence(e.target.checked)}
                 className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500 border-slate-300"
             />
-            Show low-confidence typos
+            Show low-confidence findings
         </label>
         <label className="flex items-center gap-2 cursor-pointer select-none hover:text-indigo-600 transition-colors">
             <input 
@@ -134,9 +248,17 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, fileName }) => {
                         });
 
                         return (
-                        <tr key={col.name} className={`hover:bg-indigo-50/30 transition-colors ${i % 2 === 0 ? 'bg-white' : 'bg-slate-50/30'}`}>
+                        <React.Fragment key={col.name}>
+                        <tr className={`hover:bg-indigo-50/30 transition-colors ${i % 2 === 0 ? 'bg-white' : 'bg-slate-50/30'}`}>
                             <td className="px-6 py-4 align-top">
-                                <div className="font-bold text-slate-800 text-base">{col.name}</div>
+                                <button
+                                    onClick={() => toggleColumn(col.name)}
+                                    className="flex items-center gap-1 font-bold text-slate-800 text-base hover:text-indigo-600 transition-colors text-left"
+                                    title="Show distribution"
+                                >
+                                    {expandedColumns.has(col.name) ? <ChevronDown size={16} className="shrink-0 text-slate-400" /> : <ChevronRight size={16} className="shrink-0 text-slate-400" />}
+                                    {col.name}
+                                </button>
                                 {col.numericStats && (
                                     <div className="mt-1.5 flex flex-wrap gap-x-3 gap-y-1 text-xs text-slate-400 font-medium">
                                         <span>Min: {col.numericStats.min.toLocaleString()}</span>
@@ -146,15 +268,26 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, fileName }) => {
                                 )}
                             </td>
                             <td className="px-6 py-4 align-top">
-                                <span className={`inline-block px-2.5 py-1 rounded-md text-[10px] uppercase font-bold tracking-wider mb-1.5 ${
+                                <span title={col.semanticType ? `${col.inferredType} column` : undefined} className={`inline-block px-2.5 py-1 rounded-md text-[10px] uppercase font-bold tracking-wider mb-1.5 ${
+                                    col.semanticType ? 'bg-teal-50 text-teal-700' :
                                     col.inferredType === 'number' ? 'bg-blue-50 text-blue-700' : 
                                     col.inferredType === 'date' ? 'bg-purple-50 text-purple-700' :
                                     col.inferredType === 'boolean' ? 'bg-orange-50 text-orange-700' :
                                     'bg-slate-100 text-slate-600'
                                 }`}>
-                                    {col.inferredType}
+                                    {col.semanticType ? semanticLabel(col.semanticType) : col.inferredType}
                                 </span>
                                 <div className="text-xs text-slate-400 font-medium ml-1">{col.uniqueCount} unique</div>
+                                {col.numberFormat && (col.numberFormat.currency || col.numberFormat.unit || col.numberFormat.decimalSeparator === ',') && (
+                                    <div className="text-xs text-slate-400 font-medium ml-1 mt-0.5">
+                                        {[col.numberFormat.currency, col.numberFormat.unit, col.numberFormat.decimalSeparator === ',' ? 'decimal comma' : null].filter(Boolean).join(' · ')}
+                                    </div>
+                                )}
+                                {col.dateFormat && (
+                                    <div className="text-xs text-slate-400 font-medium ml-1 mt-0.5">
+                                        {col.dateFormat.formats.join(' · ')}{col.dateFormat.ambiguous ? ' (order assumed)' : ''}
+                                    </div>
+                                )}
                             </td>
                             <td className="px-6 py-4 align-top">
                                 {visibleIssues.length > 0 ? (
@@ -172,12 +305,27 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, fileName }) => {
                                                         issue.isAnomaly ? 'text-blue-700' : 'text-slate-700'
                                                     }`}>
                                                         {issue.description}
+                                                        {issue.confidence !== undefined && (
+                                                            <span
+                                                                className={`ml-2 inline-block px-1.5 py-0.5 rounded text-[10px] font-bold align-middle ${
+                                                                    issue.isLowConfidence ? 'bg-slate-100 text-slate-400' : 'bg-indigo-50 text-indigo-600'
+                                                                }`}
+                                                                title="Confidence in this finding"
+                                                            >
+                                                                {Math.round(issue.confidence * 100)}%
+                                                            </span>
+                                                        )}
                                                     </span>
                                                     {issue.examples.length > 0 && (
                                                         <span className="text-xs text-slate-400 block truncate max-w-xs mt-0.5">
                                                             Ex: {issue.examples.join(", ")}
                                                         </span>
                                                     )}
+                                                    {issue.rowIndices && issue.rowIndices.length > 0 && (
+                                                        <span className="text-xs text-slate-400 block truncate max-w-xs mt-0.5">
+                                                            Rows: {issue.rowIndices.slice(0, 8).map((r, k) => issue.anomalyScores ? `${r + 1} (score ${issue.anomalyScores[k]})` : r + 1).join(", ")}{issue.count > 8 ? ', …' : ''}
+                                                        </span>
+                                                    )}
                                                 </div>
                                             </div>
                                         ))}
@@ -206,6 +354,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, fileName }) => {
                                 )}
                             </td>
                         </tr>
+                        {expandedColumns.has(col.name) && (
+                            <tr className="bg-slate-50/60">
+                                <td colSpan={4} className="px-6 py-5 border-t border-slate-100">
+                                    <ColumnDistribution column={col} rowCount={stats.rowCount} />
+                                    {col.clusters && col.clusters.length > 0 && (
+                                        <div className="mt-6">
+                                            <CategoryClusters clusters={col.clusters} />
+                                        </div>
+                                    )}
+                                </td>
+                            </tr>
+                        )}
+                        </React.Fragment>
                     )})}
                 </tbody>
             </table>
@@ -263,6 +424,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, fileName }) => {
             </div>
         )}
       </div>
+
+      {/* Missingness Patterns */}
+      {stats.missingness && stats.missingness.columns.length > 0 && (
+        <MissingnessPanel missingness={stats.missingness} columnCount={stats.columnCount} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { Copy, Search, Check } from 'lucide-react';
+import { DataRow, ColumnProfile, DuplicateConfig, DuplicateReport, SurvivorRule } from '../types';
+import { findDuplicates, MAX_FUZZY_ROWS } from '../services/recordLinkage';
+
+interface DuplicateReviewProps {
+  data: DataRow[];
+  columns: ColumnProfile[];
+  onApply: (report: DuplicateReport) => void;
+}
+
+const SURVIVOR_OPTIONS: { value: SurvivorRule; label: string }[] = [
+  { value: 'first', label: 'Keep first row' },
+  { value: 'latest', label: 'Keep latest row' },
+  { value: 'most_complete', label: 'Keep most complete row' }
+];
+
+const CLUSTER_LIMIT = 20;
+
+const inputClass = "text-sm text-slate-700 bg-white border border-slate-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "text-xs font-bold text-slate-500 uppercase tracking-wider";
+
+/** Key mode starts from id-like columns; fuzzy mode from the text columns that aren't identifiers. */
+const defaultColumns = (columns: ColumnProfile[], mode: DuplicateConfig['mode']): string[] =>
+  mode === 'key'
+    ? columns.filter(c => /(^|_)id$|_key$|number$/i.test(c.name)).slice(0, 1).map(c => c.name)
+    : columns.filter(c => c.inferredType === 'string' && c.semanticType !== 'uuid' && c.uniqueCount > 1).slice(0, 4).map(c => c.name);
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ data, columns, onApply }) => {
+  const [config, setConfig] = useState<DuplicateConfig>(() => ({
+    mode: 'fuzzy',
+    columns: defaultColumns(columns, 'fuzzy'),
+    threshold: 0.9,
+    survivor: 'first',
+    orderColumn: columns.find(c => c.inferredType === 'date')?.name
+  }));
+  const [report, setReport] = useState<DuplicateReport | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [applied, setApplied] = useState(false);
+
+  const update = (changes: Partial<DuplicateConfig>) => {
+    setConfig({ ...config, ...changes });
+    setReport(null);
+    setApplied(false);
+  };
+
+  const toggleColumn = (name: string) =>
+    update({ columns: config.columns.includes(name) ? config.columns.filter(c => c !== name) : [...config.columns, name] });
+
+  const runSearch = () => {
+    setSearching(true);
+    // Let the spinner paint before the (synchronous) matching starts
+    setTimeout(() => {
+      setReport(findDuplicates(data, config, columns));
+      setSearching(false);
+    }, 20);
+  };
+
+  const handleApply = () => {
+    if (!report) return;
+    onApply(report);
+    setApplied(true);
+  };
+
+  const shownColumns = Array.from(new Set([...config.columns, ...(config.survivor === 'latest' && config.orderColumn ? [config.orderColumn] : [])]));
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Copy className="text-slate-400" size={18} />
+          <h3 className="font-bold text-slate-700">Duplicate Records</h3>
+          {report && (
+            <span className="text-xs font-semibold text-slate-500">
+              {report.clusters.length} cluster{report.clusters.length === 1 ? '' : 's'} · {report.duplicateRows} rows to remove
+            </span>
+          )}
+        </div>
+        <div className="flex bg-white border border-slate-200 rounded-lg p-0.5">
+          {(['fuzzy', 'key'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => update({ mode, columns: defaultColumns(columns, mode) })}
+              className={`px-3 py-1 text-xs font-bold rounded-md transition-colors ${config.mode === mode ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {mode === 'fuzzy' ? 'Fuzzy match' : 'Key columns'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="space-y-2">
+          <span className={labelClass}>{config.mode === 'key' ? 'Rows are duplicates when these columns match' : 'Compare rows on'}</span>
+          <div className="flex flex-wrap gap-2">
+            {columns.map(c => (
+              <button
+                key={c.name}
+                onClick={() => toggleColumn(c.name)}
+                className={`px-2.5 py-1 text-xs font-semibold rounded-full border transition-colors ${
+                  config.columns.includes(c.name) ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'
+                }`}
+              >
+                {c.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          {config.mode === 'fuzzy' && (
+            <label className="space-y-1">
+              <span className={labelClass}>Match threshold: {Math.round(config.threshold * 100)}%</span>
+              <input
+                type="range" min={0.7} max={0.99} step={0.01} value={config.threshold}
+                onChange={e => update({ threshold: Number(e.target.value) })}
+                className="block w-48 accent-indigo-600"
+              />
+            </label>
+          )}
+          <label className="space-y-1">
+            <span className={`${labelClass} block`}>Survivor</span>
+            <select value={config.survivor} onChange={e => update({ survivor: e.target.value as SurvivorRule })} className={inputClass}>
+              {SURVIVOR_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </label>
+          {config.survivor === 'latest' && (
+            <label className="space-y-1">
+              <span className={`${labelClass} block`}>Latest by</span>
+              <select value={config.orderColumn || ''} onChange={e => update({ orderColumn: e.target.value || undefined })} className={inputClass}>
+                <option value="">Column…</option>
+                {columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+              </select>
+            </label>
+          )}
+          <div className="flex-grow" />
+          <button
+            onClick={runSearch}
+            disabled={searching || config.columns.length === 0}
+            className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-indigo-700 bg-indigo-50 border border-indigo-100 rounded-lg hover:bg-indigo-100 transition-colors disabled:opacity-40"
+          >
+            <Search size={16} /> {searching ? 'Searching…' : 'Find duplicates'}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!report || report.duplicateRows === 0 || applied}
+            className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            <Check size={16} /> {applied ? 'Duplicates removed' : `Remove ${report?.duplicateRows ?? 0} duplicates`}
+          </button>
+        </div>
+
+        {report?.truncated && (
+          <p className="text-xs text-amber-600 font-medium">Fuzzy matching looked at the first {MAX_FUZZY_ROWS.toLocaleString()} rows only.</p>
+        )}
+        {report && report.clusters.length === 0 && (
+          <p className="text-sm text-slate-400">No duplicates found with these settings.</p>
+        )}
+
+        {report && report.clusters.length > 0 && (
+          <div className="space-y-4">
+            {report.clusters.slice(0, CLUSTER_LIMIT).map((cluster, i) => (
+              <div key={i} className="border border-slate-100 rounded-xl overflow-hidden">
+                <div className="px-4 py-2 bg-slate-50 text-xs font-semibold text-slate-500 flex justify-between">
+                  <span>{cluster.rowIndices.length} rows</span>
+                  <span>{config.mode === 'key' ? 'Key match' : `${Math.round(cluster.score * 100)}% similar`}</span>
+                </div>
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-400 uppercase">
+                    <tr>
+                      <th className="px-4 py-2 font-semibold">Row</th>
+                      {shownColumns.map(c => <th key={c} className="px-4 py-2 font-semibold">{c}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {cluster.rowIndices.map(rowIndex => (
+                      <tr key={rowIndex} className={rowIndex === cluster.survivor ? 'bg-emerald-50/60' : ''}>
+                        <td className="px-4 py-2 text-slate-400 whitespace-nowrap">
+                          {rowIndex + 1}
+                          {rowIndex === cluster.survivor && <span className="ml-2 text-[10px] font-bold uppercase text-emerald-700">kept</span>}
+                        </td>
+                        {shownColumns.map(c => (
+                          <td key={c} className="px-4 py-2 text-slate-700 truncate max-w-xs">{String(data[rowIndex][c] ?? '')}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+            {report.clusters.length > CLUSTER_LIMIT && (
+              <p className="text-xs text-slate-400">Showing {CLUSTER_LIMIT} of {report.clusters.length} clusters; removing applies to all of them.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, SlidersHorizontal, X } from 'lucide-react';
+import { CsvImportOptions, CsvPreview } from '../types';
+import { previewCSV, DELIMITER_CANDIDATES, ENCODING_OPTIONS } from '../services/csvImport';
+
+interface ImportWizardProps {
+  file: File;
+  detected: CsvImportOptions;
+  onConfirm: (options: CsvImportOptions) => void;
+  onCancel: () => void;
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)'
+};
+
+const selectClass = "mt-1.5 w-full px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ file, detected, onConfirm, onCancel }) => {
+  const [options, setOptions] = useState<CsvImportOptions>(detected);
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stale = false;
+    previewCSV(file, options)
+      .then(result => {
+        if (stale) return;
+        setPreview(result);
+        setPreviewError(null);
+      })
+      .catch(err => {
+        if (!stale) setPreviewError(err instanceof Error ? err.message : "Could not preview file");
+      });
+    return () => { stale = true; };
+  }, [file, options]);
+
+  const update = (patch: Partial<CsvImportOptions>) => setOptions({ ...options, ...patch });
+  const isDetected = (key: keyof CsvImportOptions) => options[key] === detected[key];
+
+  const detectedBadge = (key: keyof CsvImportOptions) => isDetected(key) && (
+    <span className="ml-1.5 text-[10px] font-bold text-emerald-600 bg-emerald-50 px-1.5 py-0.5 rounded normal-case tracking-normal">detected</span>
+  );
+
+  return (
+    <div className="border border-indigo-100 bg-indigo-50/30 rounded-2xl p-6 mb-10 animate-fade-in">
+      <div className="flex items-center justify-between mb-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-100 text-indigo-600 rounded-lg shadow-sm">
+            <SlidersHorizontal size={18} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Import settings</h3>
+            <p className="text-xs text-slate-500 font-medium">{file.name} · {(file.size / 1024).toLocaleString(undefined, { maximumFractionDigits: 0 })} KB</p>
+          </div>
+        </div>
+        <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Delimiter{detectedBadge('delimiter')}</span>
+          <select value={options.delimiter} onChange={e => update({ delimiter: e.target.value })} className={selectClass}>
+            {DELIMITER_CANDIDATES.map(d => <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Encoding{detectedBadge('encoding')}</span>
+          <select value={options.encoding} onChange={e => update({ encoding: e.target.value })} className={selectClass}>
+            {ENCODING_OPTIONS.map(enc => <option key={enc} value={enc}>{enc.toUpperCase()}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Quote{detectedBadge('quoteChar')}</span>
+          <select value={options.quoteChar} onChange={e => update({ quoteChar: e.target.value })} className={selectClass}>
+            <option value={'"'}>Double (")</option>
+            <option value={"'"}>Single (')</option>
+          </select>
+        </label>
+        <div className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Header{detectedBadge('hasHeader')}</span>
+          <label className="mt-1.5 flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 bg-white text-sm text-slate-700 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={options.hasHeader}
+              onChange={e => update({ hasHeader: e.target.checked })}
+              className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500 border-slate-300"
+            />
+            First kept row is a header
+          </label>
+        </div>
+      </div>
+
+      {previewError && (
+        <div className="text-sm text-rose-600 bg-rose-50 border border-rose-100 rounded-lg px-4 py-2.5 mb-5">{previewError}</div>
+      )}
+
+      {preview && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
+          {/* Raw rows: click to choose where the table starts */}
+          <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+            <div className="px-4 py-2.5 border-b border-slate-100 text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+              <FileText size={14} /> File start · click the {options.hasHeader ? 'header' : 'first data'} row{detectedBadge('skipRows')}
+            </div>
+            <div className="max-h-64 overflow-auto text-xs font-mono">
+              {preview.rawRows.slice(0, options.skipRows + 8).map((row, i) => (
+                <button
+                  key={i}
+                  onClick={() => update({ skipRows: i })}
+                  className={`w-full text-left px-4 py-1.5 border-b border-slate-50 whitespace-nowrap transition-colors ${
+                    i < options.skipRows ? 'text-slate-300 line-through' :
+                    i === options.skipRows ? 'bg-indigo-50 text-indigo-800 font-bold' : 'text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="text-slate-300 mr-3">{i + 1}</span>{row.join(' │ ')}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Parsed preview */}
+          <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+            <div className="px-4 py-2.5 border-b border-slate-100 text-xs font-bold text-slate-500 uppercase tracking-wider">
+              Preview · {preview.headers.length} columns
+            </div>
+            <div className="max-h-64 overflow-auto">
+              <table className="min-w-full text-xs">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr>
+                    {preview.headers.map(h => (
+                      <th key={h} className="px-3 py-2 text-left font-bold text-slate-600 whitespace-nowrap">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {preview.rows.map((row, i) => (
+                    <tr key={i}>
+                      {preview.headers.map(h => (
+                        <td key={h} className="px-3 py-1.5 text-slate-600 whitespace-nowrap">{String(row[h]).substring(0, 40)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onConfirm(options)}
+          disabled={!preview || preview.headers.length === 0}
+          className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-xl shadow-md shadow-indigo-200 transition-colors disabled:opacity-50"
+        >
+          Import file
+        </button>
+      </div>
+    </div>
+  );
+};
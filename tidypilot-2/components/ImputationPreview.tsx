@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { DataRow, ImputeStrategy } from '../types';
+import { IMPUTE_STRATEGIES, ImputeOperation, ImputationPreview as Preview, previewImputation } from '../services/imputation';
+
+interface ImputationPreviewProps {
+  rows: DataRow[]; // The data as the recipe leaves it, before this step
+  operation: ImputeOperation;
+  onSelectStrategy: (strategy: ImputeStrategy) => void;
+}
+
+const formatScalar = (value: number | undefined, scale: Preview['scale']) => {
+  if (value === undefined || !isFinite(value)) return '—';
+  if (scale === 'date') return new Date(value).toISOString().substring(0, 10);
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+// Spread of dates in days rather than milliseconds
+const formatSpread = (value: number | undefined, scale: Preview['scale']) =>
+  scale === 'date' && value !== undefined ? `${(value / 86400000).toLocaleString(undefined, { maximumFractionDigits: 1 })} days` : formatScalar(value, scale);
+
+export const ImputationPreview: React.FC<ImputationPreviewProps> = ({ rows, operation, onSelectStrategy }) => {
+  const { column, value, groupBy, sortBy, neighbors } = operation;
+
+  // Every strategy with the step's other settings, so they can be compared side by side; keyed
+  // on the settings because the draft operation is rebuilt on each render
+  const previews = useMemo(
+    () => IMPUTE_STRATEGIES.map(s => ({
+      ...s,
+      preview: s.strategy === 'constant' && !value ? null : previewImputation(rows, { ...operation, strategy: s.strategy })
+    })),
+    [rows, column, value, groupBy, sortBy, neighbors]
+  );
+
+  const current = previews.find(p => p.strategy === operation.strategy)?.preview;
+  const base = previews.find(p => p.preview)?.preview;
+  if (!base) return null;
+
+  const histogram = current?.range && current.before.histogram && current.after.histogram
+    ? current.before.histogram.map((before, i) => {
+        const [min, max] = current.range as [number, number];
+        return { label: formatScalar(min + ((max - min) * i) / current.before.histogram!.length, current.scale), before, after: current.after.histogram![i] };
+      })
+    : null;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-xs font-bold text-slate-500 uppercase tracking-wider">Distribution Preview</div>
+        <span className="text-xs text-slate-400">{base.before.count.toLocaleString()} filled · {(base.filled + base.remaining).toLocaleString()} empty in the first {rows.length.toLocaleString()} rows</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="px-2 py-1.5 text-left font-bold uppercase tracking-wider">Strategy</th>
+              <th className="px-2 py-1.5 text-right font-bold uppercase tracking-wider">Filled</th>
+              {base.scale === 'text' ? (
+                <th className="px-2 py-1.5 text-left font-bold uppercase tracking-wider">Most common after</th>
+              ) : (
+                <>
+                  <th className="px-2 py-1.5 text-right font-bold uppercase tracking-wider">Mean</th>
+                  <th className="px-2 py-1.5 text-right font-bold uppercase tracking-wider">Median</th>
+                  <th className="px-2 py-1.5 text-right font-bold uppercase tracking-wider">Std Dev</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            <tr className="text-slate-500">
+              <td className="px-2 py-1.5 italic">As is</td>
+              <td className="px-2 py-1.5 text-right">—</td>
+              {base.scale === 'text' ? (
+                <td className="px-2 py-1.5">{base.before.top?.map(t => `${t.value} (${t.count})`).join(', ')}</td>
+              ) : (
+                <>
+                  <td className="px-2 py-1.5 text-right">{formatScalar(base.before.mean, base.scale)}</td>
+                  <td className="px-2 py-1.5 text-right">{formatScalar(base.before.median, base.scale)}</td>
+                  <td className="px-2 py-1.5 text-right">{formatSpread(base.before.stdDev, base.scale)}</td>
+                </>
+              )}
+            </tr>
+            {previews.map(({ strategy, label, preview }) => (
+              <tr
+                key={strategy}
+                onClick={() => onSelectStrategy(strategy)}
+                className={`cursor-pointer transition-colors ${strategy === operation.strategy ? 'bg-indigo-50 text-indigo-900 font-semibold' : 'text-slate-700 hover:bg-slate-50'}`}
+              >
+                <td className="px-2 py-1.5">{label}</td>
+                <td className="px-2 py-1.5 text-right">{preview ? preview.filled.toLocaleString() : '—'}</td>
+                {base.scale === 'text' ? (
+                  <td className="px-2 py-1.5">{preview?.after.top?.map(t => `${t.value} (${t.count})`).join(', ') || '—'}</td>
+                ) : (
+                  <>
+                    <td className="px-2 py-1.5 text-right">{formatScalar(preview?.after.mean, base.scale)}</td>
+                    <td className="px-2 py-1.5 text-right">{formatScalar(preview?.after.median, base.scale)}</td>
+                    <td className="px-2 py-1.5 text-right">{formatSpread(preview?.after.stdDev, base.scale)}</td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {current && current.remaining > 0 && (
+        <p className="text-xs text-amber-700">{current.remaining.toLocaleString()} empty cells stay empty with this strategy.</p>
+      )}
+
+      {histogram && (
+        <div className="w-full h-32 min-w-0">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={histogram} margin={{ top: 0, right: 0, left: 0, bottom: 0 }}>
+              <XAxis dataKey="label" hide />
+              <Tooltip
+                cursor={{ fill: '#f1f5f9' }}
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: 12 }}
+              />
+              <Legend iconSize={8} wrapperStyle={{ fontSize: 11 }} />
+              <Bar dataKey="before" name="Before" fill="#cbd5e1" radius={[3, 3, 0, 0]} />
+              <Bar dataKey="after" name="After" fill="#6366f1" radius={[3, 3, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {histogram && current?.range && (
+        <div className="flex justify-between text-[10px] text-slate-400 font-medium">
+          <span>{formatScalar(current.range[0], current.scale)}</span>
+          <span>{formatScalar(current.range[1], current.scale)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import { Grid2x2X } from 'lucide-react';
+import { MissingnessReport } from '../types';
+import { describeCondition, describeRun } from '../services/missingnessAnalysis';
+
+interface MissingnessPanelProps {
+  missingness: MissingnessReport;
+  columnCount: number;
+}
+
+const truncate = (value: string, maxLength: number = 14) =>
+  value.length <= maxLength ? value : `${value.substring(0, maxLength)}...`;
+
+export const MissingnessPanel: React.FC<MissingnessPanelProps> = ({ missingness, columnCount }) => {
+  const { columns, coMissing, nullity, emptyCellsPerRow } = missingness;
+  const maxRows = Math.max(1, ...emptyCellsPerRow.map(b => b.rows));
+  const findings = [
+    ...missingness.conditions.map(c => ({ column: c.column, text: describeCondition(c) })),
+    ...missingness.runs.map(r => ({ column: r.column, text: describeRun(r) }))
+  ];
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Grid2x2X className="text-slate-400" size={18} />
+          <h3 className="font-bold text-slate-700">Missingness Patterns</h3>
+        </div>
+        {missingness.sampledRows && (
+          <span className="text-xs text-slate-400 font-medium">First {missingness.sampledRows.toLocaleString()} rows</span>
+        )}
+      </div>
+
+      {(findings.length > 0 || missingness.sparseRowCount > 0) && (
+        <div className="px-6 py-4 border-b border-slate-100 space-y-2">
+          {missingness.sparseRowCount > 0 && (
+            <div className="text-sm text-slate-700">
+              <span className="font-bold">{missingness.sparseRowCount.toLocaleString()}</span> rows have at least half of their {columnCount} cells empty
+            </div>
+          )}
+          {findings.map((f, i) => (
+            <div key={i} className="text-sm text-slate-700">
+              <span className="font-bold">{f.column}</span>: {f.text}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-6 grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="overflow-x-auto">
+          <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Empty Together</div>
+          <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+            <thead>
+              <tr>
+                <th />
+                {columns.map(name => (
+                  <th key={name} className="h-24 align-bottom font-medium text-slate-500">
+                    <div className="w-6 mx-auto truncate" style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)' }} title={name}>{name}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {columns.map((row, i) => (
+                <tr key={row}>
+                  <th className="pr-3 text-right font-medium text-slate-500" title={row}>{truncate(row)}</th>
+                  {columns.map((col, j) => {
+                    const both = coMissing[i][j];
+                    // Jaccard overlap of the two columns' empty rows
+                    const overlap = both / (coMissing[i][i] + coMissing[j][j] - both);
+                    return (
+                      <td
+                        key={col}
+                        className="w-6 h-6 rounded"
+                        style={{ backgroundColor: i === j ? '#e2e8f0' : `rgba(244, 63, 94, ${overlap})` }}
+                        title={i === j ? `${row}: ${both} empty` : `${row} & ${col}: both empty in ${both} rows`}
+                      />
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Row Nullity</div>
+          <div className="flex gap-px">
+            {columns.map((name, c) => (
+              <div key={name} className="flex-1 min-w-[6px] flex flex-col" title={name}>
+                {nullity.map(r => (
+                  <div key={r.row} className={`h-[3px] ${r.empty.includes(c) ? 'bg-slate-700' : 'bg-slate-100'}`} />
+                ))}
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-slate-400">
+            {nullity.length} evenly spaced rows top to bottom; dark cells are empty. Columns as in the matrix.
+          </p>
+
+          <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mt-6 mb-3">Empty Cells per Row</div>
+          <div className="space-y-1">
+            {emptyCellsPerRow.map(b => (
+              <div key={b.emptyCells} className="flex items-center gap-3 text-xs">
+                <span className="w-8 text-right font-medium text-slate-500">{b.emptyCells}</span>
+                <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-rose-400 rounded-full" style={{ width: `${Math.max(1, (b.rows / maxRows) * 100)}%` }} />
+                </div>
+                <span className="w-16 text-right text-slate-400">{b.rows.toLocaleString()} rows</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { DataRow, OutlierTreatment } from '../types';
+import { OUTLIER_TREATMENTS, OutlierOperation, previewOutlierTreatment } from '../services/outlierTreatment';
+
+interface OutlierPreviewProps {
+  rows: DataRow[]; // The data as the recipe leaves it, before this step
+  operation: OutlierOperation;
+  onSelectTreatment: (treatment: OutlierTreatment) => void;
+}
+
+const formatNumber = (value: number | undefined) =>
+  value === undefined || !isFinite(value) ? '—' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatCell = (value: any) => (value === null || value === undefined ? 'empty' : typeof value === 'number' ? formatNumber(value) : String(value));
+
+export const OutlierPreview: React.FC<OutlierPreviewProps> = ({ rows, operation, onSelectTreatment }) => {
+  const { column, treatment, bounds, k, lowerPercentile, upperPercentile } = operation;
+
+  // Keyed on the settings because the draft operation is rebuilt on each render
+  const preview = useMemo(
+    () => previewOutlierTreatment(rows, operation),
+    [rows, column, treatment, bounds, k, lowerPercentile, upperPercentile]
+  );
+
+  if (!preview) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200 p-4 text-xs text-slate-400">
+        Not enough numbers in {column} to fit these bounds.
+      </div>
+    );
+  }
+
+  const { range } = preview;
+  const after = preview.after[treatment];
+  const histogram = preview.before.histogram?.map((before, i) => ({
+    label: formatNumber(range[0] + ((range[1] - range[0]) * i) / preview.before.histogram!.length),
+    before,
+    after: after.histogram?.[i] ?? 0
+  }));
+  const treated = preview.below + preview.above;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-xs font-bold text-slate-500 uppercase tracking-wider">Distribution Preview</div>
+        <span className="text-xs text-slate-400">
+          Bounds {formatNumber(preview.bounds.lower)} to {formatNumber(preview.bounds.upper)} · {preview.below.toLocaleString()} below, {preview.above.toLocaleString()} above in the first {rows.length.toLocaleString()} rows
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="px-2 py-1.5 text-left font-bold uppercase tracking-wider">Treatment</th>
+              <th className="px-2 py-1.5 text-right font-bold uppercase tracking-wider">Values</th>
+              <th className="px-2 py-1.5 text-right font-bold uppercase tracking-wider">Mean</th>
+              <th className="px-2 py-1.5 text-right font-bold uppercase tracking-wider">Median</th>
+              <th className="px-2 py-1.5 text-right font-bold uppercase tracking-wider">Std Dev</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            <tr className="text-slate-500">
+              <td className="px-2 py-1.5 italic">As is</td>
+              <td className="px-2 py-1.5 text-right">{preview.before.count.toLocaleString()}</td>
+              <td className="px-2 py-1.5 text-right">{formatNumber(preview.before.mean)}</td>
+              <td className="px-2 py-1.5 text-right">{formatNumber(preview.before.median)}</td>
+              <td className="px-2 py-1.5 text-right">{formatNumber(preview.before.stdDev)}</td>
+            </tr>
+            {OUTLIER_TREATMENTS.map(t => {
+              const summary = preview.after[t.treatment];
+              return (
+                <tr
+                  key={t.treatment}
+                  onClick={() => onSelectTreatment(t.treatment)}
+                  className={`cursor-pointer transition-colors ${t.treatment === treatment ? 'bg-indigo-50 text-indigo-900 font-semibold' : 'text-slate-700 hover:bg-slate-50'}`}
+                >
+                  <td className="px-2 py-1.5">{t.label}</td>
+                  <td className="px-2 py-1.5 text-right">{summary.count.toLocaleString()}</td>
+                  <td className="px-2 py-1.5 text-right">{formatNumber(summary.mean)}</td>
+                  <td className="px-2 py-1.5 text-right">{formatNumber(summary.median)}</td>
+                  <td className="px-2 py-1.5 text-right">{formatNumber(summary.stdDev)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {histogram && (
+        <div className="w-full h-32 min-w-0">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={histogram} margin={{ top: 0, right: 0, left: 0, bottom: 0 }}>
+              <XAxis dataKey="label" hide />
+              <Tooltip
+                cursor={{ fill: '#f1f5f9' }}
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: 12 }}
+              />
+              <Legend iconSize={8} wrapperStyle={{ fontSize: 11 }} />
+              <Bar dataKey="before" name="Before" fill="#cbd5e1" radius={[3, 3, 0, 0]} />
+              <Bar dataKey="after" name="After" fill="#6366f1" radius={[3, 3, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {histogram && (
+        <div className="flex justify-between text-[10px] text-slate-400 font-medium">
+          <span>≤ {formatNumber(range[0])}</span>
+          <span>≥ {formatNumber(range[1])}</span>
+        </div>
+      )}
+
+      {treated > 0 ? (
+        <div className="space-y-1.5">
+          <div className="text-xs font-bold text-slate-500 uppercase tracking-wider">Most extreme of {treated.toLocaleString()} treated</div>
+          <div className="flex flex-wrap gap-1.5">
+            {preview.examples.map((e, i) => (
+              <span key={i} className="px-2 py-1 rounded-lg border border-slate-200 text-xs font-mono">
+                {treatment === 'flag' ? (
+                  <span className="text-amber-700">{formatCell(e.before)}</span>
+                ) : (
+                  <>
+                    <span className="text-rose-600 line-through">{formatCell(e.before)}</span>
+                    <span className="text-slate-400"> → </span>
+                    <span className="text-emerald-700">{formatCell(e.after)}</span>
+                  </>
+                )}
+              </span>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400">No values fall outside these bounds.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,531 @@
+import React, { useMemo, useState } from 'react';
+import { ListChecks, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw, Play, Lightbulb, AlertTriangle } from 'lucide-react';
+import { AppSettings, CastTarget, CleaningOperation, DataRow, DatasetStats, ImputeStrategy, OutlierTreatment, RuleCondition, SemanticType } from '../types';
+import {
+  describeOperation, operationProblem, createOperationId, recipeColumns, defaultRecipe, suggestOperations, runRecipe
+} from '../services/cleaningRecipes';
+import { IMPUTE_STRATEGIES, GROUPED_STRATEGIES, ORDERED_STRATEGIES, DEFAULT_NEIGHBORS, imputeFlagColumn } from '../services/imputation';
+import { OUTLIER_TREATMENTS, DEFAULT_IQR_K, DEFAULT_PERCENTILES, outlierFlagColumn } from '../services/outlierTreatment';
+import { ImputationPreview } from './ImputationPreview';
+import { OutlierPreview } from './OutlierPreview';
+import { SEMANTIC_DETECTORS, semanticLabel } from '../services/semanticTypes';
+
+interface RecipeEditorProps {
+  stats: DatasetStats;
+  settings: AppSettings;
+  rows: DataRow[]; // Raw rows, for previews
+  recipe: CleaningOperation[];
+  isApplied: boolean; // The cleaned output was built with exactly this recipe
+  onChange: (recipe: CleaningOperation[]) => void;
+  onApply: () => void;
+}
+
+type OperationKind = CleaningOperation['kind'];
+
+const KIND_OPTIONS: { value: OperationKind; label: string }[] = [
+  { value: 'normalize_missing', label: 'Normalize blanks' },
+  { value: 'dedupe_rows', label: 'Remove duplicate rows' },
+  { value: 'trim', label: 'Trim whitespace' },
+  { value: 'change_case', label: 'Change case' },
+  { value: 'replace', label: 'Find and replace' },
+  { value: 'map_values', label: 'Map values' },
+  { value: 'fill_missing', label: 'Fill blanks' },
+  { value: 'impute', label: 'Impute missing values' },
+  { value: 'treat_outliers', label: 'Treat outliers' },
+  { value: 'cast', label: 'Convert type' },
+  { value: 'standardize_format', label: 'Standardize format' },
+  { value: 'rename_column', label: 'Rename column' },
+  { value: 'split_column', label: 'Split column' },
+  { value: 'drop_column', label: 'Drop column' },
+  { value: 'filter_rows', label: 'Filter rows' }
+];
+
+const CAST_OPTIONS: { value: CastTarget; label: string }[] = [
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date (ISO)' },
+  { value: 'boolean', label: 'True/false' },
+  { value: 'text', label: 'Text' }
+];
+
+const CONDITION_OPTIONS: { value: RuleCondition['operator']; label: string }[] = [
+  { value: 'equals', label: '=' },
+  { value: 'not_equals', label: '≠' },
+  { value: 'in', label: 'is one of' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' }
+];
+
+const TABLE_KINDS: OperationKind[] = ['normalize_missing', 'dedupe_rows', 'filter_rows'];
+
+// Imputation and outlier previews run the recipe over the first rows only
+const PREVIEW_ROWS = 5000;
+
+interface OperationDraft {
+  kind: OperationKind;
+  column: string;
+  newName: string;
+  castTo: CastTarget;
+  keepInvalid: boolean;
+  format: SemanticType;
+  letterCase: 'lower' | 'upper' | 'title';
+  find: string;
+  replaceWith: string;
+  regex: boolean;
+  mapping: string; // One "from => to" per line
+  fillValue: string;
+  strategy: ImputeStrategy;
+  groupBy: string;
+  sortBy: string;
+  neighbors: number;
+  indicator: boolean;
+  treatment: OutlierTreatment;
+  bounds: 'iqr' | 'percentile';
+  k: number;
+  lowerPercentile: number;
+  upperPercentile: number;
+  condition: RuleCondition;
+  keep: boolean;
+  separator: string;
+  into: string; // Comma-separated new column names
+}
+
+const emptyDraft = (column: string): OperationDraft => ({
+  kind: 'trim',
+  column,
+  newName: '',
+  castTo: 'number',
+  keepInvalid: false,
+  format: 'email',
+  letterCase: 'title',
+  find: '',
+  replaceWith: '',
+  regex: false,
+  mapping: '',
+  fillValue: '',
+  strategy: 'median',
+  groupBy: '',
+  sortBy: '',
+  neighbors: DEFAULT_NEIGHBORS,
+  indicator: true,
+  treatment: 'cap',
+  bounds: 'iqr',
+  k: DEFAULT_IQR_K,
+  lowerPercentile: DEFAULT_PERCENTILES[0],
+  upperPercentile: DEFAULT_PERCENTILES[1],
+  condition: { column: '', operator: 'equals', value: '' },
+  keep: true,
+  separator: ',',
+  into: ''
+});
+
+const parseMapping = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text.split('\n')
+      .map(line => line.split(/=>|→/))
+      .filter(parts => parts.length === 2 && parts[0].trim())
+      .map(([from, to]) => [from.trim(), to.trim()])
+  );
+
+const buildOperation = (draft: OperationDraft, stats: DatasetStats): CleaningOperation => {
+  const base = { id: createOperationId(), enabled: true };
+  const profile = stats.columns.find(c => c.name === draft.column);
+  switch (draft.kind) {
+    case 'normalize_missing': return { ...base, kind: 'normalize_missing' };
+    case 'dedupe_rows': return { ...base, kind: 'dedupe_rows' };
+    case 'rename_column': return { ...base, kind: 'rename_column', column: draft.column, newName: draft.newName.trim() };
+    case 'drop_column': return { ...base, kind: 'drop_column', column: draft.column };
+    case 'cast':
+      return {
+        ...base, kind: 'cast', column: draft.column, to: draft.castTo, keepInvalid: draft.keepInvalid,
+        decimalSeparator: profile?.numberFormat?.decimalSeparator,
+        dateFormat: profile?.dateFormat || { kind: 'text', order: 'mdy', ambiguous: true, hasTime: false, formats: [] }
+      };
+    case 'standardize_format': return { ...base, kind: 'standardize_format', column: draft.column, format: draft.format };
+    case 'trim': return { ...base, kind: 'trim', column: draft.column };
+    case 'change_case': return { ...base, kind: 'change_case', column: draft.column, letterCase: draft.letterCase };
+    case 'replace': return { ...base, kind: 'replace', column: draft.column, find: draft.find, replaceWith: draft.replaceWith, regex: draft.regex };
+    case 'map_values': return { ...base, kind: 'map_values', column: draft.column, mapping: parseMapping(draft.mapping) };
+    case 'fill_missing': return { ...base, kind: 'fill_missing', column: draft.column, value: draft.fillValue };
+    case 'impute':
+      return {
+        ...base, kind: 'impute', column: draft.column, strategy: draft.strategy, indicator: draft.indicator,
+        value: draft.strategy === 'constant' ? draft.fillValue : undefined,
+        groupBy: GROUPED_STRATEGIES.includes(draft.strategy) && draft.groupBy ? draft.groupBy : undefined,
+        sortBy: ORDERED_STRATEGIES.includes(draft.strategy) && draft.sortBy ? draft.sortBy : undefined,
+        neighbors: draft.strategy === 'nearest_neighbor' ? draft.neighbors : undefined,
+        decimalSeparator: profile?.numberFormat?.decimalSeparator
+      };
+    case 'treat_outliers':
+      return {
+        ...base, kind: 'treat_outliers', column: draft.column, treatment: draft.treatment, bounds: draft.bounds,
+        ...(draft.bounds === 'iqr' ? { k: draft.k } : { lowerPercentile: draft.lowerPercentile, upperPercentile: draft.upperPercentile }),
+        decimalSeparator: profile?.numberFormat?.decimalSeparator
+      };
+    case 'filter_rows': return { ...base, kind: 'filter_rows', condition: draft.condition, keep: draft.keep };
+    case 'split_column':
+      return { ...base, kind: 'split_column', column: draft.column, separator: draft.separator, into: draft.into.split(',').map(n => n.trim()).filter(Boolean) };
+  }
+};
+
+const inputClass = "w-full text-sm text-slate-700 bg-white border border-slate-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "text-xs font-bold text-slate-500 uppercase tracking-wider";
+
+export const RecipeEditor: React.FC<RecipeEditorProps> = ({ stats, settings, rows, recipe, isApplied, onChange, onApply }) => {
+  const originalColumns = useMemo(() => stats.columns.map(c => c.name), [stats]);
+  const [draft, setDraft] = useState<OperationDraft>(() => emptyDraft(originalColumns[0] || ''));
+
+  const columns = recipeColumns(originalColumns, recipe);
+  const candidate = buildOperation(draft, stats);
+  const problem = operationProblem(candidate);
+  const suggestions = useMemo(() => suggestOperations(stats, recipe), [stats, recipe]);
+  const previewing = draft.kind === 'impute' || draft.kind === 'treat_outliers';
+  const previewRows = useMemo(() => (previewing ? runRecipe(rows.slice(0, PREVIEW_ROWS), recipe) : []), [previewing, rows, recipe]);
+
+  // Columns each step can see: the file's columns after the steps before it
+  const columnsBefore = recipe.map((_, i) => new Set(recipeColumns(originalColumns, recipe.slice(0, i))));
+
+  const addStep = () => {
+    if (problem) return;
+    onChange([...recipe, candidate]);
+    setDraft({ ...emptyDraft(draft.column), kind: draft.kind });
+  };
+
+  const updateStep = (id: string, changes: Partial<CleaningOperation>) =>
+    onChange(recipe.map(op => (op.id === id ? ({ ...op, ...changes } as CleaningOperation) : op)));
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= recipe.length) return;
+    const next = [...recipe];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const isTableStep = TABLE_KINDS.includes(draft.kind);
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <ListChecks className="text-slate-400" size={18} />
+          <h3 className="font-bold text-slate-700">Cleaning Recipe</h3>
+          <span className="text-xs font-semibold text-slate-500">
+            {recipe.filter(op => op.enabled).length} of {recipe.length} steps on · {isApplied ? 'applied' : 'not applied'}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onChange(defaultRecipe(stats, settings))}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-indigo-200 transition-colors"
+          >
+            <RotateCcw size={14} /> Default recipe
+          </button>
+          <button
+            onClick={onApply}
+            disabled={isApplied}
+            className="flex items-center gap-1.5 px-4 py-1.5 text-xs font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            <Play size={14} /> Apply recipe
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {recipe.length > 0 ? (
+          <ol className="divide-y divide-slate-100 border border-slate-100 rounded-xl">
+            {recipe.map((op, index) => {
+              const stepProblem = operationProblem(op);
+              const missingColumn = 'column' in op && op.column && !columnsBefore[index].has(op.column);
+              return (
+                <li key={op.id} className={`flex items-center justify-between gap-4 px-4 py-2.5 ${op.enabled ? '' : 'opacity-50'}`}>
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="shrink-0 w-6 text-xs font-bold text-slate-400 text-right">{index + 1}</span>
+                    <input
+                      type="checkbox"
+                      checked={op.enabled}
+                      onChange={e => updateStep(op.id, { enabled: e.target.checked })}
+                      className="accent-indigo-600"
+                    />
+                    <span className="text-sm text-slate-700 font-medium truncate" title={describeOperation(op)}>{describeOperation(op)}</span>
+                    {(stepProblem || missingColumn) && (
+                      <span className="shrink-0 flex items-center gap-1 text-xs text-amber-600 font-semibold">
+                        <AlertTriangle size={12} /> {stepProblem || 'column not present at this step'}
+                      </span>
+                    )}
+                  </div>
+                  <div className="shrink-0 flex items-center gap-1">
+                    <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="p-1 text-slate-300 hover:text-indigo-600 transition-colors disabled:opacity-30">
+                      <ArrowUp size={16} />
+                    </button>
+                    <button onClick={() => moveStep(index, 1)} disabled={index === recipe.length - 1} className="p-1 text-slate-300 hover:text-indigo-600 transition-colors disabled:opacity-30">
+                      <ArrowDown size={16} />
+                    </button>
+                    <button onClick={() => onChange(recipe.filter(o => o.id !== op.id))} className="p-1 text-slate-300 hover:text-red-500 transition-colors">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <p className="text-sm text-slate-400">No steps. Add steps below or start from the default recipe.</p>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="bg-amber-50/60 rounded-xl border border-amber-100 p-4 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <span className="flex items-center gap-2 text-sm font-bold text-amber-800">
+                <Lightbulb size={16} /> Suggested from detected issues
+              </span>
+              <button onClick={() => onChange([...recipe, ...suggestions.map(s => s.operation)])} className="text-xs font-bold text-amber-800 hover:text-amber-900 transition-colors">
+                Add all
+              </button>
+            </div>
+            <ul className="space-y-1.5">
+              {suggestions.map(s => (
+                <li key={s.operation.id} className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <span className="block text-sm text-slate-700 font-medium truncate">{describeOperation(s.operation)}</span>
+                    <span className="block text-xs text-slate-500">{s.reason}</span>
+                  </div>
+                  <button onClick={() => onChange([...recipe, s.operation])} className="shrink-0 flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-800 transition-colors">
+                    <Plus size={14} /> Add
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* New step */}
+        <div className="bg-slate-50 rounded-xl border border-slate-100 p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <label className="space-y-1">
+              <span className={labelClass}>Step</span>
+              <select value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as OperationKind })} className={inputClass}>
+                {KIND_OPTIONS.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+              </select>
+            </label>
+            {!isTableStep && (
+              <label className="space-y-1">
+                <span className={labelClass}>Column</span>
+                <select value={draft.column} onChange={e => setDraft({ ...draft, column: e.target.value })} className={inputClass}>
+                  <option value="">Column…</option>
+                  {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </label>
+            )}
+
+            {draft.kind === 'rename_column' && (
+              <label className="space-y-1">
+                <span className={labelClass}>New name</span>
+                <input value={draft.newName} onChange={e => setDraft({ ...draft, newName: e.target.value })} className={inputClass} />
+              </label>
+            )}
+            {draft.kind === 'cast' && (
+              <>
+                <label className="space-y-1">
+                  <span className={labelClass}>To</span>
+                  <select value={draft.castTo} onChange={e => setDraft({ ...draft, castTo: e.target.value as CastTarget })} className={inputClass}>
+                    {CAST_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm font-semibold text-slate-600 pt-6">
+                  <input type="checkbox" checked={draft.keepInvalid} onChange={e => setDraft({ ...draft, keepInvalid: e.target.checked })} className="accent-indigo-600" />
+                  Keep unreadable values
+                </label>
+              </>
+            )}
+            {draft.kind === 'standardize_format' && (
+              <label className="space-y-1">
+                <span className={labelClass}>Format</span>
+                <select value={draft.format} onChange={e => setDraft({ ...draft, format: e.target.value as SemanticType })} className={inputClass}>
+                  {SEMANTIC_DETECTORS.map(d => <option key={d.type} value={d.type}>{semanticLabel(d.type)}</option>)}
+                </select>
+              </label>
+            )}
+            {draft.kind === 'change_case' && (
+              <label className="space-y-1">
+                <span className={labelClass}>Case</span>
+                <select value={draft.letterCase} onChange={e => setDraft({ ...draft, letterCase: e.target.value as OperationDraft['letterCase'] })} className={inputClass}>
+                  <option value="title">Title Case</option>
+                  <option value="lower">lowercase</option>
+                  <option value="upper">UPPERCASE</option>
+                </select>
+              </label>
+            )}
+            {draft.kind === 'replace' && (
+              <div className="grid grid-cols-2 gap-2 md:col-span-2">
+                <label className="space-y-1">
+                  <span className={labelClass}>Find</span>
+                  <input value={draft.find} onChange={e => setDraft({ ...draft, find: e.target.value })} className={`${inputClass} ${draft.regex ? 'font-mono' : ''}`} />
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>Replace with</span>
+                  <input value={draft.replaceWith} onChange={e => setDraft({ ...draft, replaceWith: e.target.value })} className={inputClass} />
+                </label>
+                <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+                  <input type="checkbox" checked={draft.regex} onChange={e => setDraft({ ...draft, regex: e.target.checked })} className="accent-indigo-600" />
+                  Regular expression
+                </label>
+              </div>
+            )}
+            {draft.kind === 'map_values' && (
+              <label className="space-y-1 md:col-span-2">
+                <span className={labelClass}>Mapping (one "from =&gt; to" per line)</span>
+                <textarea rows={3} value={draft.mapping} placeholder={'Calif. => California\nCA => California'} onChange={e => setDraft({ ...draft, mapping: e.target.value })} className={`${inputClass} font-mono`} />
+              </label>
+            )}
+            {draft.kind === 'fill_missing' && (
+              <label className="space-y-1">
+                <span className={labelClass}>Value</span>
+                <input value={draft.fillValue} placeholder="Unknown" onChange={e => setDraft({ ...draft, fillValue: e.target.value })} className={inputClass} />
+              </label>
+            )}
+            {draft.kind === 'impute' && (
+              <>
+                <label className="space-y-1">
+                  <span className={labelClass}>Strategy</span>
+                  <select value={draft.strategy} onChange={e => setDraft({ ...draft, strategy: e.target.value as ImputeStrategy })} className={inputClass}>
+                    {IMPUTE_STRATEGIES.map(s => <option key={s.strategy} value={s.strategy}>{s.label}</option>)}
+                  </select>
+                </label>
+                {draft.strategy === 'constant' && (
+                  <label className="space-y-1">
+                    <span className={labelClass}>Value</span>
+                    <input value={draft.fillValue} onChange={e => setDraft({ ...draft, fillValue: e.target.value })} className={inputClass} />
+                  </label>
+                )}
+                {GROUPED_STRATEGIES.includes(draft.strategy) && (
+                  <label className="space-y-1">
+                    <span className={labelClass}>Per group of</span>
+                    <select value={draft.groupBy} onChange={e => setDraft({ ...draft, groupBy: e.target.value })} className={inputClass}>
+                      <option value="">Whole column</option>
+                      {columns.filter(c => c !== draft.column).map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </label>
+                )}
+                {ORDERED_STRATEGIES.includes(draft.strategy) && (
+                  <label className="space-y-1">
+                    <span className={labelClass}>Ordered by</span>
+                    <select value={draft.sortBy} onChange={e => setDraft({ ...draft, sortBy: e.target.value })} className={inputClass}>
+                      <option value="">File order</option>
+                      {columns.filter(c => c !== draft.column).map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </label>
+                )}
+                {draft.strategy === 'nearest_neighbor' && (
+                  <label className="space-y-1">
+                    <span className={labelClass}>Neighbours</span>
+                    <input type="number" min={1} max={50} value={draft.neighbors} onChange={e => setDraft({ ...draft, neighbors: Math.max(1, Number(e.target.value) || 1) })} className={inputClass} />
+                  </label>
+                )}
+                <label className="flex items-center gap-2 text-sm font-semibold text-slate-600 md:col-span-4">
+                  <input type="checkbox" checked={draft.indicator} onChange={e => setDraft({ ...draft, indicator: e.target.checked })} className="accent-indigo-600" />
+                  Flag imputed cells in a {draft.column ? imputeFlagColumn(draft.column) : 'new'} column
+                </label>
+              </>
+            )}
+            {draft.kind === 'treat_outliers' && (
+              <>
+                <label className="space-y-1">
+                  <span className={labelClass}>Treatment</span>
+                  <select value={draft.treatment} onChange={e => setDraft({ ...draft, treatment: e.target.value as OutlierTreatment })} className={inputClass}>
+                    {OUTLIER_TREATMENTS.map(t => <option key={t.treatment} value={t.treatment}>{t.label}</option>)}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>Bounds</span>
+                  <select value={draft.bounds} onChange={e => setDraft({ ...draft, bounds: e.target.value as OperationDraft['bounds'] })} className={inputClass}>
+                    <option value="iqr">IQR fences</option>
+                    <option value="percentile">Percentiles</option>
+                  </select>
+                </label>
+                {draft.bounds === 'iqr' ? (
+                  <label className="space-y-1">
+                    <span className={labelClass}>IQR multiplier</span>
+                    <input type="number" min={0} step={0.5} value={draft.k} onChange={e => setDraft({ ...draft, k: Number(e.target.value) })} className={inputClass} />
+                  </label>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="space-y-1">
+                      <span className={labelClass}>Lower %</span>
+                      <input type="number" min={0} max={100} value={draft.lowerPercentile} onChange={e => setDraft({ ...draft, lowerPercentile: Number(e.target.value) })} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                      <span className={labelClass}>Upper %</span>
+                      <input type="number" min={0} max={100} value={draft.upperPercentile} onChange={e => setDraft({ ...draft, upperPercentile: Number(e.target.value) })} className={inputClass} />
+                    </label>
+                  </div>
+                )}
+                {draft.treatment === 'flag' && (
+                  <p className="text-xs text-slate-500 md:col-span-4">
+                    Values stay as they are; {draft.column ? outlierFlagColumn(draft.column) : 'a new column'} is true on rows outside the bounds.
+                  </p>
+                )}
+              </>
+            )}
+            {draft.kind === 'split_column' && (
+              <div className="grid grid-cols-[auto_1fr] gap-2 md:col-span-2">
+                <label className="space-y-1">
+                  <span className={labelClass}>On</span>
+                  <input value={draft.separator} onChange={e => setDraft({ ...draft, separator: e.target.value })} className={`${inputClass} w-16 font-mono`} />
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>Into columns (comma-separated)</span>
+                  <input value={draft.into} placeholder="first_name, last_name" onChange={e => setDraft({ ...draft, into: e.target.value })} className={inputClass} />
+                </label>
+              </div>
+            )}
+            {draft.kind === 'filter_rows' && (
+              <div className="grid grid-cols-[auto_1fr_auto_1fr] gap-2 md:col-span-3">
+                <label className="space-y-1">
+                  <span className={labelClass}>Rows</span>
+                  <select value={draft.keep ? 'keep' : 'remove'} onChange={e => setDraft({ ...draft, keep: e.target.value === 'keep' })} className={inputClass}>
+                    <option value="keep">Keep only</option>
+                    <option value="remove">Remove</option>
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>Where</span>
+                  <select value={draft.condition.column} onChange={e => setDraft({ ...draft, condition: { ...draft.condition, column: e.target.value } })} className={inputClass}>
+                    <option value="">Column…</option>
+                    {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>&nbsp;</span>
+                  <select value={draft.condition.operator} onChange={e => setDraft({ ...draft, condition: { ...draft.condition, operator: e.target.value as RuleCondition['operator'] } })} className={inputClass}>
+                    {CONDITION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                </label>
+                {draft.condition.operator !== 'is_empty' && draft.condition.operator !== 'is_not_empty' && (
+                  <label className="space-y-1">
+                    <span className={labelClass}>&nbsp;</span>
+                    <input value={draft.condition.value || ''} placeholder="value" onChange={e => setDraft({ ...draft, condition: { ...draft.condition, value: e.target.value } })} className={inputClass} />
+                  </label>
+                )}
+              </div>
+            )}
+          </div>
+
+          {candidate.kind === 'impute' && candidate.column && (
+            <ImputationPreview rows={previewRows} operation={candidate} onSelectStrategy={strategy => setDraft({ ...draft, strategy })} />
+          )}
+
+          {candidate.kind === 'treat_outliers' && candidate.column && (
+            <OutlierPreview rows={previewRows} operation={candidate} onSelectTreatment={treatment => setDraft({ ...draft, treatment })} />
+          )}
+
+          <div className="flex flex-wrap items-center justify-end gap-3">
+            {problem && <span className="text-xs text-slate-400">{problem}</span>}
+            <button onClick={addStep} disabled={!!problem} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-40">
+              <Plus size={16} /> Add step
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React from 'react';
+import { Network, Key, Link2 } from 'lucide-react';
+import { WorkspaceModel } from '../types';
+
+interface RelationshipDiagramProps {
+  model: WorkspaceModel;
+  activeTable: string;
+  onSelectTable: (name: string) => void;
+}
+
+const BOX_WIDTH = 210;
+const HEADER_HEIGHT = 36;
+const ROW_HEIGHT = 22;
+const COLUMN_GAP = 110;
+const BOX_GAP = 28;
+const MAX_ROWS = 8;
+
+interface BoxLayout {
+  name: string;
+  role: WorkspaceModel['tables'][number]['role'];
+  x: number;
+  y: number;
+  rows: { column: string; isKey: boolean; isForeign: boolean }[];
+  hidden: number;
+}
+
+const layoutBoxes = (model: WorkspaceModel): BoxLayout[] => {
+  const foreign = new Set(model.relationships.map(r => `${r.fromTable}\u0000${r.fromColumn}`));
+  const referenced = new Set(model.relationships.map(r => `${r.toTable}\u0000${r.toColumn}`));
+
+  // Facts in the middle lane, everything else alternates left/right around them
+  const lanes: WorkspaceModel['tables'][] = [[], [], []];
+  let side = 0;
+  model.tables.forEach(t => {
+    if (t.role === 'fact') lanes[1].push(t);
+    else {
+      lanes[side === 0 ? 0 : 2].push(t);
+      side = 1 - side;
+    }
+  });
+  if (lanes[1].length === 0 && lanes[0].length > 0) lanes[1].push(lanes[0].shift()!);
+
+  const boxes: BoxLayout[] = [];
+  lanes.forEach((lane, laneIndex) => {
+    let y = 10;
+    lane.forEach(table => {
+      const keyColumns = new Set(table.keys.map(k => k.column));
+      const relevant = table.columns.filter(c =>
+        keyColumns.has(c) || foreign.has(`${table.name}\u0000${c}`) || referenced.has(`${table.name}\u0000${c}`)
+      );
+      const shown = relevant.slice(0, MAX_ROWS);
+      boxes.push({
+        name: table.name,
+        role: table.role,
+        x: 10 + laneIndex * (BOX_WIDTH + COLUMN_GAP),
+        y,
+        rows: shown.map(column => ({
+          column,
+          isKey: keyColumns.has(column),
+          isForeign: foreign.has(`${table.name}\u0000${column}`)
+        })),
+        hidden: table.columns.length - shown.length
+      });
+      y += HEADER_HEIGHT + Math.max(1, shown.length) * ROW_HEIGHT + (table.columns.length > shown.length ? ROW_HEIGHT : 0) + BOX_GAP;
+    });
+  });
+  return boxes;
+};
+
+const boxHeight = (box: BoxLayout) => HEADER_HEIGHT + Math.max(1, box.rows.length) * ROW_HEIGHT + (box.hidden > 0 ? ROW_HEIGHT : 0);
+
+const ROLE_STYLE: Record<BoxLayout['role'], { fill: string; text: string }> = {
+  fact: { fill: '#4f46e5', text: '#ffffff' },
+  dimension: { fill: '#9333ea', text: '#ffffff' },
+  standalone: { fill: '#e2e8f0', text: '#334155' }
+};
+
+export const RelationshipDiagram: React.FC<RelationshipDiagramProps> = ({ model, activeTable, onSelectTable }) => {
+  const boxes = layoutBoxes(model);
+  const byName = new Map(boxes.map(b => [b.name, b]));
+  const width = 10 + 3 * BOX_WIDTH + 2 * COLUMN_GAP + 10;
+  const height = Math.max(120, ...boxes.map(b => b.y + boxHeight(b) + 10));
+
+  const anchor = (box: BoxLayout, column: string, towards: BoxLayout) => {
+    const index = Math.max(0, box.rows.findIndex(r => r.column === column));
+    const y = box.y + HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const x = towards.x > box.x ? box.x + BOX_WIDTH : towards.x < box.x ? box.x : box.x + BOX_WIDTH;
+    return { x, y };
+  };
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Network className="text-slate-400" size={18} />
+          <h3 className="font-bold text-slate-700">Table Relationships</h3>
+        </div>
+        <span className="text-xs font-semibold text-slate-500">
+          {model.tables.length} tables · {model.relationships.length} relationship{model.relationships.length === 1 ? '' : 's'} detected
+        </span>
+      </div>
+
+      <div className="p-6 overflow-x-auto">
+        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="mx-auto">
+          {model.relationships.map((r, i) => {
+            const from = byName.get(r.fromTable);
+            const to = byName.get(r.toTable);
+            if (!from || !to) return null;
+            const a = anchor(from, r.fromColumn, to);
+            const b = anchor(to, r.toColumn, from);
+            const bend = a.x === b.x ? 60 : (b.x - a.x) / 2;
+            const path = `M ${a.x} ${a.y} C ${a.x + bend} ${a.y}, ${b.x - (a.x === b.x ? -60 : bend)} ${b.y}, ${b.x} ${b.y}`;
+            return (
+              <g key={i}>
+                <path d={path} fill="none" stroke={r.coverage < 1 ? '#f59e0b' : '#94a3b8'} strokeWidth={1.5} strokeDasharray={r.confidence < 0.8 ? '4 3' : undefined} />
+                <text x={(a.x + b.x) / 2} y={(a.y + b.y) / 2 - 6} textAnchor="middle" fontSize={10} fontWeight={600} fill="#64748b">
+                  {r.cardinality === 'many-to-one' ? 'N:1' : '1:1'} · {Math.round(r.coverage * 100)}%
+                </text>
+              </g>
+            );
+          })}
+
+          {boxes.map(box => {
+            const style = ROLE_STYLE[box.role];
+            const isActive = box.name === activeTable;
+            return (
+              <g key={box.name} onClick={() => onSelectTable(box.name)} style={{ cursor: 'pointer' }}>
+                <rect x={box.x} y={box.y} width={BOX_WIDTH} height={boxHeight(box)} rx={10} fill="#ffffff"
+                  stroke={isActive ? '#4f46e5' : '#e2e8f0'} strokeWidth={isActive ? 2.5 : 1} />
+                <path d={`M ${box.x} ${box.y + HEADER_HEIGHT} V ${box.y + 10} Q ${box.x} ${box.y} ${box.x + 10} ${box.y} H ${box.x + BOX_WIDTH - 10} Q ${box.x + BOX_WIDTH} ${box.y} ${box.x + BOX_WIDTH} ${box.y + 10} V ${box.y + HEADER_HEIGHT} Z`} fill={style.fill} />
+                <text x={box.x + 12} y={box.y + 23} fontSize={12} fontWeight={700} fill={style.text}>
+                  {box.name.length > 20 ? `${box.name.substring(0, 20)}…` : box.name}
+                </text>
+                <text x={box.x + BOX_WIDTH - 12} y={box.y + 23} fontSize={9} fontWeight={700} fill={style.text} textAnchor="end" opacity={0.8}>
+                  {box.role.toUpperCase()}
+                </text>
+                {box.rows.length === 0 && (
+                  <text x={box.x + 12} y={box.y + HEADER_HEIGHT + 15} fontSize={11} fill="#94a3b8">No keys detected</text>
+                )}
+                {box.rows.map((row, i) => (
+                  <text key={row.column} x={box.x + 12} y={box.y + HEADER_HEIGHT + i * ROW_HEIGHT + 15} fontSize={11} fill="#334155"
+                    fontWeight={row.isKey ? 700 : 500}>
+                    {row.isKey ? '🔑 ' : row.isForeign ? '🔗 ' : ''}{row.column.length > 24 ? `${row.column.substring(0, 24)}…` : row.column}
+                  </text>
+                ))}
+                {box.hidden > 0 && (
+                  <text x={box.x + 12} y={box.y + HEADER_HEIGHT + box.rows.length * ROW_HEIGHT + 15} fontSize={10} fill="#94a3b8">
+                    +{box.hidden} more columns
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="px-6 pb-5 flex flex-wrap gap-x-6 gap-y-2 text-xs text-slate-500 font-medium">
+        <span className="flex items-center gap-1.5"><Key size={12} /> Candidate key (unique, no blanks)</span>
+        <span className="flex items-center gap-1.5"><Link2 size={12} /> Foreign key (values found in another table's key)</span>
+        <span>Amber line: some values have no match · Dashed: matched on values only</span>
+        <span>Click a table to profile it</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,405 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ShieldCheck, Plus, Trash2, Save, Download, Upload, AlertTriangle, Lightbulb } from 'lucide-react';
+import { DataRow, ValidationRule, RuleCondition, RuleSet, ColumnIssue, CompareOperator, ArithmeticOperator } from '../types';
+import {
+  describeRule, ruleProblem, createRuleId, feedKeyOf,
+  loadRuleSets, saveRuleSet, deleteRuleSet, parseRuleSetJSON
+} from '../services/validationRules';
+import { suggestCrossColumnRules } from '../services/ruleSuggestions';
+
+interface RulesEditorProps {
+  columns: string[];
+  rows: DataRow[]; // Sampled for cross-column suggestions
+  fileName: string;
+  ruleSet: RuleSet;
+  onChange: (ruleSet: RuleSet) => void;
+}
+
+type RuleKind = ValidationRule['kind'];
+
+const KIND_OPTIONS: { value: RuleKind; label: string }[] = [
+  { value: 'not_null', label: 'Not empty' },
+  { value: 'unique', label: 'Unique' },
+  { value: 'range', label: 'Number range' },
+  { value: 'allowed_values', label: 'Allowed values' },
+  { value: 'regex', label: 'Matches pattern' },
+  { value: 'max_length', label: 'Max length' },
+  { value: 'compare', label: 'Compare to column' },
+  { value: 'arithmetic', label: 'Equals calculation' },
+  { value: 'age_matches', label: 'Age matches birth date' },
+  { value: 'valid_pair', label: 'Region of country' }
+];
+
+const COMPARE_OPTIONS: CompareOperator[] = ['<', '<=', '=', '>=', '>'];
+const ARITHMETIC_OPTIONS: { value: ArithmeticOperator; label: string }[] = [
+  { value: '*', label: '×' },
+  { value: '+', label: '+' },
+  { value: '-', label: '−' },
+  { value: '/', label: '÷' }
+];
+
+const OPERATOR_OPTIONS: { value: RuleCondition['operator']; label: string }[] = [
+  { value: 'equals', label: '=' },
+  { value: 'not_equals', label: '≠' },
+  { value: 'in', label: 'is one of' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' }
+];
+
+interface RuleDraft {
+  column: string;
+  kind: RuleKind;
+  min: string;
+  max: string;
+  pattern: string;
+  values: string;
+  maxLength: string;
+  otherColumn: string; // compare, valid_pair
+  compareOperator: CompareOperator;
+  left: string;
+  right: string;
+  arithmeticOperator: ArithmeticOperator;
+  birthColumn: string;
+  asOfColumn: string;
+  severity: ColumnIssue['severity'];
+  useCondition: boolean;
+  when: RuleCondition;
+}
+
+const emptyDraft = (column: string): RuleDraft => ({
+  column,
+  kind: 'not_null',
+  min: '',
+  max: '',
+  pattern: '',
+  values: '',
+  maxLength: '',
+  otherColumn: '',
+  compareOperator: '>=',
+  left: '',
+  right: '',
+  arithmeticOperator: '*',
+  birthColumn: '',
+  asOfColumn: '',
+  severity: 'High',
+  useCondition: false,
+  when: { column: '', operator: 'equals', value: '' }
+});
+
+const optionalNumber = (text: string) => (text.trim() === '' ? undefined : Number(text));
+
+const buildRule = (draft: RuleDraft): ValidationRule => {
+  const base = {
+    id: createRuleId(),
+    column: draft.column,
+    severity: draft.severity,
+    when: draft.useCondition ? draft.when : undefined
+  };
+  switch (draft.kind) {
+    case 'range': return { ...base, kind: 'range', min: optionalNumber(draft.min), max: optionalNumber(draft.max) };
+    case 'regex': return { ...base, kind: 'regex', pattern: draft.pattern };
+    case 'allowed_values':
+      return { ...base, kind: 'allowed_values', values: draft.values.split(',').map(v => v.trim()).filter(Boolean) };
+    case 'max_length': return { ...base, kind: 'max_length', maxLength: Number(draft.maxLength || NaN) };
+    case 'unique': return { ...base, kind: 'unique' };
+    case 'not_null': return { ...base, kind: 'not_null' };
+    case 'compare': return { ...base, kind: 'compare', operator: draft.compareOperator, otherColumn: draft.otherColumn };
+    case 'arithmetic':
+      return { ...base, kind: 'arithmetic', operator: draft.arithmeticOperator, left: draft.left, right: draft.right };
+    case 'age_matches': return { ...base, kind: 'age_matches', birthColumn: draft.birthColumn, asOfColumn: draft.asOfColumn || undefined };
+    case 'valid_pair': return { ...base, kind: 'valid_pair', otherColumn: draft.otherColumn };
+  }
+};
+
+const inputClass = "w-full text-sm text-slate-700 bg-white border border-slate-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "text-xs font-bold text-slate-500 uppercase tracking-wider";
+
+const ColumnSelect: React.FC<{ columns: string[]; value: string; placeholder: string; onChange: (column: string) => void }> = ({ columns, value, placeholder, onChange }) => (
+  <select value={value} onChange={e => onChange(e.target.value)} className={inputClass}>
+    <option value="">{placeholder}</option>
+    {columns.map(c => <option key={c} value={c}>{c}</option>)}
+  </select>
+);
+
+export const RulesEditor: React.FC<RulesEditorProps> = ({ columns, rows, fileName, ruleSet, onChange }) => {
+  const [draft, setDraft] = useState<RuleDraft>(() => emptyDraft(columns[0] || ''));
+  const [savedSets, setSavedSets] = useState<RuleSet[]>(() => loadRuleSets());
+  const [message, setMessage] = useState<string | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const candidate = buildRule(draft);
+  const problem = ruleProblem(candidate);
+  const isSaved = savedSets.some(s => s.id === ruleSet.id);
+  const suggestions = useMemo(() => suggestCrossColumnRules(rows, ruleSet.rules), [rows, ruleSet.rules]);
+
+  const addRule = () => {
+    if (problem) return;
+    onChange({ ...ruleSet, rules: [...ruleSet.rules, candidate] });
+    setDraft({ ...emptyDraft(draft.column), kind: draft.kind });
+  };
+
+  const addRules = (rules: ValidationRule[]) => onChange({ ...ruleSet, rules: [...ruleSet.rules, ...rules] });
+
+  const removeRule = (id: string) => onChange({ ...ruleSet, rules: ruleSet.rules.filter(r => r.id !== id) });
+
+  const handleSave = () => {
+    setSavedSets(saveRuleSet(ruleSet));
+    setMessage(`Saved "${ruleSet.name}" — it will be applied to future uploads of this feed`);
+  };
+
+  const handleLoad = (id: string) => {
+    const set = savedSets.find(s => s.id === id);
+    if (set) onChange(set);
+  };
+
+  const handleDelete = () => {
+    setSavedSets(deleteRuleSet(ruleSet.id));
+    setMessage(`Deleted saved set "${ruleSet.name}"`);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(ruleSet, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${ruleSet.name.replace(/[^a-z0-9_-]+/gi, '_')}.rules.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRuleSetJSON(await file.text());
+      onChange({ ...imported, feed: feedKeyOf(fileName) });
+      setMessage(`Imported ${imported.rules.length} rules from ${file.name}`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not read rule set');
+    }
+  };
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="text-slate-400" size={18} />
+          <h3 className="font-bold text-slate-700">Validation Rules</h3>
+          <span className="text-xs font-semibold text-slate-500">
+            {ruleSet.rules.length} rule{ruleSet.rules.length === 1 ? '' : 's'} · {isSaved ? `saved as "${ruleSet.name}"` : 'not saved'}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {savedSets.length > 0 && (
+            <select value="" onChange={e => handleLoad(e.target.value)} className="text-xs font-medium text-slate-600 bg-white border border-slate-200 rounded-lg px-2 py-1.5">
+              <option value="">Load saved set…</option>
+              {savedSets.map(s => (
+                <option key={s.id} value={s.id}>{s.name} ({s.rules.length})</option>
+              ))}
+            </select>
+          )}
+          <button onClick={() => importInput.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-indigo-200 transition-colors">
+            <Upload size={14} /> Import
+          </button>
+          <input ref={importInput} type="file" accept=".json" className="hidden" onChange={handleImport} />
+          <button onClick={handleExport} disabled={ruleSet.rules.length === 0} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-indigo-200 transition-colors disabled:opacity-40">
+            <Download size={14} /> Export
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {ruleSet.rules.length > 0 ? (
+          <ul className="divide-y divide-slate-100 border border-slate-100 rounded-xl">
+            {ruleSet.rules.map(rule => (
+              <li key={rule.id} className="flex items-center justify-between gap-4 px-4 py-2.5">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className={`shrink-0 text-[10px] font-bold uppercase px-2 py-0.5 rounded ${
+                    rule.severity === 'Low' ? 'bg-blue-50 text-blue-700' : rule.severity === 'Medium' ? 'bg-amber-50 text-amber-700' : 'bg-red-50 text-red-700'
+                  }`}>{rule.severity || 'High'}</span>
+                  <span className="text-sm text-slate-700 font-medium truncate">{describeRule(rule)}</span>
+                  {!columns.includes(rule.column) && (
+                    <span className="shrink-0 flex items-center gap-1 text-xs text-amber-600 font-semibold">
+                      <AlertTriangle size={12} /> column not in this file
+                    </span>
+                  )}
+                </div>
+                <button onClick={() => removeRule(rule.id)} className="text-slate-300 hover:text-red-500 transition-colors">
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-400">No rules yet. Rules are checked during analysis and reported as validation errors.</p>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="bg-amber-50/60 rounded-xl border border-amber-100 p-4 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <span className="flex items-center gap-2 text-sm font-bold text-amber-800">
+                <Lightbulb size={16} /> Suggested cross-column checks
+              </span>
+              <button onClick={() => addRules(suggestions)} className="text-xs font-bold text-amber-800 hover:text-amber-900 transition-colors">
+                Add all
+              </button>
+            </div>
+            <ul className="space-y-1.5">
+              {suggestions.map(rule => (
+                <li key={rule.id} className="flex items-center justify-between gap-4">
+                  <span className="text-sm text-slate-700 font-medium truncate">{describeRule(rule)}</span>
+                  <button onClick={() => addRules([rule])} className="shrink-0 flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-800 transition-colors">
+                    <Plus size={14} /> Add
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* New rule */}
+        <div className="bg-slate-50 rounded-xl border border-slate-100 p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <label className="space-y-1">
+              <span className={labelClass}>Column</span>
+              <select value={draft.column} onChange={e => setDraft({ ...draft, column: e.target.value })} className={inputClass}>
+                {columns.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Rule</span>
+              <select value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as RuleKind })} className={inputClass}>
+                {KIND_OPTIONS.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+              </select>
+            </label>
+
+            {draft.kind === 'range' && (
+              <div className="grid grid-cols-2 gap-2 md:col-span-1">
+                <label className="space-y-1">
+                  <span className={labelClass}>Min</span>
+                  <input type="number" value={draft.min} onChange={e => setDraft({ ...draft, min: e.target.value })} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>Max</span>
+                  <input type="number" value={draft.max} onChange={e => setDraft({ ...draft, max: e.target.value })} className={inputClass} />
+                </label>
+              </div>
+            )}
+            {draft.kind === 'regex' && (
+              <label className="space-y-1">
+                <span className={labelClass}>Pattern</span>
+                <input value={draft.pattern} placeholder="^[A-Z]{2}-\d+$" onChange={e => setDraft({ ...draft, pattern: e.target.value })} className={`${inputClass} font-mono`} />
+              </label>
+            )}
+            {draft.kind === 'allowed_values' && (
+              <label className="space-y-1">
+                <span className={labelClass}>Values (comma-separated)</span>
+                <input value={draft.values} placeholder="open, shipped, cancelled" onChange={e => setDraft({ ...draft, values: e.target.value })} className={inputClass} />
+              </label>
+            )}
+            {(draft.kind === 'compare' || draft.kind === 'valid_pair') && (
+              <div className={`grid gap-2 ${draft.kind === 'compare' ? 'grid-cols-[auto_1fr]' : 'grid-cols-1'}`}>
+                {draft.kind === 'compare' && (
+                  <label className="space-y-1">
+                    <span className={labelClass}>Is</span>
+                    <select value={draft.compareOperator} onChange={e => setDraft({ ...draft, compareOperator: e.target.value as CompareOperator })} className={inputClass}>
+                      {COMPARE_OPTIONS.map(o => <option key={o} value={o}>{o}</option>)}
+                    </select>
+                  </label>
+                )}
+                <label className="space-y-1">
+                  <span className={labelClass}>{draft.kind === 'compare' ? 'Column' : 'Country column'}</span>
+                  <ColumnSelect columns={columns} value={draft.otherColumn} placeholder="Column…" onChange={otherColumn => setDraft({ ...draft, otherColumn })} />
+                </label>
+              </div>
+            )}
+            {draft.kind === 'arithmetic' && (
+              <div className="grid grid-cols-[1fr_auto_1fr] gap-2 md:col-span-1">
+                <label className="space-y-1">
+                  <span className={labelClass}>Equals</span>
+                  <ColumnSelect columns={columns} value={draft.left} placeholder="Column…" onChange={left => setDraft({ ...draft, left })} />
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>&nbsp;</span>
+                  <select value={draft.arithmeticOperator} onChange={e => setDraft({ ...draft, arithmeticOperator: e.target.value as ArithmeticOperator })} className={inputClass}>
+                    {ARITHMETIC_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>&nbsp;</span>
+                  <ColumnSelect columns={columns} value={draft.right} placeholder="Column…" onChange={right => setDraft({ ...draft, right })} />
+                </label>
+              </div>
+            )}
+            {draft.kind === 'age_matches' && (
+              <div className="grid grid-cols-2 gap-2 md:col-span-1">
+                <label className="space-y-1">
+                  <span className={labelClass}>Birth date</span>
+                  <ColumnSelect columns={columns} value={draft.birthColumn} placeholder="Column…" onChange={birthColumn => setDraft({ ...draft, birthColumn })} />
+                </label>
+                <label className="space-y-1">
+                  <span className={labelClass}>As of</span>
+                  <ColumnSelect columns={columns} value={draft.asOfColumn} placeholder="Today" onChange={asOfColumn => setDraft({ ...draft, asOfColumn })} />
+                </label>
+              </div>
+            )}
+            {draft.kind === 'max_length' && (
+              <label className="space-y-1">
+                <span className={labelClass}>Max characters</span>
+                <input type="number" min={0} value={draft.maxLength} onChange={e => setDraft({ ...draft, maxLength: e.target.value })} className={inputClass} />
+              </label>
+            )}
+
+            <label className="space-y-1">
+              <span className={labelClass}>Severity</span>
+              <select value={draft.severity} onChange={e => setDraft({ ...draft, severity: e.target.value as ColumnIssue['severity'] })} className={inputClass}>
+                <option value="High">High</option>
+                <option value="Medium">Medium</option>
+                <option value="Low">Low</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-600 pb-2">
+              <input type="checkbox" checked={draft.useCondition} onChange={e => setDraft({ ...draft, useCondition: e.target.checked })} className="accent-indigo-600" />
+              Only when
+            </label>
+            {draft.useCondition && (
+              <>
+                <select value={draft.when.column} onChange={e => setDraft({ ...draft, when: { ...draft.when, column: e.target.value } })} className={`${inputClass} w-auto`}>
+                  <option value="">Column…</option>
+                  {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <select value={draft.when.operator} onChange={e => setDraft({ ...draft, when: { ...draft.when, operator: e.target.value as RuleCondition['operator'] } })} className={`${inputClass} w-auto`}>
+                  {OPERATOR_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+                {draft.when.operator !== 'is_empty' && draft.when.operator !== 'is_not_empty' && (
+                  <input value={draft.when.value || ''} placeholder="value" onChange={e => setDraft({ ...draft, when: { ...draft.when, value: e.target.value } })} className={`${inputClass} w-40`} />
+                )}
+              </>
+            )}
+            <div className="flex-grow" />
+            {problem && draft.column && <span className="text-xs text-slate-400 pb-2">{problem}</span>}
+            <button onClick={addRule} disabled={!!problem} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-40">
+              <Plus size={16} /> Add rule
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input value={ruleSet.name} onChange={e => onChange({ ...ruleSet, name: e.target.value })} className={`${inputClass} w-64`} />
+          <button onClick={handleSave} disabled={ruleSet.rules.length === 0 || !ruleSet.name.trim()} className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-indigo-700 bg-indigo-50 border border-indigo-100 rounded-lg hover:bg-indigo-100 transition-colors disabled:opacity-40">
+            <Save size={16} /> Save rule set
+          </button>
+          {isSaved && (
+            <button onClick={handleDelete} className="text-xs font-semibold text-slate-400 hover:text-red-500 transition-colors">
+              Delete saved set
+            </button>
+          )}
+          {message && <span className="text-xs text-slate-500 font-medium">{message}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
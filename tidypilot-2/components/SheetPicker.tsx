@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, Table, X } from 'lucide-react';
+import { WorkbookSheetInfo, SheetParseOptions } from '../types';
+
+interface SheetPickerProps {
+  fileName: string;
+  sheets: WorkbookSheetInfo[];
+  error: string | null;
+  onConfirm: (options: SheetParseOptions) => void;
+  onCancel: () => void;
+}
+
+export const SheetPicker: React.FC<SheetPickerProps> = ({ fileName, sheets, error, onConfirm, onCancel }) => {
+  const firstWithData = sheets.find(s => s.rowCount > 0) || sheets[0];
+  const [selectedSheet, setSelectedSheet] = useState<string>(firstWithData?.name || '');
+  const [range, setRange] = useState<string>('');
+  const [headerRow, setHeaderRow] = useState<string>('');
+
+  const active = sheets.find(s => s.name === selectedSheet);
+  const defaultHeaderRow = active?.range ? (active.range.match(/\d+/)?.[0] || '1') : '1';
+
+  const handleConfirm = () => {
+    onConfirm({
+      sheetName: selectedSheet,
+      range: range.trim() || undefined,
+      headerRow: headerRow.trim() ? Number(headerRow) : undefined
+    });
+  };
+
+  return (
+    <div className="border border-indigo-100 bg-indigo-50/30 rounded-2xl p-6 mb-10 animate-fade-in">
+      <div className="flex items-center justify-between mb-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-100 text-emerald-600 rounded-lg shadow-sm">
+            <FileSpreadsheet size={18} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Choose a sheet</h3>
+            <p className="text-xs text-slate-500 font-medium">{fileName} · {sheets.length} sheet{sheets.length === 1 ? '' : 's'}</p>
+          </div>
+        </div>
+        <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+        {sheets.map(sheet => (
+          <button
+            key={sheet.name}
+            onClick={() => setSelectedSheet(sheet.name)}
+            disabled={sheet.rowCount === 0}
+            className={`text-left p-4 rounded-xl border transition-all ${
+              selectedSheet === sheet.name
+                ? 'bg-white border-indigo-400 shadow-md shadow-indigo-100'
+                : 'bg-white/60 border-slate-200 hover:border-indigo-200'
+            } disabled:opacity-40 disabled:cursor-not-allowed`}
+          >
+            <div className="flex items-center gap-2 font-bold text-slate-700 text-sm">
+              <Table size={14} className="text-indigo-500" />
+              <span className="truncate">{sheet.name}</span>
+            </div>
+            <div className="text-xs text-slate-400 mt-1 font-medium">
+              {sheet.rowCount > 0 ? `${sheet.range} · ${sheet.rowCount} × ${sheet.columnCount}` : 'Empty sheet'}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-5">
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Cell range (optional)</span>
+          <input
+            type="text"
+            value={range}
+            onChange={e => setRange(e.target.value)}
+            placeholder={active?.range || 'A1:F100'}
+            className="mt-1.5 w-full px-3 py-2 rounded-lg border border-slate-200 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Header row (optional)</span>
+          <input
+            type="number"
+            min={1}
+            value={headerRow}
+            onChange={e => setHeaderRow(e.target.value)}
+            placeholder={defaultHeaderRow}
+            className="mt-1.5 w-full px-3 py-2 rounded-lg border border-slate-200 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="text-sm text-rose-600 bg-rose-50 border border-rose-100 rounded-lg px-4 py-2.5 mb-5">{error}</div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleConfirm}
+          disabled={!selectedSheet}
+          className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-xl shadow-md shadow-indigo-200 transition-colors disabled:opacity-50"
+        >
+          Load sheet
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { Braces, X } from 'lucide-react';
+import { ArrayHandling, DataRow, StructuredImportOptions } from '../types';
+import { flattenRecords, DEFAULT_STRUCTURED_OPTIONS } from '../services/structuredImport';
+
+interface StructuredImportPanelProps {
+  fileName: string;
+  records: Record<string, any>[];
+  onConfirm: (data: DataRow[]) => void;
+  onCancel: () => void;
+}
+
+const ARRAY_OPTIONS: { value: ArrayHandling; label: string; hint: string }[] = [
+  { value: 'join', label: 'Join values', hint: '["a","b"] → "a, b"' },
+  { value: 'index', label: 'One column per item', hint: 'tags.0, tags.1, …' },
+  { value: 'json', label: 'Keep as JSON text', hint: '["a","b"]' }
+];
+
+const PREVIEW_RECORDS = 8;
+
+export const StructuredImportPanel: React.FC<StructuredImportPanelProps> = ({ fileName, records, onConfirm, onCancel }) => {
+  const [options, setOptions] = useState<StructuredImportOptions>(DEFAULT_STRUCTURED_OPTIONS);
+
+  const preview = useMemo(() => flattenRecords(records.slice(0, PREVIEW_RECORDS), options), [records, options]);
+  const headers = preview.length > 0 ? Object.keys(preview[0]) : [];
+
+  return (
+    <div className="border border-indigo-100 bg-indigo-50/30 rounded-2xl p-6 mb-10 animate-fade-in">
+      <div className="flex items-center justify-between mb-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-amber-100 text-amber-600 rounded-lg shadow-sm">
+            <Braces size={18} />
+          </div>
+          <div>
+            <h3 className="font-bold text-slate-800">Flatten records</h3>
+            <p className="text-xs text-slate-500 font-medium">{fileName} · {records.length.toLocaleString()} records</p>
+          </div>
+        </div>
+        <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="mb-5">
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Array fields</span>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-1.5">
+          {ARRAY_OPTIONS.map(opt => (
+            <button
+              key={opt.value}
+              onClick={() => setOptions({ ...options, arrayHandling: opt.value })}
+              className={`text-left p-3 rounded-xl border transition-all ${
+                options.arrayHandling === opt.value
+                  ? 'bg-white border-indigo-400 shadow-md shadow-indigo-100'
+                  : 'bg-white/60 border-slate-200 hover:border-indigo-200'
+              }`}
+            >
+              <div className="text-sm font-bold text-slate-700">{opt.label}</div>
+              <div className="text-xs text-slate-400 font-mono mt-0.5">{opt.hint}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 overflow-hidden mb-6">
+        <div className="px-4 py-2.5 border-b border-slate-100 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          Preview · {headers.length} columns from the first {preview.length} records
+        </div>
+        <div className="max-h-64 overflow-auto">
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                {headers.map(h => (
+                  <th key={h} className="px-3 py-2 text-left font-bold text-slate-600 whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {preview.map((row, i) => (
+                <tr key={i}>
+                  {headers.map(h => (
+                    <td key={h} className="px-3 py-1.5 text-slate-600 whitespace-nowrap">{row[h] === null ? '' : String(row[h]).substring(0, 40)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onConfirm(flattenRecords(records, options))}
+          disabled={records.length === 0}
+          className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-xl shadow-md shadow-indigo-200 transition-colors disabled:opacity-50"
+        >
+          Load records
+        </button>
+      </div>
+    </div>
+  );
+};
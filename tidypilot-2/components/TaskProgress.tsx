@@ -0,0 +1,37 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+import { AnalysisProgress } from '../types';
+
+interface TaskProgressProps {
+  label: string;
+  progress: AnalysisProgress | null;
+  onCancel: () => void;
+}
+
+export const TaskProgress: React.FC<TaskProgressProps> = ({ label, progress, onCancel }) => {
+  const percent = Math.round((progress?.fraction || 0) * 100);
+
+  return (
+    <div className="bg-white border border-indigo-100 rounded-2xl p-5 shadow-sm animate-fade-in">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2.5 text-sm font-bold text-slate-700">
+          <Loader2 size={16} className="text-indigo-600 animate-spin" />
+          {label}
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-rose-600 bg-slate-50 hover:bg-rose-50 border border-slate-200 hover:border-rose-200 px-3 py-1.5 rounded-lg transition-colors"
+        >
+          <X size={14} /> Cancel
+        </button>
+      </div>
+      <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+        <div className="h-2 bg-indigo-500 rounded-full transition-all duration-300" style={{ width: `${percent}%` }}></div>
+      </div>
+      <div className="flex justify-between text-xs text-slate-400 font-medium mt-2">
+        <span>{(progress?.processedRows || 0).toLocaleString()} rows {progress?.phase === 'parsing' ? 'parsed' : 'profiled'}</span>
+        <span>{percent}%</span>
+      </div>
+    </div>
+  );
+};
@@ -1,35 +1,191 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Upload, Settings, Zap, FileCode, Layout } from 'lucide-react';
-import { AppSettings, DataRow } from '../types';
-import { parseCSV } from '../services/dataProcessing';
+import type { WorkBook } from 'xlsx';
+import { AppSettings, DataRow, DatasetLoadInfo, WorkspaceTable, SheetParseOptions, WorkbookSheetInfo, AnalysisProgress, CsvImportOptions, NumberLocale, OutlierMethod } from '../types';
+import { parseAndProfileCSV, isCancellation } from '../services/analysisClient';
+import { readWorkbook, listSheets, parseWorkbookSheet } from '../services/excelImport';
+import { sniffCSV } from '../services/csvImport';
+import { readRecords, structuredFormatOf } from '../services/structuredImport';
+import { isExcelFile, loadFileWithDefaults } from '../services/fileLoader';
+import { alignDatasets, SourceTable } from '../services/schemaAlignment';
+import { SheetPicker } from './SheetPicker';
+import { ImportWizard } from './ImportWizard';
+import { StructuredImportPanel } from './StructuredImportPanel';
+import { TaskProgress } from './TaskProgress';
 
 interface UploadSectionProps {
-  onDataLoaded: (data: DataRow[], fileName: string) => void;
+  onDataLoaded: (data: DataRow[], fileName: string, info?: DatasetLoadInfo) => void;
+  onWorkspaceLoaded: (tables: WorkspaceTable[]) => void;
   settings: AppSettings;
   setSettings: (s: AppSettings) => void;
 }
 
-export const UploadSection: React.FC<UploadSectionProps> = ({ onDataLoaded, settings, setSettings }) => {
+interface PendingWorkbook {
+  file: File;
+  workbook: WorkBook;
+  sheets: WorkbookSheetInfo[];
+}
+
+interface PendingCsv {
+  file: File;
+  detected: CsvImportOptions;
+}
+
+interface PendingRecords {
+  file: File;
+  records: Record<string, any>[];
+}
+
+export const UploadSection: React.FC<UploadSectionProps> = ({ onDataLoaded, onWorkspaceLoaded, settings, setSettings }) => {
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null);
+  const [sheetError, setSheetError] = useState<string | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<PendingCsv | null>(null);
+  const [pendingRecords, setPendingRecords] = useState<PendingRecords | null>(null);
+  const [parseProgress, setParseProgress] = useState<AnalysisProgress | null>(null);
+  const [progressLabel, setProgressLabel] = useState<string>('');
+  const [multiFileMode, setMultiFileMode] = useState<'append' | 'tables'>('append');
+  const parseAbort = useRef<AbortController | null>(null);
   
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
+      const files: File[] = Array.from(e.target.files);
+      const file = files[0];
+      setPendingWorkbook(null);
+      setPendingCsv(null);
+      setPendingRecords(null);
+      setSheetError(null);
+      // Allow re-selecting the same file after a cancel
+      e.target.value = '';
+
+      if (files.length > 1) {
+        await handleMultipleFiles(files);
+        return;
+      }
+
+      if (isExcelFile(file)) {
+        try {
+          const workbook = await readWorkbook(file);
+          setPendingWorkbook({ file, workbook, sheets: listSheets(workbook) });
+        } catch (err) {
+          alert("Error reading Excel workbook");
+        }
+        return;
+      }
+
+      const format = structuredFormatOf(file);
+      if (format) {
+        try {
+          setPendingRecords({ file, records: await readRecords(file) });
+        } catch (err) {
+          alert(err instanceof Error ? `Error reading ${format.toUpperCase()}: ${err.message}` : `Error reading ${format.toUpperCase()}`);
+        }
+        return;
+      }
+
       try {
-        const data = await parseCSV(file);
-        onDataLoaded(data, file.name);
+        setPendingCsv({ file, detected: await sniffCSV(file) });
       } catch (err) {
-        alert("Error parsing CSV");
+        alert("Error reading CSV");
+      }
+    }
+  };
+
+  const handleCsvConfirm = async (options: CsvImportOptions) => {
+    if (!pendingCsv) return;
+    const { file } = pendingCsv;
+    setPendingCsv(null);
+
+    parseAbort.current?.abort();
+    const controller = new AbortController();
+    parseAbort.current = controller;
+    setProgressLabel("Parsing and profiling in the background");
+    setParseProgress({ phase: 'parsing', processedRows: 0, fraction: 0 });
+    try {
+      const { data, stats } = await parseAndProfileCSV(file, options, settings, {
+        onProgress: setParseProgress,
+        signal: controller.signal
+      });
+      onDataLoaded(data, file.name, { stats });
+    } catch (err) {
+      if (!isCancellation(err)) alert("Error parsing CSV");
+    } finally {
+      if (parseAbort.current === controller) {
+        parseAbort.current = null;
+        setParseProgress(null);
+      }
+    }
+  };
+
+  /**
+   * Loads every file with auto-detected settings, then either appends them with schema
+   * alignment or keeps them as separate tables of a workspace.
+   */
+  const handleMultipleFiles = async (files: File[]) => {
+    parseAbort.current?.abort();
+    const controller = new AbortController();
+    parseAbort.current = controller;
+
+    const sources: SourceTable[] = [];
+    let processedRows = 0;
+    try {
+      for (let i = 0; i < files.length; i++) {
+        setProgressLabel(`${multiFileMode === 'append' ? 'Combining' : 'Loading'} ${files.length} files · reading ${files[i].name}`);
+        setParseProgress({ phase: 'parsing', processedRows, fraction: i / files.length });
+        const rows = await loadFileWithDefaults(files[i]);
+        if (controller.signal.aborted) return;
+        sources.push({ name: files[i].name, rows });
+        processedRows += rows.length;
+      }
+
+      if (multiFileMode === 'tables') {
+        onWorkspaceLoaded(sources.map((source, i) => ({
+          id: `table-${i}`,
+          name: source.name.replace(/\.[^.]+$/, ''),
+          rows: source.rows
+        })));
+        return;
+      }
+
+      const { data, report } = alignDatasets(sources);
+      onDataLoaded(data, `combined_${files.length}_files.csv`, { schemaReport: report });
+    } catch (err) {
+      alert(err instanceof Error ? `Error combining files: ${err.message}` : "Error combining files");
+    } finally {
+      if (parseAbort.current === controller) {
+        parseAbort.current = null;
+        setParseProgress(null);
       }
     }
   };
 
+  const handleRecordsConfirm = (data: DataRow[]) => {
+    if (!pendingRecords) return;
+    const baseName = pendingRecords.file.name.replace(/\.[^.]+$/, '');
+    onDataLoaded(data, `${baseName}.csv`);
+    setPendingRecords(null);
+  };
+
+  const handleSheetConfirm = (options: SheetParseOptions) => {
+    if (!pendingWorkbook) return;
+    try {
+      const data = parseWorkbookSheet(pendingWorkbook.workbook, options);
+      // Cleaned output is always CSV, so name the dataset after the workbook and sheet
+      const baseName = pendingWorkbook.file.name.replace(/\.(xlsx|xls)$/i, '');
+      onDataLoaded(data, `${baseName}_${options.sheetName}.csv`);
+      setPendingWorkbook(null);
+      setSheetError(null);
+    } catch (err) {
+      setSheetError(err instanceof Error ? err.message : "Error parsing sheet");
+    }
+  };
+
   return (
     <div className="bg-white p-8 md:p-12 rounded-3xl shadow-xl shadow-slate-200/50 border border-slate-100 max-w-5xl mx-auto">
       {/* Landing Page Header & Value Prop */}
       <div className="text-center mb-10">
         <h1 className="text-4xl md:text-5xl font-extrabold text-slate-900 mb-4 tracking-tight">TidyPilot</h1>
         <p className="text-lg text-slate-500 font-medium max-w-2xl mx-auto leading-relaxed">
-          Upload raw CSV. We find the mess so you don't have to.
+          Upload raw CSV, Excel, JSON or Parquet. We find the mess so you don't have to.
         </p>
 
         {/* Benefit/Feature Cards */}
@@ -76,7 +232,8 @@ export const UploadSection: React.FC<UploadSectionProps> = ({ onDataLoaded, sett
       <div className="group border-2 border-dashed border-slate-300 rounded-2xl p-12 text-center hover:bg-slate-50 hover:border-indigo-400 transition-all duration-300 relative cursor-pointer mb-10">
         <input 
             type="file" 
-            accept=".csv"
+            accept=".csv,.xlsx,.xls,.json,.ndjson,.jsonl,.parquet"
+            multiple
             onChange={handleFileChange}
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
         />
@@ -84,11 +241,68 @@ export const UploadSection: React.FC<UploadSectionProps> = ({ onDataLoaded, sett
             <div className="bg-indigo-50 p-4 rounded-full mb-5 group-hover:bg-indigo-100 transition-colors shadow-sm">
                 <Upload className="w-10 h-10 text-indigo-600" />
             </div>
-            <p className="text-xl font-bold text-slate-800">Drop your CSV file here</p>
-            <p className="text-slate-400 mt-2 font-medium">or click to browse</p>
+            <p className="text-xl font-bold text-slate-800">Drop your CSV, Excel, JSON or Parquet file here</p>
+            <p className="text-slate-400 mt-2 font-medium">or click to browse · select several files at once</p>
         </div>
       </div>
 
+      {/* Multi-file behaviour */}
+      <div className="flex flex-col md:flex-row items-center justify-center gap-3 -mt-6 mb-10 text-sm">
+        <span className="text-slate-500 font-medium">With several files:</span>
+        <div className="inline-flex bg-slate-100 p-1 rounded-xl">
+            {([['append', 'Append rows into one dataset'], ['tables', 'Keep as related tables']] as const).map(([mode, label]) => (
+                <button
+                    key={mode}
+                    onClick={() => setMultiFileMode(mode)}
+                    className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                        multiFileMode === mode ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                    }`}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+      </div>
+
+      {parseProgress && (
+        <div className="mb-10">
+            <TaskProgress
+                label={progressLabel}
+                progress={parseProgress}
+                onCancel={() => parseAbort.current?.abort()}
+            />
+        </div>
+      )}
+
+      {pendingCsv && (
+        <ImportWizard
+            key={pendingCsv.file.name + pendingCsv.file.lastModified}
+            file={pendingCsv.file}
+            detected={pendingCsv.detected}
+            onConfirm={handleCsvConfirm}
+            onCancel={() => setPendingCsv(null)}
+        />
+      )}
+
+      {pendingRecords && (
+        <StructuredImportPanel
+            fileName={pendingRecords.file.name}
+            records={pendingRecords.records}
+            onConfirm={handleRecordsConfirm}
+            onCancel={() => setPendingRecords(null)}
+        />
+      )}
+
+      {pendingWorkbook && (
+        <SheetPicker
+            fileName={pendingWorkbook.file.name}
+            sheets={pendingWorkbook.sheets}
+            error={sheetError}
+            onConfirm={handleSheetConfirm}
+            onCancel={() => { setPendingWorkbook(null); setSheetError(null); }}
+        />
+      )}
+
       {/* Settings Footer */}
       <div className="border-t border-slate-100 pt-8">
         <div className="flex items-center gap-2 mb-6">
@@ -96,7 +310,7 @@ export const UploadSection: React.FC<UploadSectionProps> = ({ onDataLoaded, sett
             <h3 className="font-bold text-slate-700 uppercase text-xs tracking-wider">Analysis Settings</h3>
         </div>
         
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
             <div className="flex items-center justify-between bg-slate-50 p-4 rounded-xl border border-slate-100 hover:border-indigo-100 transition-colors">
                 <span className="text-sm font-semibold text-slate-700">Auto-clean data</span>
                 <button 
@@ -108,7 +322,7 @@ export const UploadSection: React.FC<UploadSectionProps> = ({ onDataLoaded, sett
             </div>
 
             <div className="flex items-center justify-between bg-slate-50 p-4 rounded-xl border border-slate-100 hover:border-indigo-100 transition-colors">
-                <span className="text-sm font-semibold text-slate-700">Strict Mode</span>
+                <span className="text-sm font-semibold text-slate-700" title="Columns need 95% agreement to be typed, every value that doesn't fit its column's type is a High violation and its row is quarantined; no imputing or coercing">Strict Mode</span>
                 <button 
                     onClick={() => setSettings({...settings, strictMode: !settings.strictMode})}
                     className={`w-11 h-6 rounded-full p-1 transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${settings.strictMode ? 'bg-indigo-600' : 'bg-slate-300'}`}
@@ -134,6 +348,48 @@ export const UploadSection: React.FC<UploadSectionProps> = ({ onDataLoaded, sett
                     className="w-full h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
                 />
             </div>
+
+            <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 hover:border-indigo-100 transition-colors">
+                <div className="flex justify-between mb-3">
+                    <span className="text-sm font-semibold text-slate-700">Number Format</span>
+                </div>
+                <select
+                    value={settings.numberLocale}
+                    onChange={(e) => setSettings({...settings, numberLocale: e.target.value as NumberLocale})}
+                    className="w-full text-sm font-medium text-slate-700 bg-white border border-slate-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                    <option value="auto">Auto-detect per column</option>
+                    <option value="en">1,234.56 (decimal point)</option>
+                    <option value="eu">1.234,56 (decimal comma)</option>
+                </select>
+            </div>
+
+            <div className="bg-slate-50 p-4 rounded-xl border border-slate-100 hover:border-indigo-100 transition-colors">
+                <div className="flex justify-between mb-3">
+                    <span className="text-sm font-semibold text-slate-700">Outlier Method</span>
+                </div>
+                <select
+                    value={settings.outlierMethod}
+                    onChange={(e) => setSettings({...settings, outlierMethod: e.target.value as OutlierMethod})}
+                    className="w-full text-sm font-medium text-slate-700 bg-white border border-slate-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                    <option value="auto">Auto (log scale for skewed amounts)</option>
+                    <option value="iqr">IQR fences</option>
+                    <option value="log_iqr">Log-scale IQR</option>
+                    <option value="zscore">Z-score</option>
+                    <option value="mad">Modified z-score (MAD)</option>
+                </select>
+            </div>
+
+            <div className="flex items-center justify-between bg-slate-50 p-4 rounded-xl border border-slate-100 hover:border-indigo-100 transition-colors">
+                <span className="text-sm font-semibold text-slate-700">Multivariate outliers</span>
+                <button 
+                    onClick={() => setSettings({...settings, multivariateOutliers: !settings.multivariateOutliers})}
+                    className={`w-11 h-6 rounded-full p-1 transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${settings.multivariateOutliers ? 'bg-indigo-600' : 'bg-slate-300'}`}
+                >
+                     <div className={`bg-white w-4 h-4 rounded-full shadow-sm transform transition-transform duration-200 ${settings.multivariateOutliers ? 'translate-x-5' : ''}`} />
+                </button>
+            </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,116 @@
+import Papa from 'papaparse';
+import { DataRow, DatasetStats, AppSettings, AnalysisProgress, CsvImportOptions, AnalysisOptions } from '../types';
+import {
+  DatasetAccumulator,
+  createDatasetAccumulator,
+  createDatasetAccumulatorFor,
+  accumulateRows,
+  mergeDatasetAccumulators,
+  finalizeDatasetStats
+} from './dataProcessing';
+import { createRowMapper, papaConfigFor } from './csvImport';
+import { STRUCTURE_ROW_LIMIT } from './structureDiscovery';
+import { withRowAnalyses } from './rowAnalysis';
+
+// Runs parsing and profiling off the main thread. Each chunk is profiled into its own
+// accumulator and merged into the running one, so memory stays bounded by the sketches
+// rather than by the number of rows.
+
+export type AnalysisWorkerRequest =
+  | { type: 'parse'; file: File; options: CsvImportOptions; settings: AppSettings }
+  | { type: 'analyze'; rows: DataRow[]; settings: AppSettings; options?: AnalysisOptions };
+
+export type AnalysisWorkerResponse =
+  | { type: 'rows'; rows: DataRow[] }
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'done'; stats: DatasetStats }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+const post = (message: AnalysisWorkerResponse) => ctx.postMessage(message);
+
+const PARSE_CHUNK_BYTES = 4 * 1024 * 1024;
+const ANALYZE_CHUNK_ROWS = 50000;
+
+const profileChunk = (
+  acc: DatasetAccumulator | null,
+  headers: string[],
+  rows: DataRow[],
+  settings: AppSettings,
+  options: AnalysisOptions = {}
+): DatasetAccumulator => {
+  // Number formats are detected on the first chunk and reused by every later one
+  const chunkAcc = acc
+    ? createDatasetAccumulator(headers, acc.columns.map(c => c.decimal), options)
+    : createDatasetAccumulatorFor(headers, rows, settings, options);
+  accumulateRows(chunkAcc, rows);
+  return acc ? mergeDatasetAccumulators(acc, chunkAcc) : chunkAcc;
+};
+
+const emptyStats = (): DatasetStats => ({ rowCount: 0, columnCount: 0, totalMissingCells: 0, duplicateRows: 0, columns: [] });
+
+const parseFile = (file: File, options: CsvImportOptions, settings: AppSettings) => {
+  let acc: DatasetAccumulator | null = null;
+  const mapper = createRowMapper(options);
+  // Rows are handed to the main thread as they're parsed; only the first ones are kept for the row analyses
+  const structureRows: DataRow[] = [];
+
+  Papa.parse(file, {
+    ...papaConfigFor(options),
+    chunkSize: PARSE_CHUNK_BYTES,
+    chunk: (results) => {
+      const rows = mapper.map(results.data as string[][]);
+      if (rows.length === 0) return;
+
+      acc = profileChunk(acc, mapper.headers(), rows, settings);
+      for (const row of rows) {
+        if (structureRows.length >= STRUCTURE_ROW_LIMIT) break;
+        structureRows.push(row);
+      }
+      post({ type: 'rows', rows });
+      post({
+        type: 'progress',
+        progress: {
+          phase: 'parsing',
+          processedRows: acc.rowCount,
+          fraction: file.size > 0 ? Math.min(1, results.meta.cursor / file.size) : 1
+        }
+      });
+    },
+    complete: () => {
+      if (!acc) {
+        post({ type: 'done', stats: emptyStats() });
+        return;
+      }
+      post({ type: 'done', stats: withRowAnalyses(finalizeDatasetStats(acc, settings), structureRows, settings) });
+    },
+    error: (err: Error) => post({ type: 'error', message: err.message })
+  });
+};
+
+const analyzeRows = (rows: DataRow[], settings: AppSettings, options?: AnalysisOptions) => {
+  if (rows.length === 0) {
+    post({ type: 'done', stats: emptyStats() });
+    return;
+  }
+
+  const headers = Object.keys(rows[0]);
+  let acc: DatasetAccumulator | null = null;
+  for (let start = 0; start < rows.length; start += ANALYZE_CHUNK_ROWS) {
+    acc = profileChunk(acc, headers, rows.slice(start, start + ANALYZE_CHUNK_ROWS), settings, options);
+    post({
+      type: 'progress',
+      progress: { phase: 'profiling', processedRows: acc.rowCount, fraction: acc.rowCount / rows.length }
+    });
+  }
+  post({ type: 'done', stats: withRowAnalyses(finalizeDatasetStats(acc!, settings), rows, settings) });
+};
+
+ctx.onmessage = (e: MessageEvent<AnalysisWorkerRequest>) => {
+  try {
+    if (e.data.type === 'parse') parseFile(e.data.file, e.data.options, e.data.settings);
+    else analyzeRows(e.data.rows, e.data.settings, e.data.options);
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
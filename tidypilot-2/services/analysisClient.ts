@@ -0,0 +1,91 @@
+import { DataRow, DatasetStats, AppSettings, AnalysisProgress, CsvImportOptions, AnalysisOptions } from '../types';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './analysis.worker';
+import { analyzeDataset, parseCSV } from './dataProcessing';
+import { withRowAnalyses } from './rowAnalysis';
+
+interface WorkerJobOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+}
+
+const cancelledError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+export const isCancellation = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+/**
+ * Runs one request on a fresh analysis worker. Cancelling terminates the worker outright,
+ * which also stops Papa mid-file without waiting for the current chunk.
+ */
+const runWorkerJob = (
+  request: AnalysisWorkerRequest,
+  options: WorkerJobOptions,
+  onRows?: (rows: DataRow[]) => void
+): Promise<DatasetStats> => {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(cancelledError());
+    };
+    options.signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'rows') onRows?.(message.rows);
+      else if (message.type === 'progress') options.onProgress?.(message.progress);
+      else if (message.type === 'done') {
+        finish();
+        resolve(message.stats);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'Analysis worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+};
+
+/** Streams a CSV through the worker, profiling it chunk by chunk while it is parsed. */
+export const parseAndProfileCSV = async (
+  file: File,
+  importOptions: CsvImportOptions,
+  settings: AppSettings,
+  options: WorkerJobOptions = {}
+): Promise<{ data: DataRow[]; stats: DatasetStats }> => {
+  if (typeof Worker === 'undefined') {
+    const data = await parseCSV(file, importOptions);
+    return { data, stats: withRowAnalyses(analyzeDataset(data, settings), data, settings) };
+  }
+
+  const data: DataRow[] = [];
+  const stats = await runWorkerJob({ type: 'parse', file, options: importOptions, settings }, options, rows => {
+    for (const row of rows) data.push(row);
+  });
+  return { data, stats };
+};
+
+/** Profiles rows that are already in memory (e.g. from a workbook) without blocking the UI. */
+export const analyzeInWorker = async (
+  data: DataRow[],
+  settings: AppSettings,
+  options: WorkerJobOptions = {},
+  analysisOptions: AnalysisOptions = {}
+): Promise<DatasetStats> => {
+  if (typeof Worker === 'undefined') return withRowAnalyses(analyzeDataset(data, settings, analysisOptions), data, settings);
+  return runWorkerJob({ type: 'analyze', rows: data, settings, options: analysisOptions }, options);
+};
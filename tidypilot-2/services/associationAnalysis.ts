@@ -0,0 +1,276 @@
+import { DataRow, DatasetStats, ColumnProfile, ColumnIssue, ColumnAssociation, AssociationMatrix } from '../types';
+import { normalizeValue } from './dataProcessing';
+import { parseNumber } from './numberParsing';
+import { hashString } from './streamingStats';
+import { STRUCTURE_ROW_LIMIT } from './structureDiscovery';
+import { withConfidence, sampleSupport } from './issueConfidence';
+
+const MAX_COLUMNS = 30;
+const MAX_CATEGORIES = 50; // Beyond this a text column is an identifier or free text, not a category
+const MIN_PAIR_ROWS = 10;
+const REDUNDANT_THRESHOLD = 0.98;
+
+// --- Column Encoding ---
+
+type Encoded =
+  | { kind: 'number'; name: string; values: Float64Array; ranks: Float64Array } // NaN when empty
+  | { kind: 'category'; name: string; codes: Int32Array; cardinality: number }; // -1 when empty
+
+const numericValues = (rows: DataRow[], col: ColumnProfile): Float64Array => {
+  const decimal = col.numberFormat?.decimalSeparator || '.';
+  const values = new Float64Array(rows.length);
+  rows.forEach((row, i) => {
+    const v = normalizeValue(row[col.name]);
+    const parsed = v === null ? null : parseNumber(v, decimal);
+    values[i] = parsed ? parsed.value : NaN;
+  });
+  return values;
+};
+
+/** Ranks over the filled values, ties sharing their average rank. */
+const rankValues = (values: Float64Array): Float64Array => {
+  const ranks = new Float64Array(values.length).fill(NaN);
+  const order = Array.from(values.keys()).filter(i => !Number.isNaN(values[i])).sort((a, b) => values[a] - values[b]);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && values[order[end + 1]] === values[order[start]]) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k]] = rank;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+const categoryCodes = (rows: DataRow[], name: string): { codes: Int32Array; cardinality: number } => {
+  const codes = new Int32Array(rows.length);
+  const lookup = new Map<string, number>();
+  rows.forEach((row, i) => {
+    const v = normalizeValue(row[name]);
+    if (v === null) {
+      codes[i] = -1;
+      return;
+    }
+    const key = String(v);
+    let code = lookup.get(key);
+    if (code === undefined) {
+      code = lookup.size;
+      lookup.set(key, code);
+    }
+    codes[i] = code;
+  });
+  return { codes, cardinality: lookup.size };
+};
+
+const isNumeric = (col: ColumnProfile) =>
+  col.inferredType === 'number' && !col.semanticType && !col.dateFormat && !!col.numericStats && col.numericStats.stdDev > 0;
+
+const isCategory = (col: ColumnProfile) =>
+  (col.inferredType === 'string' || col.inferredType === 'boolean') && col.uniqueCount >= 2 && col.uniqueCount <= MAX_CATEGORIES;
+
+// --- Measures ---
+
+/** Pearson correlation over rows where both are filled, with co-moments for stability. */
+const pearson = (x: Float64Array, y: Float64Array): { value: number; rows: number } => {
+  let n = 0, meanX = 0, meanY = 0, cxx = 0, cyy = 0, cxy = 0;
+  for (let i = 0; i < x.length; i++) {
+    if (Number.isNaN(x[i]) || Number.isNaN(y[i])) continue;
+    n++;
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    meanX += dx / n;
+    meanY += dy / n;
+    cxx += dx * (x[i] - meanX);
+    cyy += dy * (y[i] - meanY);
+    cxy += dx * (y[i] - meanY);
+  }
+  return { value: cxx > 0 && cyy > 0 ? cxy / Math.sqrt(cxx * cyy) : 0, rows: n };
+};
+
+/** Bias-corrected Cramér's V (Bergsma), so many sparse categories don't read as association. */
+const cramersV = (a: Int32Array, ka: number, b: Int32Array, kb: number): { value: number; rows: number } => {
+  const table = new Float64Array(ka * kb);
+  const rowTotals = new Float64Array(ka);
+  const colTotals = new Float64Array(kb);
+  let n = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < 0 || b[i] < 0) continue;
+    table[a[i] * kb + b[i]]++;
+    rowTotals[a[i]]++;
+    colTotals[b[i]]++;
+    n++;
+  }
+  const r = rowTotals.filter(t => t > 0).length;
+  const k = colTotals.filter(t => t > 0).length;
+  if (n < 2 || r < 2 || k < 2) return { value: 0, rows: n };
+
+  let chi2 = 0;
+  for (let i = 0; i < ka; i++) {
+    if (rowTotals[i] === 0) continue;
+    for (let j = 0; j < kb; j++) {
+      if (colTotals[j] === 0) continue;
+      const expected = (rowTotals[i] * colTotals[j]) / n;
+      const diff = table[i * kb + j] - expected;
+      chi2 += (diff * diff) / expected;
+    }
+  }
+  const phi2 = Math.max(0, chi2 / n - ((k - 1) * (r - 1)) / (n - 1));
+  const rCorr = r - ((r - 1) * (r - 1)) / (n - 1);
+  const kCorr = k - ((k - 1) * (k - 1)) / (n - 1);
+  const denominator = Math.min(kCorr - 1, rCorr - 1);
+  return { value: denominator > 0 ? Math.min(1, Math.sqrt(phi2 / denominator)) : 0, rows: n };
+};
+
+/** Correlation ratio η: how much of the number's variance the category explains. */
+const correlationRatio = (codes: Int32Array, cardinality: number, values: Float64Array): { value: number; rows: number } => {
+  const sums = new Float64Array(cardinality);
+  const counts = new Float64Array(cardinality);
+  let n = 0, total = 0;
+  for (let i = 0; i < codes.length; i++) {
+    if (codes[i] < 0 || Number.isNaN(values[i])) continue;
+    sums[codes[i]] += values[i];
+    counts[codes[i]]++;
+    total += values[i];
+    n++;
+  }
+  if (n < 2) return { value: 0, rows: n };
+  const mean = total / n;
+  let between = 0, overall = 0;
+  for (let c = 0; c < cardinality; c++) {
+    if (counts[c] > 0) between += counts[c] * (sums[c] / counts[c] - mean) ** 2;
+  }
+  for (let i = 0; i < codes.length; i++) {
+    if (codes[i] >= 0 && !Number.isNaN(values[i])) overall += (values[i] - mean) ** 2;
+  }
+  return { value: overall > 0 ? Math.sqrt(between / overall) : 0, rows: n };
+};
+
+const associate = (a: Encoded, b: Encoded): ColumnAssociation | null => {
+  const columns: [string, string] = [a.name, b.name];
+  if (a.kind === 'number' && b.kind === 'number') {
+    const linear = pearson(a.values, b.values);
+    if (linear.rows < MIN_PAIR_ROWS) return null;
+    return { columns, measure: 'pearson', value: linear.value, spearman: pearson(a.ranks, b.ranks).value, rows: linear.rows };
+  }
+  const result = a.kind === 'category' && b.kind === 'category' ? cramersV(a.codes, a.cardinality, b.codes, b.cardinality)
+    : a.kind === 'category' && b.kind === 'number' ? correlationRatio(a.codes, a.cardinality, b.values)
+    : a.kind === 'number' && b.kind === 'category' ? correlationRatio(b.codes, b.cardinality, a.values)
+    : null;
+  if (!result || result.rows < MIN_PAIR_ROWS) return null;
+  return { columns, measure: a.kind === b.kind ? 'cramers_v' : 'correlation_ratio', value: result.value, rows: result.rows };
+};
+
+// --- Duplicate Columns ---
+
+/** Pairs of columns holding the same value in every row, found by fingerprint and then compared. */
+const findDuplicateColumns = (rows: DataRow[], columns: ColumnProfile[]): [string, string][] => {
+  const byFingerprint = new Map<number, string[]>();
+  columns.forEach(col => {
+    let fingerprint = 0;
+    for (const row of rows) {
+      const v = normalizeValue(row[col.name]);
+      fingerprint = (Math.imul(fingerprint, 31) + hashString(v === null ? '' : String(v))) >>> 0;
+    }
+    byFingerprint.set(fingerprint, [...(byFingerprint.get(fingerprint) || []), col.name]);
+  });
+
+  const same = (a: string, b: string) => rows.every(row => String(normalizeValue(row[a]) ?? '') === String(normalizeValue(row[b]) ?? ''));
+  const pairs: [string, string][] = [];
+  byFingerprint.forEach(names => {
+    names.forEach((b, j) => {
+      const original = names.slice(0, j).find(a => same(a, b));
+      if (original) pairs.push([original, b]);
+    });
+  });
+  return pairs;
+};
+
+// --- Public API ---
+
+/** Associations between every pair of numeric and low-cardinality text columns, on the first rows. */
+export const analyzeAssociations = (rows: DataRow[], columns: ColumnProfile[], keyColumns: Set<string> = new Set()): AssociationMatrix => {
+  const sample = rows.length > STRUCTURE_ROW_LIMIT ? rows.slice(0, STRUCTURE_ROW_LIMIT) : rows;
+  const encoded: Encoded[] = columns
+    .filter(c => !keyColumns.has(c.name) && (isNumeric(c) || isCategory(c)))
+    .slice(0, MAX_COLUMNS)
+    .map(c => {
+      if (isNumeric(c)) {
+        const values = numericValues(sample, c);
+        return { kind: 'number', name: c.name, values, ranks: rankValues(values) };
+      }
+      return { kind: 'category', name: c.name, ...categoryCodes(sample, c.name) };
+    });
+
+  const pairs: ColumnAssociation[] = [];
+  encoded.forEach((a, i) => encoded.slice(i + 1).forEach(b => {
+    const association = associate(a, b);
+    if (association) pairs.push(association);
+  }));
+
+  return {
+    columns: encoded.map(c => c.name),
+    pairs,
+    sampledRows: rows.length > STRUCTURE_ROW_LIMIT ? sample.length : undefined
+  };
+};
+
+const MEASURE_LABELS: Record<ColumnAssociation['measure'], string> = {
+  pearson: 'r',
+  cramers_v: "Cramér's V",
+  correlation_ratio: 'η'
+};
+
+export const describeAssociation = (a: ColumnAssociation): string =>
+  `${MEASURE_LABELS[a.measure]} = ${a.value.toFixed(2)}${a.spearman !== undefined ? `, ρ = ${a.spearman.toFixed(2)}` : ''}`;
+
+/**
+ * Strength of a pair for redundancy: either correlation for numbers, V for categories.
+ * A category explaining a number (η) is a dependency, not a redundant copy, so it's left out.
+ */
+const redundancy = (a: ColumnAssociation) =>
+  a.measure === 'pearson' ? Math.max(Math.abs(a.value), Math.abs(a.spearman ?? 0))
+    : a.measure === 'cramers_v' ? a.value
+    : 0;
+
+/**
+ * Adds the association matrix to profiled stats and flags columns that duplicate or almost
+ * perfectly track an earlier column, on the later one (the earlier is the one to keep).
+ */
+export const withAssociations = (stats: DatasetStats, rows: DataRow[]): DatasetStats => {
+  const keyColumns = new Set(stats.structure?.keys.filter(k => k.columns.length === 1).map(k => k.columns[0]));
+  const associations = analyzeAssociations(rows, stats.columns, keyColumns);
+  const sample = rows.length > STRUCTURE_ROW_LIMIT ? rows.slice(0, STRUCTURE_ROW_LIMIT) : rows;
+  const order = new Map(stats.columns.map((c, i) => [c.name, i]));
+  const issues = new Map<string, ColumnIssue>();
+
+  findDuplicateColumns(sample, stats.columns.filter(c => c.missingCount < stats.rowCount)).forEach(([original, copy]) => {
+    if (issues.has(copy)) return;
+    issues.set(copy, {
+      type: 'redundant_column',
+      description: `Duplicate of column ${original}`,
+      severity: 'Medium',
+      count: 1,
+      examples: [original]
+    });
+  });
+
+  associations.pairs
+    .filter(a => redundancy(a) >= REDUNDANT_THRESHOLD)
+    .sort((x, y) => redundancy(y) - redundancy(x))
+    .forEach(a => {
+      const [original, copy] = [...a.columns].sort((x, y) => order.get(x)! - order.get(y)!);
+      if (issues.has(copy)) return;
+      issues.set(copy, withConfidence({
+        type: 'redundant_column',
+        description: `Almost perfectly ${a.measure === 'pearson' ? 'correlated' : 'associated'} with ${original} (${describeAssociation(a)})`,
+        severity: 'Low',
+        count: 1,
+        examples: [original]
+      }, redundancy(a) * sampleSupport(a.rows, 10)));
+    });
+
+  return {
+    ...stats,
+    associations,
+    columns: stats.columns.map(c => (issues.has(c.name) ? { ...c, issues: [...c.issues, issues.get(c.name)!] } : c))
+  };
+};
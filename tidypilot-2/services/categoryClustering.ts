@@ -0,0 +1,363 @@
+import { CategoryCluster, ClusterMethod } from '../types';
+
+// Nearest-neighbour matching: edit radius, shortest value compared and q-gram blocking
+const NEIGHBOR_RADIUS = 2;
+const NEIGHBOR_MIN_LENGTH = 4;
+const GRAM_SIZE = 3;
+const MAX_BLOCK_SIZE = 200;
+
+export const CLUSTER_METHODS: { method: ClusterMethod; label: string }[] = [
+  { method: 'fingerprint', label: 'Fingerprint' },
+  { method: 'ngram', label: 'N-gram' },
+  { method: 'metaphone', label: 'Metaphone' },
+  { method: 'soundex', label: 'Soundex' },
+  { method: 'nearest_neighbor', label: 'Nearest neighbour' }
+];
+
+export interface CategoryCount {
+  value: string;
+  count: number;
+}
+
+// --- Keys ---
+
+const tokensOf = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+/** Unique sorted words without case, accents or punctuation: "Smith, John" and "john smith" agree. */
+export const fingerprint = (value: string): string => Array.from(new Set(tokensOf(value))).sort().join(' ');
+
+/** Unique sorted character n-grams of the text with spacing removed: "New York" and "newyork" agree. */
+export const ngramFingerprint = (value: string, n: number = 2): string => {
+  const text = tokensOf(value).join('');
+  if (text.length <= n) return text;
+  const grams = new Set<string>();
+  for (let i = 0; i + n <= text.length; i++) grams.add(text.substring(i, i + n));
+  return Array.from(grams).sort().join('');
+};
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3', l: '4', m: '5', n: '5', r: '6'
+};
+
+/** American Soundex of one word: "Robert" and "Rupert" are both R163. */
+export const soundex = (word: string): string => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return word;
+  let code = letters[0].toUpperCase();
+  let last = SOUNDEX_CODES[letters[0]] || '';
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const ch = letters[i];
+    const digit = SOUNDEX_CODES[ch];
+    if (digit && digit !== last) code += digit;
+    // H and W don't separate equal codes; vowels do
+    if (ch !== 'h' && ch !== 'w') last = digit || '';
+  }
+  return code.padEnd(4, '0');
+};
+
+const isVowel = (ch: string | undefined) => ch !== undefined && 'aeiou'.includes(ch);
+
+/** Original Metaphone of one word: "Mcdonald" and "MacDonald" are both MKTNLT. */
+export const metaphone = (word: string): string => {
+  let w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return word;
+
+  // Initial letter exceptions
+  if (/^(kn|gn|pn|ae|wr)/.test(w)) w = w.substring(1);
+  if (w[0] === 'x') w = 's' + w.substring(1);
+  if (w.startsWith('wh')) w = 'w' + w.substring(2);
+
+  let key = '';
+  for (let i = 0; i < w.length; i++) {
+    const ch = w[i];
+    const prev = w[i - 1];
+    const next = w[i + 1];
+    // Doubled letters count once, except C
+    if (ch === prev && ch !== 'c') continue;
+
+    switch (ch) {
+      case 'a': case 'e': case 'i': case 'o': case 'u':
+        if (i === 0) key += ch.toUpperCase();
+        break;
+      case 'b':
+        if (!(prev === 'm' && i === w.length - 1)) key += 'B';
+        break;
+      case 'c':
+        if (next === 'i' && w[i + 2] === 'a') key += 'X';
+        else if (next === 'h') key += prev === 's' ? 'K' : 'X';
+        else if (next === 'i' || next === 'e' || next === 'y') { if (prev !== 's') key += 'S'; }
+        else key += 'K';
+        break;
+      case 'd':
+        key += next === 'g' && 'eiy'.includes(w[i + 2] || '-') ? 'J' : 'T';
+        break;
+      case 'g':
+        if (next === 'h' && !(i + 2 >= w.length || isVowel(w[i + 2]))) break;
+        if (next === 'n' && (i + 2 === w.length || w.substring(i + 1) === 'ned')) break;
+        if (prev === 'd' && 'eiy'.includes(next || '-')) break;
+        key += 'eiy'.includes(next || '-') && prev !== 'g' ? 'J' : 'K';
+        break;
+      case 'h':
+        if (isVowel(next) && !'cgpst'.includes(prev || '-')) key += 'H';
+        break;
+      case 'k':
+        if (prev !== 'c') key += 'K';
+        break;
+      case 'p':
+        key += next === 'h' ? 'F' : 'P';
+        break;
+      case 'q':
+        key += 'K';
+        break;
+      case 's':
+        if (next === 'h' || (next === 'i' && (w[i + 2] === 'o' || w[i + 2] === 'a'))) key += 'X';
+        else key += 'S';
+        break;
+      case 't':
+        if (next === 'i' && (w[i + 2] === 'o' || w[i + 2] === 'a')) key += 'X';
+        else if (next === 'h') key += '0';
+        else if (!(next === 'c' && w[i + 2] === 'h')) key += 'T';
+        break;
+      case 'v':
+        key += 'F';
+        break;
+      case 'w': case 'y':
+        if (isVowel(next)) key += ch.toUpperCase();
+        break;
+      case 'x':
+        key += 'KS';
+        break;
+      case 'z':
+        key += 'S';
+        break;
+      default:
+        key += ch.toUpperCase(); // f, j, l, m, n, r
+    }
+  }
+  return key;
+};
+
+/** Phonetic key of a value: each word encoded, in sorted order so word order doesn't matter. */
+const phoneticKey = (value: string, encode: (word: string) => string): string =>
+  Array.from(new Set(tokensOf(value).map(t => (/^\d+$/.test(t) ? t : encode(t))))).sort().join(' ');
+
+const KEYERS: Record<Exclude<ClusterMethod, 'nearest_neighbor'>, (value: string) => string> = {
+  fingerprint,
+  ngram: value => ngramFingerprint(value),
+  metaphone: value => phoneticKey(value, metaphone),
+  soundex: value => phoneticKey(value, soundex)
+};
+
+// --- Edit Distance ---
+
+// Reused rows for the edit distance table, grown as needed
+let rowBuffers = [new Int32Array(64), new Int32Array(64)];
+
+/**
+ * Levenshtein distance of `a` and `b`, or `max + 1` as soon as it's known to exceed `max`.
+ * Only the diagonal band `max` cells wide is filled in.
+ */
+export const boundedEditDistance = (a: string, b: string, max: number): number => {
+  const over = max + 1;
+  if (Math.abs(a.length - b.length) > max) return over;
+  if (a === b) return 0;
+
+  const n = b.length;
+  if (rowBuffers[0].length <= n + 1) rowBuffers = [new Int32Array(2 * n + 2), new Int32Array(2 * n + 2)];
+  let [previous, current] = rowBuffers;
+  for (let j = 0; j <= n; j++) previous[j] = j <= max ? j : over;
+
+  for (let i = 1; i <= a.length; i++) {
+    const from = Math.max(1, i - max);
+    const to = Math.min(n, i + max);
+    current[0] = i <= max ? i : over;
+    current[from - 1] = from === 1 ? current[0] : over;
+    let rowMin = current[from - 1];
+    const code = a.charCodeAt(i - 1);
+    for (let j = from; j <= to; j++) {
+      const cost = code === b.charCodeAt(j - 1) ? 0 : 1;
+      const value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost, over);
+      current[j] = value;
+      if (value < rowMin) rowMin = value;
+    }
+    if (to < n) current[to + 1] = over;
+    if (rowMin > max) return over;
+    [previous, current] = [current, previous];
+  }
+  return previous[n];
+};
+
+/**
+ * Edits separating two variants once case, accents, punctuation, spacing and word order are
+ * set aside; 0 means they only differ in formatting.
+ */
+export const variantDistance = (a: string, b: string): number => {
+  const byWords = boundedEditDistance(fingerprint(a), fingerprint(b), Math.max(a.length, b.length));
+  const bySpacing = boundedEditDistance(tokensOf(a).join(''), tokensOf(b).join(''), byWords);
+  return Math.min(byWords, bySpacing);
+};
+
+// --- Clustering ---
+
+const createUnionFind = (size: number) => {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+  return { find, union };
+};
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+// Every string `depth` or fewer deletions away, the value included
+const deletionVariants = (value: string, depth: number): string[] => {
+  const variants = new Set([value]);
+  let frontier = [value];
+  for (let d = 0; d < depth; d++) {
+    const next: string[] = [];
+    frontier.forEach(v => {
+      for (let i = 0; i < v.length; i++) {
+        const shorter = v.slice(0, i) + v.slice(i + 1);
+        if (!variants.has(shorter)) {
+          variants.add(shorter);
+          next.push(shorter);
+        }
+      }
+    });
+    frontier = next;
+  }
+  return Array.from(variants);
+};
+
+/**
+ * Groups of values within `NEIGHBOR_RADIUS` edits of each other (compared lower-cased).
+ * Values whose digits differ are distinct codes ("Room 101", "Room 102") and never linked.
+ * Only values sharing a block are compared. Two strings of at least q·(k + 1) characters
+ * within k edits share one of their first q·k + 1 q-grams in a common rarest-first order;
+ * shorter ones ("gray" / "grey") share a string reached by at most k deletions from each,
+ * so values short enough to be near them are blocked on those instead.
+ */
+const neighborGroups = (values: string[]): number[][] => {
+  const keys = values.map(v => v.toLowerCase().trim());
+  const digits = keys.map(digitsOf);
+  const gramsOf = keys.map(k => {
+    const grams = new Set<string>();
+    for (let i = 0; i + GRAM_SIZE <= k.length; i++) grams.add(k.substring(i, i + GRAM_SIZE));
+    return Array.from(grams);
+  });
+
+  const frequency = new Map<string, number>();
+  gramsOf.forEach(grams => grams.forEach(g => frequency.set(g, (frequency.get(g) || 0) + 1)));
+
+  const prefixLength = GRAM_SIZE * NEIGHBOR_RADIUS + 1;
+  const gramLength = GRAM_SIZE * (NEIGHBOR_RADIUS + 1);
+  const blocks = new Map<string, number[]>();
+  const addTo = (key: string, i: number) => {
+    const block = blocks.get(key);
+    if (block) block.push(i);
+    else blocks.set(key, [i]);
+  };
+  gramsOf.forEach((grams, i) => {
+    const length = keys[i].length;
+    if (length < NEIGHBOR_MIN_LENGTH) return;
+    if (length >= gramLength) {
+      grams
+        .sort((a, b) => frequency.get(a)! - frequency.get(b)! || (a < b ? -1 : 1))
+        .slice(0, prefixLength)
+        .forEach(g => addTo(`g:${g}`, i));
+    }
+    if (length < gramLength + NEIGHBOR_RADIUS) {
+      deletionVariants(keys[i], NEIGHBOR_RADIUS).forEach(v => addTo(`d:${v}`, i));
+    }
+  });
+
+  const { find, union } = createUnionFind(values.length);
+  // Values differing only in case or outer whitespace are zero edits apart
+  const firstWithKey = new Map<string, number>();
+  keys.forEach((key, i) => {
+    const first = firstWithKey.get(key);
+    if (first === undefined) firstWithKey.set(key, i);
+    else union(first, i);
+  });
+
+  blocks.forEach(block => {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) return;
+    for (let x = 0; x < block.length; x++) {
+      for (let y = x + 1; y < block.length; y++) {
+        const a = block[x];
+        const b = block[y];
+        if (find(a) === find(b) || digits[a] !== digits[b]) continue;
+        if (boundedEditDistance(keys[a], keys[b], NEIGHBOR_RADIUS) <= NEIGHBOR_RADIUS) union(a, b);
+      }
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  values.forEach((_, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) group.push(i);
+    else groups.set(root, [i]);
+  });
+  return Array.from(groups.values());
+};
+
+const keyGroups = (values: string[], key: (value: string) => string): number[][] => {
+  const groups = new Map<string, number[]>();
+  values.forEach((v, i) => {
+    const k = key(v);
+    if (!k) return;
+    const group = groups.get(k);
+    if (group) group.push(i);
+    else groups.set(k, [i]);
+  });
+  return Array.from(groups.values());
+};
+
+/**
+ * Clusters distinct values that probably mean the same thing. Key methods group values
+ * with equal keys; nearest neighbour links values a couple of edits apart. Values with
+ * different digits stay apart ("SKU-1011" and "SKU-1101" share every letter pair). Each
+ * cluster suggests its most common member as the canonical value. Largest clusters first.
+ */
+export const clusterCategories = (counts: CategoryCount[], method: ClusterMethod): CategoryCluster[] => {
+  const values = counts.map(c => c.value);
+  const groups = method === 'nearest_neighbor'
+    ? neighborGroups(values)
+    : keyGroups(values, value => {
+        const key = KEYERS[method](value);
+        return key && `${key}\u0000${digitsOf(value)}`;
+      });
+
+  return groups
+    .filter(group => group.length > 1)
+    .map(group => {
+      const members = group
+        .map(i => counts[i])
+        .sort((a, b) => b.count - a.count || (a.value < b.value ? -1 : 1));
+      return {
+        method,
+        canonical: members[0].value,
+        members,
+        count: members.reduce((sum, m) => sum + m.count, 0)
+      };
+    })
+    .sort((a, b) => b.members.length - a.members.length || b.count - a.count);
+};
@@ -0,0 +1,399 @@
+import { DataRow, DatasetStats, AppSettings, CleaningOperation, CastTarget, CellChange, ChangeLog, CleaningRun } from '../types';
+import { normalizeValue } from './dataProcessing';
+import { parseNumber } from './numberParsing';
+import { toISODate } from './dateParsing';
+import { semanticLabel, normalizeSemanticValue } from './semanticTypes';
+import { conditionHolds, describeCondition } from './validationRules';
+import { LOW_CONFIDENCE_THRESHOLD } from './issueConfidence';
+import { imputeRows, imputeFlagColumn, imputeStrategyLabel, GROUPED_STRATEGIES, ORDERED_STRATEGIES } from './imputation';
+import { treatOutlierRows, outlierFlagColumn, describeBounds, DEFAULT_IQR_K, DEFAULT_PERCENTILES } from './outlierTreatment';
+
+// Columns this empty are suggested for dropping
+const DROP_MISSING_SHARE = 0.9;
+
+// Numeric columns emptier than this are left to the user rather than suggested for imputing
+const IMPUTE_MISSING_SHARE = 0.5;
+
+// Outer IQR fence for suggested outlier flags, where the profile calls outliers extreme
+const OUTLIER_FLAG_K = 3;
+
+// Cell changes kept per run; steps past it are still counted
+const MAX_LOGGED_CHANGES = 200000;
+
+export const createOperationId = () => `op-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const CAST_LABELS: Record<CastTarget, string> = { number: 'number', date: 'ISO date', boolean: 'true/false', text: 'text' };
+
+// --- Describing Operations ---
+
+export const describeOperation = (op: CleaningOperation): string => {
+  switch (op.kind) {
+    case 'normalize_missing': return 'Trim text and turn blank tokens (N/A, null, -) into empty cells';
+    case 'dedupe_rows': return 'Remove exact duplicate rows';
+    case 'rename_column': return `Rename ${op.column} to ${op.newName}`;
+    case 'drop_column': return `Drop ${op.column}`;
+    case 'cast':
+      return `Convert ${op.column} to ${CAST_LABELS[op.to]}${op.keepInvalid ? ', keeping unreadable values' : ', emptying unreadable values'}`;
+    case 'standardize_format': return `Standardize ${op.column} as ${semanticLabel(op.format)}`;
+    case 'trim': return `Trim whitespace in ${op.column}`;
+    case 'change_case': return `Change ${op.column} to ${op.letterCase === 'title' ? 'Title Case' : `${op.letterCase}case`}`;
+    case 'replace': return `Replace ${op.regex ? `/${op.find}/` : `'${op.find}'`} with '${op.replaceWith}' in ${op.column}`;
+    case 'map_values': {
+      const entries = Object.entries(op.mapping);
+      const shown = entries.slice(0, 3).map(([from, to]) => `${from} → ${to}`).join(', ');
+      return `Map ${entries.length} value${entries.length === 1 ? '' : 's'} in ${op.column}: ${shown}${entries.length > 3 ? ', …' : ''}`;
+    }
+    case 'fill_missing': return `Fill empty ${op.column} with '${op.value}'`;
+    case 'impute': {
+      const how = op.strategy === 'constant' ? `'${op.value ?? ''}'`
+        : op.strategy === 'nearest_neighbor' ? `the ${op.neighbors || 'nearest'} nearest rows`
+        : `${imputeStrategyLabel(op.strategy).toLowerCase()}`;
+      const scope = op.groupBy && GROUPED_STRATEGIES.includes(op.strategy) ? ` per ${op.groupBy}`
+        : op.sortBy && ORDERED_STRATEGIES.includes(op.strategy) ? ` ordered by ${op.sortBy}` : '';
+      return `Impute empty ${op.column} by ${how}${scope}${op.indicator ? `, flagged in ${imputeFlagColumn(op.column)}` : ''}`;
+    }
+    case 'treat_outliers': {
+      const outside = `${op.column} outside ${describeBounds(op)}`;
+      if (op.treatment === 'flag') return `Flag ${outside} in ${outlierFlagColumn(op.column)}`;
+      if (op.treatment === 'null') return `Empty ${outside}`;
+      return `${op.treatment === 'cap' ? 'Cap' : 'Winsorize'} ${outside}`;
+    }
+    case 'filter_rows': return `${op.keep ? 'Keep only' : 'Remove'} rows where ${describeCondition(op.condition)}`;
+    case 'split_column': return `Split ${op.column} on '${op.separator}' into ${op.into.join(', ')}`;
+  }
+};
+
+/** Returns why an operation can't run (no column, bad regex...), or null when it's usable. */
+export const operationProblem = (op: CleaningOperation): string | null => {
+  if ('column' in op && !op.column) return 'Pick a column';
+  if (op.kind === 'rename_column' && !op.newName.trim()) return 'Enter the new name';
+  if (op.kind === 'replace' && !op.find) return 'Enter the text to find';
+  if (op.kind === 'replace' && op.regex) {
+    try {
+      new RegExp(op.find, 'g');
+    } catch {
+      return 'Invalid regular expression';
+    }
+  }
+  if (op.kind === 'map_values' && Object.keys(op.mapping).length === 0) return 'Map at least one value';
+  if (op.kind === 'impute' && op.strategy === 'constant' && !op.value) return 'Enter the fill value';
+  if (op.kind === 'impute' && (op.groupBy === op.column || op.sortBy === op.column)) return 'Group or sort by another column';
+  if (op.kind === 'treat_outliers' && op.bounds === 'iqr' && !((op.k ?? DEFAULT_IQR_K) > 0)) return 'Enter a positive IQR multiplier';
+  if (op.kind === 'treat_outliers' && op.bounds === 'percentile' && !((op.lowerPercentile ?? DEFAULT_PERCENTILES[0]) < (op.upperPercentile ?? DEFAULT_PERCENTILES[1]))) {
+    return 'The lower percentile must be below the upper one';
+  }
+  if (op.kind === 'filter_rows' && !op.condition.column) return 'Pick a column for the condition';
+  if (op.kind === 'split_column' && !op.separator) return 'Enter a separator';
+  if (op.kind === 'split_column' && op.into.filter(Boolean).length < 2) return 'Name at least two new columns';
+  return null;
+};
+
+// --- Running ---
+
+const mapColumn = (rows: DataRow[], column: string, fn: (value: any) => any): DataRow[] => {
+  if (rows.length === 0 || !(column in rows[0])) return rows;
+  return rows.map(row => ({ ...row, [column]: fn(row[column]) }));
+};
+
+const onText = (fn: (text: string) => string) => (value: any) => (value === null || value === undefined ? value : fn(String(value)));
+
+const castValue = (op: Extract<CleaningOperation, { kind: 'cast' }>) => (value: any) => {
+  const v = normalizeValue(value);
+  if (v === null) return null;
+  let cast: any = null;
+  if (op.to === 'number') cast = parseNumber(v, op.decimalSeparator)?.value ?? null;
+  else if (op.to === 'date') cast = op.dateFormat ? toISODate(v, op.dateFormat) : null;
+  else if (op.to === 'boolean') cast = /^(true|yes|y|1)$/i.test(String(v)) ? true : /^(false|no|n|0)$/i.test(String(v)) ? false : null;
+  else cast = String(v);
+  return cast ?? (op.keepInvalid ? v : null);
+};
+
+const toTitleCase = (text: string) => text.toLowerCase().replace(/(^|[\s\-'/])(\p{L})/gu, (_, sep, ch) => sep + ch.toUpperCase());
+
+/** Rebuilds each row with its columns in a new order (renames and inserted columns keep their place). */
+const reshapeRows = (rows: DataRow[], reshape: (row: DataRow) => [string, any][]): DataRow[] =>
+  rows.map(row => Object.fromEntries(reshape(row)));
+
+/** Applies one operation to every row. Rows are never mutated. */
+export const applyOperation = (rows: DataRow[], op: CleaningOperation): DataRow[] => {
+  switch (op.kind) {
+    case 'normalize_missing':
+      return rows.map(row => {
+        const normalized: DataRow = {};
+        Object.keys(row).forEach(key => { normalized[key] = normalizeValue(row[key]); });
+        return normalized;
+      });
+    case 'dedupe_rows': {
+      const seen = new Set<string>();
+      return rows.filter(row => {
+        const key = JSON.stringify(row);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+    case 'rename_column':
+      if (rows.length === 0 || !(op.column in rows[0]) || op.column === op.newName) return rows;
+      return reshapeRows(rows, row => Object.entries(row).filter(([key]) => key !== op.newName).map(([key, value]) => [key === op.column ? op.newName : key, value]));
+    case 'drop_column':
+      if (rows.length === 0 || !(op.column in rows[0])) return rows;
+      return rows.map(row => {
+        const { [op.column]: _dropped, ...rest } = row;
+        return rest;
+      });
+    case 'cast':
+      return mapColumn(rows, op.column, castValue(op));
+    case 'standardize_format':
+      return mapColumn(rows, op.column, value => normalizeSemanticValue(op.format, value));
+    case 'trim':
+      return mapColumn(rows, op.column, onText(text => text.trim()));
+    case 'change_case':
+      return mapColumn(rows, op.column, onText(text =>
+        op.letterCase === 'lower' ? text.toLowerCase() : op.letterCase === 'upper' ? text.toUpperCase() : toTitleCase(text)));
+    case 'replace': {
+      const pattern = op.regex ? new RegExp(op.find, 'g') : null;
+      return mapColumn(rows, op.column, onText(text => (pattern ? text.replace(pattern, op.replaceWith) : text.split(op.find).join(op.replaceWith))));
+    }
+    case 'map_values': {
+      // Keys are profiled values, which are trimmed
+      const mapping = new Map(Object.entries(op.mapping));
+      return mapColumn(rows, op.column, value =>
+        value === null || value === undefined ? value : mapping.get(String(value)) ?? mapping.get(String(value).trim()) ?? value);
+    }
+    case 'fill_missing':
+      return mapColumn(rows, op.column, value => (normalizeValue(value) === null ? op.value : value));
+    case 'impute':
+      return imputeRows(rows, op);
+    case 'treat_outliers':
+      return treatOutlierRows(rows, op);
+    case 'filter_rows':
+      return rows.filter(row => conditionHolds(op.condition, column => normalizeValue(row[column])) === op.keep);
+    case 'split_column': {
+      if (rows.length === 0 || !(op.column in rows[0])) return rows;
+      const into = op.into.filter(Boolean);
+      return reshapeRows(rows, row => Object.entries(row).flatMap(([key, value]): [string, any][] => {
+        if (into.includes(key) && key !== op.column) return [];
+        if (key !== op.column) return [[key, value]];
+        const parts = value === null || value === undefined ? [] : String(value).split(op.separator);
+        const split = into.map((name, i): [string, any] => {
+          const part = i === into.length - 1 ? parts.slice(i).join(op.separator) : parts[i];
+          return [name, part === undefined || part.trim() === '' ? null : part.trim()];
+        });
+        return [[key, value], ...split];
+      }));
+    }
+  }
+};
+
+/** Runs the enabled, usable steps of a recipe in order. */
+export const runRecipe = (rows: DataRow[], recipe: CleaningOperation[]): DataRow[] =>
+  recipe.filter(op => op.enabled && !operationProblem(op)).reduce(applyOperation, rows);
+
+/** Column names after the recipe's renames, drops and splits, for picking later steps' columns. */
+export const recipeColumns = (columns: string[], recipe: CleaningOperation[]): string[] =>
+  recipe.filter(op => op.enabled && !operationProblem(op)).reduce((names, op) => {
+    if (op.kind === 'rename_column' && names.includes(op.column)) return names.filter(n => n !== op.newName).map(n => (n === op.column ? op.newName : n));
+    if (op.kind === 'drop_column') return names.filter(n => n !== op.column);
+    if (op.kind === 'impute' && op.indicator && names.includes(op.column)) {
+      const flag = imputeFlagColumn(op.column);
+      return names.filter(n => n !== flag).flatMap(n => (n === op.column ? [n, flag] : [n]));
+    }
+    if (op.kind === 'treat_outliers' && op.treatment === 'flag' && names.includes(op.column)) {
+      const flag = outlierFlagColumn(op.column);
+      return names.filter(n => n !== flag).flatMap(n => (n === op.column ? [n, flag] : [n]));
+    }
+    if (op.kind === 'split_column' && names.includes(op.column)) {
+      const into = op.into.filter(Boolean);
+      return names.filter(n => !into.includes(n) || n === op.column).flatMap(n => (n === op.column ? [n, ...into.filter(i => i !== n)] : [n]));
+    }
+    return names;
+  }, columns);
+
+// --- Change Log ---
+
+/** Starts a logged run over `rows`, numbered by their position in `source` when they were filtered from it. */
+export const startCleaningRun = (rows: DataRow[], source: DataRow[] = rows): CleaningRun => {
+  const index = rows === source ? null : new Map(source.map((row, i) => [row, i]));
+  return {
+    rows,
+    rowNumbers: rows.map((row, i) => (index?.get(row) ?? i) + 1),
+    log: { steps: [], changes: [], truncated: false }
+  };
+};
+
+const asCell = (value: any): string => (value === null || value === undefined ? '' : String(value));
+
+const addStep = (log: ChangeLog, stepId: string, description: string, rowsRemoved: number[], found: CellChange[]): ChangeLog => {
+  const room = Math.max(0, MAX_LOGGED_CHANGES - log.changes.length);
+  return {
+    steps: [...log.steps, { stepId, description, cellsChanged: found.length, rowsRemoved }],
+    changes: found.length > 0 ? log.changes.concat(found.slice(0, room)) : log.changes,
+    truncated: log.truncated || found.length > room
+  };
+};
+
+/** Narrows a run to `kept`, rows picked from it in order, and logs the rest as removed by the step. */
+export const keepRows = (run: CleaningRun, kept: DataRow[], stepId: string, description: string): CleaningRun => {
+  const rowNumbers: number[] = [];
+  const removed: number[] = [];
+  let k = 0;
+  run.rows.forEach((row, i) => {
+    if (k < kept.length && kept[k] === row) {
+      rowNumbers.push(run.rowNumbers[i]);
+      k++;
+    } else {
+      removed.push(run.rowNumbers[i]);
+    }
+  });
+  return { rows: kept, rowNumbers, log: addStep(run.log, stepId, description, removed, []) };
+};
+
+// Columns whose cells a step can change; renames and drops only change the schema
+const changedColumns = (op: CleaningOperation, columns: string[]): string[] => {
+  switch (op.kind) {
+    case 'normalize_missing': return columns;
+    case 'dedupe_rows':
+    case 'filter_rows':
+    case 'rename_column':
+    case 'drop_column': return [];
+    case 'split_column': return op.into.filter(name => name && name !== op.column);
+    case 'treat_outliers': return op.treatment === 'flag' ? [outlierFlagColumn(op.column)] : [op.column];
+    default: return [op.column];
+  }
+};
+
+// Flag columns log the rows they flag, not every row they're added to
+const isLoggedChange = (op: CleaningOperation, after: any) =>
+  op.kind !== 'treat_outliers' || op.treatment !== 'flag' || after === true;
+
+/** Applies one operation to a run and logs every cell whose CSV text it changed. */
+export const applyLoggedOperation = (run: CleaningRun, op: CleaningOperation): CleaningRun => {
+  const rows = applyOperation(run.rows, op);
+  // Row filters pass through the row objects they keep
+  if (rows.length !== run.rows.length) return keepRows(run, rows, op.id, describeOperation(op));
+
+  const found: CellChange[] = [];
+  const columns = rows === run.rows || rows.length === 0 ? [] : changedColumns(op, Object.keys(run.rows[0]));
+  rows.forEach((row, i) => {
+    const before = run.rows[i];
+    columns.forEach(column => {
+      if (asCell(before[column]) !== asCell(row[column]) && isLoggedChange(op, row[column])) {
+        found.push({ stepId: op.id, row: run.rowNumbers[i], column, before: before[column] ?? null, after: row[column] ?? null });
+      }
+    });
+  });
+  return { rows, rowNumbers: run.rowNumbers, log: addStep(run.log, op.id, describeOperation(op), [], found) };
+};
+
+/** runRecipe with a change log: each enabled, usable step is logged in order. */
+export const runLoggedRecipe = (run: CleaningRun, recipe: CleaningOperation[]): CleaningRun =>
+  recipe.filter(op => op.enabled && !operationProblem(op)).reduce(applyLoggedOperation, run);
+
+/** The change log as CSV rows, in step order: removed rows (with no column) and changed cells. */
+export const changeLogRows = (log: ChangeLog): DataRow[] => {
+  const steps = new Map(log.steps.map((s, i) => [s.stepId, { step: i + 1, operation: s.description }]));
+  const removed = log.steps.flatMap((s, i) =>
+    s.rowsRemoved.map(row => ({ step: i + 1, operation: s.description, row, column: '', old_value: '', new_value: '(row removed)' })));
+  const changed = log.changes.map(c => ({ ...steps.get(c.stepId), row: c.row, column: c.column, old_value: asCell(c.before), new_value: asCell(c.after) }));
+  return [...removed, ...changed].sort((a, b) => (a.step || 0) - (b.step || 0) || a.row - b.row);
+};
+
+// --- Building Recipes ---
+
+// Distributes over the union so each kind keeps its own fields
+type OperationFields<T = CleaningOperation> = T extends CleaningOperation ? Omit<T, 'id' | 'enabled'> : never;
+
+const step = (op: OperationFields): CleaningOperation => ({ ...op, id: createOperationId(), enabled: true } as CleaningOperation);
+
+/**
+ * The classic auto-clean as a recipe: blank tokens emptied, exact duplicates removed, each
+ * column put in its canonical form and empty text filled with "Unknown". Strict mode never
+ * imputes or coerces: blanks stay blank and values that don't fit their type are kept.
+ */
+export const defaultRecipe = (stats: DatasetStats, settings: AppSettings): CleaningOperation[] => {
+  const strict = settings.strictMode;
+  const ops: CleaningOperation[] = [step({ kind: 'normalize_missing' }), step({ kind: 'dedupe_rows' })];
+
+  stats.columns.forEach(col => {
+    if (col.semanticType) {
+      // Codes stay text even in number columns
+      ops.push(step({ kind: 'standardize_format', column: col.name, format: col.semanticType }));
+    } else if (col.inferredType === 'number') {
+      ops.push(step({ kind: 'cast', column: col.name, to: 'number', keepInvalid: strict, decimalSeparator: col.numberFormat?.decimalSeparator }));
+    } else if (col.inferredType === 'date' && col.dateFormat) {
+      ops.push(step({ kind: 'cast', column: col.name, to: 'date', keepInvalid: strict, dateFormat: col.dateFormat }));
+    }
+  });
+
+  if (!strict) {
+    stats.columns
+      .filter(col => col.inferredType === 'string' && col.missingCount > 0)
+      .forEach(col => ops.push(step({ kind: 'fill_missing', column: col.name, value: 'Unknown' })));
+  }
+  return ops;
+};
+
+export interface OperationSuggestion {
+  operation: CleaningOperation;
+  reason: string;
+}
+
+const sameTarget = (a: CleaningOperation, b: CleaningOperation) =>
+  a.kind === b.kind && ('column' in a ? a.column : '') === ('column' in b ? b.column : '');
+
+/**
+ * Steps the profile's issues call for beyond the default recipe: confident value clusters
+ * merged into their canonical spelling, gaps in number columns filled with the median, extreme
+ * outliers flagged for review, duplicate and nearly empty columns dropped. Steps
+ * already in `recipe` aren't suggested again.
+ */
+export const suggestOperations = (stats: DatasetStats, recipe: CleaningOperation[]): OperationSuggestion[] => {
+  const suggestions: OperationSuggestion[] = [];
+
+  stats.columns.forEach(col => {
+    const mapping: Record<string, string> = {};
+    let merged = 0;
+    col.clusters?.forEach(cluster => {
+      if (cluster.confidence === undefined || cluster.confidence < LOW_CONFIDENCE_THRESHOLD) return;
+      cluster.members.forEach(m => {
+        if (m.value === cluster.canonical || m.value in mapping) return;
+        mapping[m.value] = cluster.canonical;
+        merged += m.count;
+      });
+    });
+    if (merged > 0) {
+      suggestions.push({
+        operation: step({ kind: 'map_values', column: col.name, mapping }),
+        reason: `${merged.toLocaleString()} cells are variants of a more common spelling`
+      });
+    }
+
+    const missingShare = stats.rowCount > 0 ? col.missingCount / stats.rowCount : 0;
+    if (col.inferredType === 'number' && !col.semanticType && missingShare > 0 && missingShare < IMPUTE_MISSING_SHARE) {
+      suggestions.push({
+        operation: step({ kind: 'impute', column: col.name, strategy: 'median', indicator: true, decimalSeparator: col.numberFormat?.decimalSeparator }),
+        reason: `${col.missingCount.toLocaleString()} values are missing; the median isn't pulled by outliers`
+      });
+    }
+
+    const extreme = col.issues.find(i => i.type === 'outlier' && !i.isAnomaly);
+    if (extreme && col.inferredType === 'number' && !col.semanticType) {
+      suggestions.push({
+        operation: step({ kind: 'treat_outliers', column: col.name, treatment: 'flag', bounds: 'iqr', k: OUTLIER_FLAG_K, decimalSeparator: col.numberFormat?.decimalSeparator }),
+        reason: `${extreme.description}; flagged for review rather than changed`
+      });
+    }
+
+    const duplicate = col.issues.find(i => i.type === 'redundant_column' && i.description.startsWith('Duplicate of'));
+    if (duplicate) {
+      suggestions.push({ operation: step({ kind: 'drop_column', column: col.name }), reason: duplicate.description });
+    } else if (missingShare >= DROP_MISSING_SHARE) {
+      suggestions.push({
+        operation: step({ kind: 'drop_column', column: col.name }),
+        reason: `${(missingShare * 100).toFixed(0)}% of values are missing`
+      });
+    }
+  });
+
+  return suggestions.filter(s => !recipe.some(op => sameTarget(op, s.operation)));
+};
@@ -0,0 +1,223 @@
+import Papa from 'papaparse';
+import { DataRow, CsvImportOptions, CsvPreview } from '../types';
+
+export const DEFAULT_CSV_OPTIONS: CsvImportOptions = {
+  encoding: 'utf-8',
+  delimiter: '',
+  quoteChar: '"',
+  skipRows: 0,
+  hasHeader: true
+};
+
+export const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+export const ENCODING_OPTIONS = ['utf-8', 'windows-1252', 'iso-8859-1', 'utf-16le', 'utf-16be'];
+
+const SAMPLE_BYTES = 64 * 1024;
+const SNIFF_ROWS = 50;
+
+// --- Sampling ---
+
+const readSample = async (file: File): Promise<Uint8Array> => {
+  const buffer = await file.slice(0, SAMPLE_BYTES).arrayBuffer();
+  return new Uint8Array(buffer);
+};
+
+const decodeSample = (bytes: Uint8Array, encoding: string): string => {
+  try {
+    // stream: true so a multi-byte character cut at the sample boundary is not garbled
+    return new TextDecoder(encoding).decode(bytes, { stream: true });
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes, { stream: true });
+  }
+};
+
+const splitRows = (text: string, options: Pick<CsvImportOptions, 'delimiter' | 'quoteChar'>, limit: number): string[][] => {
+  const result = Papa.parse(text, {
+    delimiter: options.delimiter,
+    quoteChar: options.quoteChar,
+    skipEmptyLines: true,
+    preview: limit
+  });
+  return result.data as string[][];
+};
+
+// --- Detection ---
+
+/**
+ * BOMs win; otherwise the sample must decode as strict UTF-8 or we assume Windows-1252,
+ * the usual encoding of Excel "CSV" exports on Western-locale Windows.
+ */
+export const detectEncoding = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+/** Prefers the quote character that actually opens fields; falls back to the RFC 4180 double quote. */
+export const detectQuoteChar = (text: string): string => {
+  const doubles = (text.match(/(^|[,;\t|])\s*"/gm) || []).length;
+  const singles = (text.match(/(^|[,;\t|])\s*'/gm) || []).length;
+  return singles > doubles ? "'" : '"';
+};
+
+const modeOf = (values: number[]): number => {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let best = 0, bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount || (count === bestCount && value > best)) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Picks the candidate that splits the most rows into the same number of fields.
+ * Ties go to the delimiter producing more columns (a "1.234,56" value should not make
+ * the comma win on a semicolon file).
+ */
+export const detectDelimiter = (text: string, quoteChar: string): string => {
+  let best = ',', bestScore = -1, bestWidth = 0;
+
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const widths = splitRows(text, { delimiter, quoteChar }, SNIFF_ROWS).map(r => r.length);
+    if (widths.length === 0) return;
+    const width = modeOf(widths);
+    if (width < 2) return;
+
+    const consistency = widths.filter(w => w === width).length / widths.length;
+    if (consistency > bestScore || (consistency === bestScore && width > bestWidth)) {
+      best = delimiter;
+      bestScore = consistency;
+      bestWidth = width;
+    }
+  });
+
+  return best;
+};
+
+const NUMBER_LIKE = /^[-+(]?[$€£]?\s*[\d.,\s]+%?\)?$/;
+const DATE_LIKE = /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/;
+
+const isDataLike = (value: string) => NUMBER_LIKE.test(value) || DATE_LIKE.test(value);
+
+const nonEmptyCount = (row: string[]) => row.filter(v => v.trim() !== '').length;
+
+/**
+ * Finds the first row that is as wide as the table (title banners are narrower),
+ * then votes per column on whether it is a header: text over numeric data, or text
+ * that never reappears below it, counts as header evidence.
+ */
+export const detectHeaderRow = (rows: string[][]): { skipRows: number; hasHeader: boolean } => {
+  if (rows.length === 0) return { skipRows: 0, hasHeader: true };
+
+  const width = modeOf(rows.map(nonEmptyCount));
+  const minFilled = Math.max(1, Math.ceil(width * 0.5));
+  const start = Math.max(0, rows.findIndex(r => nonEmptyCount(r) >= minFilled));
+
+  const candidate = rows[start].map(v => v.trim());
+  const body = rows.slice(start + 1, start + 21);
+  if (body.length === 0) return { skipRows: start, hasHeader: true };
+
+  let score = 0;
+  candidate.forEach((value, col) => {
+    const columnValues = body.map(r => (r[col] || '').trim()).filter(v => v !== '');
+    if (value === '' || isDataLike(value)) {
+      score -= 1;
+      return;
+    }
+    if (columnValues.includes(value)) {
+      score -= 1;
+      return;
+    }
+    const dataRatio = columnValues.length > 0 ? columnValues.filter(isDataLike).length / columnValues.length : 0;
+    score += dataRatio > 0.5 ? 1 : 0.5;
+  });
+
+  // Repeated labels in the candidate row are unusual for a header
+  if (new Set(candidate.filter(v => v !== '')).size < nonEmptyCount(candidate)) score -= 1;
+
+  return { skipRows: start, hasHeader: score > 0 };
+};
+
+export const sniffCSV = async (file: File): Promise<CsvImportOptions> => {
+  const bytes = await readSample(file);
+  const encoding = detectEncoding(bytes);
+  const text = decodeSample(bytes, encoding);
+  const quoteChar = detectQuoteChar(text);
+  const delimiter = detectDelimiter(text, quoteChar);
+  const { skipRows, hasHeader } = detectHeaderRow(splitRows(text, { delimiter, quoteChar }, SNIFF_ROWS));
+
+  return { encoding, delimiter, quoteChar, skipRows, hasHeader };
+};
+
+// --- Row Mapping ---
+
+const buildHeaders = (fields: string[]): string[] => {
+  const seen: Record<string, number> = {};
+  return fields.map((field, i) => {
+    const name = String(field ?? '').trim() || `Column ${i + 1}`;
+    seen[name] = (seen[name] || 0) + 1;
+    return seen[name] === 1 ? name : `${name}_${seen[name]}`;
+  });
+};
+
+/**
+ * Turns Papa's array rows into DataRow objects, applying skipRows and the header choice.
+ * Stateful so it can be fed chunk after chunk while streaming.
+ */
+export const createRowMapper = (options: CsvImportOptions) => {
+  let skipped = 0;
+  let headers: string[] | null = null;
+
+  const map = (rows: string[][]): DataRow[] => {
+    const mapped: DataRow[] = [];
+    for (const fields of rows) {
+      if (skipped < options.skipRows) {
+        skipped++;
+        continue;
+      }
+      if (!headers) {
+        if (options.hasHeader) {
+          headers = buildHeaders(fields);
+          continue;
+        }
+        headers = fields.map((_, i) => `Column ${i + 1}`);
+      }
+
+      const row: DataRow = {};
+      headers.forEach((h, i) => { row[h] = fields[i] ?? ''; });
+      mapped.push(row);
+    }
+    return mapped;
+  };
+
+  return { map, headers: () => headers || [] };
+};
+
+/** Papa config shared by the full parse and the preview so both split the file identically. */
+export const papaConfigFor = (options: CsvImportOptions) => ({
+  encoding: options.encoding,
+  delimiter: options.delimiter,
+  quoteChar: options.quoteChar,
+  header: false,
+  skipEmptyLines: true,
+  dynamicTyping: false
+});
+
+export const previewCSV = async (file: File, options: CsvImportOptions, limit: number = 10): Promise<CsvPreview> => {
+  const text = decodeSample(await readSample(file), options.encoding);
+  const rawRows = splitRows(text, options, options.skipRows + limit + 1);
+  const mapper = createRowMapper(options);
+  const rows = mapper.map(rawRows).slice(0, limit);
+  return { rawRows, headers: mapper.headers(), rows };
+};
@@ -1,5 +1,20 @@
-import { DataRow, DatasetStats, ColumnProfile, ColumnIssue, ColumnType, AppSettings } from '../types';
+import { DataRow, DatasetStats, ColumnProfile, ColumnIssue, CategoryCluster, ClusterMethod, ColumnType, AppSettings, CleaningResult, ValidationRule, CsvImportOptions, DecimalSeparator, NumberFormatInfo, DateOrder, DateFormatInfo, SemanticType, AnalysisOptions, NumericStats, LengthStats, ValuePattern } from '../types';
 import Papa from 'papaparse';
+import {
+  hashString, QuantileSketch, createQuantileSketch, addToSketch, mergeSketches, viewSketch,
+  DistinctCounter, createDistinctCounter, addToDistinctCounter, mergeDistinctCounters, distinctCount,
+  RunningMoments, createMoments, addToMoments, mergeMoments,
+  ExtremeValues, createExtremes, addToExtremes, mergeExtremes
+} from './streamingStats';
+import { DEFAULT_CSV_OPTIONS, createRowMapper, papaConfigFor } from './csvImport';
+import { parseNumber, detectDecimalSeparators } from './numberParsing';
+import { RuleTracker, createRuleTrackers, trackRow, mergeRuleTrackers, ruleIssue, describeRule } from './validationRules';
+import { SEMANTIC_DETECTORS, semanticLabel, isValidSemanticValue, matchesNameHint } from './semanticTypes';
+import { findColumnOutliers } from './outlierDetection';
+import { CLUSTER_METHODS, clusterCategories, variantDistance } from './categoryClustering';
+import { calculateNumericStats, valuePattern, topPatterns } from './distributionProfile';
+import { LOW_CONFIDENCE_THRESHOLD, withConfidence, typeConfidence, typoConfidence, scoreIssues } from './issueConfidence';
+import { DateShape, DateMatch, matchDate, toCalendarDate, isTemporalName, detectNumericDateKind, describeDateShape, toISODate } from './dateParsing';
 
 // --- Normalization Helpers ---
 
@@ -13,7 +28,7 @@ const MISSING_TOKENS = new Set([
  * 2. Checks case-insensitive missing tokens.
  * 3. Returns null if missing token, otherwise trimmed value (or original).
  */
-const normalizeValue = (val: any): any => {
+export const normalizeValue = (val: any): any => {
   if (val === null || val === undefined) return null;
   
   if (typeof val === 'string') {
@@ -27,27 +42,7 @@ const normalizeValue = (val: any): any => {
 
 // --- Statistics Helpers ---
 
-const calculateNumericStats = (values: number[]) => {
-  if (values.length === 0) return undefined;
-  
-  values.sort((a, b) => a - b);
-  const min = values[0];
-  const max = values[values.length - 1];
-  const sum = values.reduce((a, b) => a + b, 0);
-  const mean = sum / values.length;
-  
-  // Median
-  const mid = Math.floor(values.length / 2);
-  const median = values.length % 2 !== 0 ? values[mid] : (values[mid - 1] + values[mid]) / 2;
-  
-  // Std Dev
-  const variance = values.reduce((acc, val) => acc + Math.pow(val - mean, 2), 0) / values.length;
-  const stdDev = Math.sqrt(variance);
-
-  return { min, max, mean, median, stdDev };
-};
-
-const levenshteinDistance = (a: string, b: string): number => {
+export const levenshteinDistance = (a: string, b: string): number => {
   const matrix = [];
   for (let i = 0; i <= b.length; i++) matrix[i] = [i];
   for (let j = 0; j <= a.length; j++) matrix[0][j] = j;
@@ -67,93 +62,476 @@ const levenshteinDistance = (a: string, b: string): number => {
   return matrix[b.length][a.length];
 };
 
-// --- Type Inference & Validation ---
+// --- Single-Pass Profiling ---
+
+// Distinct values tracked per column for category stats; beyond this the column is
+// high-cardinality and top categories are computed from the values seen first.
+const CATEGORY_TRACKING_LIMIT = 10000;
+// Same idea for value patterns; free text yields a pattern per value and stops being tracked
+const PATTERN_TRACKING_LIMIT = 1000;
+const EXAMPLE_LIMIT = 3;
+
+// Day/month evidence for values that look like dates
+interface DateTally {
+  shapes: Map<DateShape, number>;
+  dmyOnly: number; // Numeric dates only valid as DD/MM ("31/01/2024")
+  mdyOnly: number; // ... only valid as MM/DD ("01/31/2024")
+  ambiguous: number; // ... valid either way ("03/04/2024")
+  dmyExample?: string;
+  mdyExample?: string;
+  ambiguousExamples: string[];
+  invalidCount: number; // Date-shaped but impossible under both orders ("2024-02-30")
+  invalidExamples: string[];
+  timeCount: number;
+}
+
+// Per-detector validation counts, aligned with SEMANTIC_DETECTORS
+interface SemanticTally {
+  tested: number;
+  valid: number;
+  generic: number;
+  invalidExamples: string[];
+  active: boolean; // Dropped once the column clearly isn't this format
+}
+
+interface ColumnAccumulator {
+  name: string;
+  decimal: DecimalSeparator;
+  missingCount: number;
+  definedCount: number;
+  numCount: number;
+  dateCount: number;
+  boolCount: number;
+  nonNumberCount: number;
+  nonNumberExamples: string[];
+  nonDateCount: number;
+  nonDateExamples: string[];
+  dates: DateTally;
+  nonIntegerCount: number;
+  zeroCount: number;
+  negativeCount: number;
+  semantic: SemanticTally[];
+  moments: RunningMoments;
+  sketch: QuantileSketch;
+  extremes: ExtremeValues;
+  distinct: DistinctCounter;
+  counts: Map<string, number>;
+  currencies: Map<string, number>;
+  units: Map<string, number>;
+  lengths: RunningMoments;
+  patterns: Map<string, number>;
+}
 
-const isDate = (val: any): boolean => {
-  if (!val) return false;
-  const d = new Date(val);
-  // Must be valid date AND look like a date string (avoid short numbers/strings)
-  // Also check reasonable bounds (e.g. year 1000 to 3000) to avoid noise
-  if (isNaN(d.getTime())) return false;
-  
-  // Simple check: if it parses as a date, is the year reasonable?
-  const year = d.getFullYear();
-  if (year < 1900 || year > 2100) return false;
+/**
+ * Mergeable profile state for a whole dataset. Built chunk by chunk (in the analysis worker
+ * or in one go by analyzeDataset) and turned into DatasetStats by finalizeDatasetStats.
+ */
+export interface DatasetAccumulator {
+  headers: string[];
+  rowCount: number;
+  rowHashes: Set<number>;
+  columns: ColumnAccumulator[];
+  rules: RuleTracker[];
+}
+
+const createColumnAccumulator = (name: string, decimal: DecimalSeparator): ColumnAccumulator => ({
+  name,
+  decimal,
+  missingCount: 0,
+  definedCount: 0,
+  numCount: 0,
+  dateCount: 0,
+  boolCount: 0,
+  nonNumberCount: 0,
+  nonNumberExamples: [],
+  nonDateCount: 0,
+  nonDateExamples: [],
+  dates: {
+    shapes: new Map(), dmyOnly: 0, mdyOnly: 0, ambiguous: 0, ambiguousExamples: [],
+    invalidCount: 0, invalidExamples: [], timeCount: 0
+  },
+  nonIntegerCount: 0,
+  zeroCount: 0,
+  negativeCount: 0,
+  semantic: SEMANTIC_DETECTORS.map(() => ({ tested: 0, valid: 0, generic: 0, invalidExamples: [], active: true })),
+  moments: createMoments(),
+  sketch: createQuantileSketch(),
+  extremes: createExtremes(),
+  distinct: createDistinctCounter(),
+  counts: new Map(),
+  currencies: new Map(),
+  units: new Map(),
+  lengths: createMoments(),
+  patterns: new Map()
+});
 
-  return String(val).length > 5 && !/^-?\d+(\.\d+)?$/.test(String(val));
+/**
+ * Decimal separators are fixed per column up front (see detectDecimalSeparators) so every
+ * chunk parses numbers the same way.
+ */
+export const createDatasetAccumulator = (
+  headers: string[],
+  decimals: DecimalSeparator[] = [],
+  options: AnalysisOptions = {}
+): DatasetAccumulator => ({
+  headers,
+  rowCount: 0,
+  rowHashes: new Set(),
+  columns: headers.map((h, i) => createColumnAccumulator(h, decimals[i] || '.')),
+  rules: createRuleTrackers(options.rules || [], column => decimals[headers.indexOf(column)] || '.')
+});
+
+/** Starts an accumulator whose number formats are detected from (a sample of) the given rows. */
+export const createDatasetAccumulatorFor = (
+  headers: string[],
+  sampleRows: DataRow[],
+  settings: AppSettings,
+  options: AnalysisOptions = {}
+): DatasetAccumulator =>
+  createDatasetAccumulator(headers, detectDecimalSeparators(headers, sampleRows, settings.numberLocale), options);
+
+const bump = <K>(map: Map<K, number>, key: K, n = 1) => map.set(key, (map.get(key) || 0) + n);
+
+const tallyDate = (tally: DateTally, s: string, match: DateMatch) => {
+  bump(tally.shapes, match.shape);
+  if (match.time) tally.timeCount++;
+
+  const asDmy = toCalendarDate(match, 'dmy');
+  const asMdy = toCalendarDate(match, 'mdy');
+  if (!asDmy && !asMdy) {
+    tally.invalidCount++;
+    if (tally.invalidExamples.length < EXAMPLE_LIMIT) tally.invalidExamples.push(s);
+  } else if (match.shape === 'numeric') {
+    if (asDmy && !asMdy) {
+      tally.dmyOnly++;
+      tally.dmyExample ??= s;
+    } else if (asMdy && !asDmy) {
+      tally.mdyOnly++;
+      tally.mdyExample ??= s;
+    } else {
+      tally.ambiguous++;
+      if (tally.ambiguousExamples.length < EXAMPLE_LIMIT) tally.ambiguousExamples.push(s);
+    }
+  }
 };
 
-const isNumber = (val: any): boolean => {
-  if (val === null || val === undefined || val === '') return false;
-  // Handle currency symbols or commas if simple
-  const clean = String(val).replace(/,/g, '').replace('$', '').replace('€', '');
-  return !isNaN(Number(clean)) && clean.trim() !== '';
+const accumulateValue = (col: ColumnAccumulator, raw: any, row: number) => {
+  const v = normalizeValue(raw);
+  if (v === null) {
+    col.missingCount++;
+    return;
+  }
+  col.definedCount++;
+  const s = String(v);
+
+  // Type inference counts (first match wins, as before)
+  const parsedNumber = parseNumber(v, col.decimal);
+  const numeric = parsedNumber !== null;
+  const dateMatch = numeric ? null : matchDate(s);
+  const dateLike = dateMatch !== null;
+  if (numeric) col.numCount++;
+  else if (dateLike) col.dateCount++;
+  else if (s.toLowerCase() === 'true' || s.toLowerCase() === 'false') col.boolCount++;
+
+  // Violations are counted for both candidate types; the final type picks one
+  if (!numeric) {
+    col.nonNumberCount++;
+    if (col.nonNumberExamples.length < EXAMPLE_LIMIT) col.nonNumberExamples.push(s);
+  }
+  if (dateMatch) {
+    tallyDate(col.dates, s, dateMatch);
+  } else {
+    col.nonDateCount++;
+    if (col.nonDateExamples.length < EXAMPLE_LIMIT) col.nonDateExamples.push(s);
+  }
+
+  if (parsedNumber) {
+    addToMoments(col.moments, parsedNumber.value);
+    addToSketch(col.sketch, parsedNumber.value);
+    addToExtremes(col.extremes, parsedNumber.value, row);
+    if (!Number.isInteger(parsedNumber.value)) col.nonIntegerCount++;
+    if (parsedNumber.value === 0) col.zeroCount++;
+    else if (parsedNumber.value < 0) col.negativeCount++;
+    if (parsedNumber.currency) bump(col.currencies, parsedNumber.currency);
+    if (parsedNumber.unit) bump(col.units, parsedNumber.unit);
+  }
+
+  tallySemantic(col, s);
+
+  addToMoments(col.lengths, s.length);
+  const pattern = valuePattern(s);
+  const seen = col.patterns.get(pattern);
+  if (seen !== undefined) col.patterns.set(pattern, seen + 1);
+  else if (col.patterns.size < PATTERN_TRACKING_LIMIT) col.patterns.set(pattern, 1);
+
+  addToDistinctCounter(col.distinct, hashString(s));
+  const existing = col.counts.get(s);
+  if (existing !== undefined) col.counts.set(s, existing + 1);
+  else if (col.counts.size < CATEGORY_TRACKING_LIMIT) col.counts.set(s, 1);
 };
 
-// --- Outlier Detection (IQR) ---
+// Detectors matching under 30% of the first values stop being tested, which keeps
+// free-text columns from paying for every validator on every row
+const SEMANTIC_PRUNE_AFTER = 500;
+const SEMANTIC_PRUNE_SHARE = 0.3;
+
+const tallySemantic = (col: ColumnAccumulator, s: string) => {
+  for (let i = 0; i < SEMANTIC_DETECTORS.length; i++) {
+    const tally = col.semantic[i];
+    if (!tally.active) continue;
+    const detector = SEMANTIC_DETECTORS[i];
+    tally.tested++;
+    if (detector.isValid(s)) {
+      tally.valid++;
+      if (detector.isGeneric?.(s)) tally.generic++;
+    } else if (tally.invalidExamples.length < EXAMPLE_LIMIT) {
+      tally.invalidExamples.push(s);
+    }
+    if (tally.tested >= SEMANTIC_PRUNE_AFTER && tally.valid / tally.tested < SEMANTIC_PRUNE_SHARE) tally.active = false;
+  }
+};
 
-const findOutliers = (values: number[], sensitivity: 'Low' | 'Medium' | 'High'): number[] => {
-  if (values.length < 5) return [];
-  const sorted = [...values].sort((a, b) => a - b);
-  const q1 = sorted[Math.floor(sorted.length * 0.25)];
-  const q3 = sorted[Math.floor(sorted.length * 0.75)];
-  const iqr = q3 - q1;
-  
-  let multiplier = 1.5;
-  if (sensitivity === 'Low') multiplier = 3.0; // Less sensitive (needs 3x IQR to be outlier)
-  if (sensitivity === 'High') multiplier = 1.0; // More sensitive
+/** Folds a chunk of rows into the accumulator in a single pass. */
+export const accumulateRows = (acc: DatasetAccumulator, rows: DataRow[]) => {
+  for (const row of rows) {
+    acc.rowCount++;
+    acc.rowHashes.add(hashString(JSON.stringify(row)));
+    for (let c = 0; c < acc.headers.length; c++) {
+      accumulateValue(acc.columns[c], row[acc.headers[c]], acc.rowCount - 1);
+    }
+    if (acc.rules.length > 0) trackRow(acc.rules, acc.rowCount - 1, column => normalizeValue(row[column]));
+  }
+};
 
-  const lowerBound = q1 - (iqr * multiplier);
-  const upperBound = q3 + (iqr * multiplier);
+/** Folds b into a in place; a's running state is never copied, so merging stays linear in the chunks. */
+const mergeColumnAccumulators = (a: ColumnAccumulator, b: ColumnAccumulator, rowOffset: number) => {
+  b.counts.forEach((n, key) => {
+    const existing = a.counts.get(key);
+    if (existing !== undefined) a.counts.set(key, existing + n);
+    else if (a.counts.size < CATEGORY_TRACKING_LIMIT) a.counts.set(key, n);
+  });
 
-  return values.filter(v => v < lowerBound || v > upperBound);
+  b.dates.shapes.forEach((n, key) => bump(a.dates.shapes, key, n));
+  a.dates.dmyOnly += b.dates.dmyOnly;
+  a.dates.mdyOnly += b.dates.mdyOnly;
+  a.dates.ambiguous += b.dates.ambiguous;
+  a.dates.dmyExample ??= b.dates.dmyExample;
+  a.dates.mdyExample ??= b.dates.mdyExample;
+  a.dates.ambiguousExamples = [...a.dates.ambiguousExamples, ...b.dates.ambiguousExamples].slice(0, EXAMPLE_LIMIT);
+  a.dates.invalidCount += b.dates.invalidCount;
+  a.dates.invalidExamples = [...a.dates.invalidExamples, ...b.dates.invalidExamples].slice(0, EXAMPLE_LIMIT);
+  a.dates.timeCount += b.dates.timeCount;
+
+  b.patterns.forEach((n, key) => {
+    const existing = a.patterns.get(key);
+    if (existing !== undefined) a.patterns.set(key, existing + n);
+    else if (a.patterns.size < PATTERN_TRACKING_LIMIT) a.patterns.set(key, n);
+  });
+
+  b.currencies.forEach((n, key) => bump(a.currencies, key, n));
+  b.units.forEach((n, key) => bump(a.units, key, n));
+
+  a.missingCount += b.missingCount;
+  a.definedCount += b.definedCount;
+  a.numCount += b.numCount;
+  a.dateCount += b.dateCount;
+  a.boolCount += b.boolCount;
+  a.nonNumberCount += b.nonNumberCount;
+  a.nonNumberExamples = [...a.nonNumberExamples, ...b.nonNumberExamples].slice(0, EXAMPLE_LIMIT);
+  a.nonDateCount += b.nonDateCount;
+  a.nonDateExamples = [...a.nonDateExamples, ...b.nonDateExamples].slice(0, EXAMPLE_LIMIT);
+  a.nonIntegerCount += b.nonIntegerCount;
+  a.zeroCount += b.zeroCount;
+  a.negativeCount += b.negativeCount;
+  a.semantic.forEach((t, i) => {
+    const o = b.semantic[i];
+    t.tested += o.tested;
+    t.valid += o.valid;
+    t.generic += o.generic;
+    t.invalidExamples = [...t.invalidExamples, ...o.invalidExamples].slice(0, EXAMPLE_LIMIT);
+    t.active = t.active || o.active;
+  });
+  a.moments = mergeMoments(a.moments, b.moments);
+  a.sketch = mergeSketches(a.sketch, b.sketch);
+  a.extremes = mergeExtremes(a.extremes, b.extremes, rowOffset);
+  mergeDistinctCounters(a.distinct, b.distinct);
+  a.lengths = mergeMoments(a.lengths, b.lengths);
+};
+
+/**
+ * Folds an accumulator built over the next chunk of the same file into `a`, in place, and
+ * returns `a`. The caller owns `a`; `b` must not be used afterwards.
+ */
+export const mergeDatasetAccumulators = (a: DatasetAccumulator, b: DatasetAccumulator): DatasetAccumulator => {
+  b.rowHashes.forEach(h => a.rowHashes.add(h));
+  a.columns.forEach((col, i) => mergeColumnAccumulators(col, b.columns[i], a.rowCount));
+  a.rules.forEach((tracker, i) => mergeRuleTrackers(tracker, b.rules[i], a.rowCount));
+  a.rowCount += b.rowCount;
+  return a;
 };
 
 // --- Main Analysis Engine ---
 
-export const analyzeDataset = (data: DataRow[], settings: AppSettings): DatasetStats => {
-  if (!data || data.length === 0) {
-    return { rowCount: 0, columnCount: 0, totalMissingCells: 0, duplicateRows: 0, columns: [] };
-  }
+const dominant = (map: Map<string, number>): string | undefined =>
+  [...map.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+/**
+ * Summarizes the parsed number format and flags columns mixing currencies or units,
+ * whose values can't be compared or summed as-is.
+ */
+const describeNumberFormat = (col: ColumnAccumulator, issues: ColumnIssue[]): NumberFormatInfo => {
+  const format: NumberFormatInfo = { decimalSeparator: col.decimal };
+  const currency = dominant(col.currencies);
+  const unit = dominant(col.units);
+  if (currency) format.currency = currency;
+  if (unit) format.unit = unit;
+
+  ([['currencies', col.currencies], ['units', col.units]] as const).forEach(([label, map]) => {
+    if (map.size < 2) return;
+    const top = dominant(map)!;
+    const others = col.numCount - map.get(top)!;
+    issues.push({
+      type: 'mixed_types',
+      description: `Values mix ${map.size} ${label} (${[...map.keys()].slice(0, 4).join(', ')})`,
+      severity: 'High',
+      count: others,
+      examples: [...map.keys()].filter(k => k !== top).slice(0, 3)
+    });
+  });
 
-  const headers = Object.keys(data[0]);
-  const rowCount = data.length;
-  let totalMissingCells = 0;
+  return format;
+};
 
-  // 1. Detect Exact Duplicate Rows
-  const rowStrings = data.map(r => JSON.stringify(r));
-  const uniqueRowStrings = new Set(rowStrings);
-  const duplicateRows = rowCount - uniqueRowStrings.size;
+const NUMERIC_DATE_LABELS: Record<DateFormatInfo['kind'], string> = {
+  text: 'Text', excel_serial: 'Excel serial', unix_seconds: 'Unix seconds', unix_millis: 'Unix milliseconds'
+};
 
-  const columns: ColumnProfile[] = headers.map(colName => {
-    const rawValues = data.map(row => row[colName]);
-    
-    // 2. Normalize Data & Count Missing
-    const normalizedValues = rawValues.map(normalizeValue);
-    const definedValues = normalizedValues.filter(v => v !== null);
-    const missingCount = rowCount - definedValues.length;
-    totalMissingCells += missingCount;
-    
-    // 3. Infer Schema
-    let numCount = 0, dateCount = 0, boolCount = 0;
-    definedValues.forEach(v => {
-        if (isNumber(v)) numCount++;
-        else if (isDate(v)) dateCount++;
-        else if (String(v).toLowerCase() === 'true' || String(v).toLowerCase() === 'false') boolCount++;
+/**
+ * Settles the day/month order from the values that only parse one way, and reports
+ * impossible dates plus columns whose order is mixed or can't be determined.
+ */
+const describeDateFormat = (tally: DateTally, fallbackOrder: DateOrder, issues: ColumnIssue[], strict: boolean): DateFormatInfo => {
+  const order: DateOrder = tally.dmyOnly > tally.mdyOnly ? 'dmy' : tally.mdyOnly > tally.dmyOnly ? 'mdy' : fallbackOrder;
+  const numericDates = tally.dmyOnly + tally.mdyOnly + tally.ambiguous;
+  const ambiguous = tally.ambiguous > 0 && tally.dmyOnly === 0 && tally.mdyOnly === 0;
+  const orderLabel = (o: DateOrder) => (o === 'dmy' ? 'DD/MM' : 'MM/DD');
+
+  if (tally.invalidCount > 0) {
+    const dated = [...tally.shapes.values()].reduce((a, b) => a + b, 0);
+    issues.push({
+      type: 'invalid_date',
+      description: `${tally.invalidCount} values are not valid calendar dates`,
+      severity: strict || tally.invalidCount / dated > 0.05 ? 'High' : 'Medium',
+      count: tally.invalidCount,
+      examples: tally.invalidExamples
+    });
+  }
+
+  if (tally.dmyOnly > 0 && tally.mdyOnly > 0) {
+    issues.push({
+      type: 'invalid_date',
+      description: `Day/month order is mixed: ${tally.dmyOnly} values only fit ${orderLabel('dmy')}, ${tally.mdyOnly} only ${orderLabel('mdy')}`,
+      severity: 'High',
+      count: Math.min(tally.dmyOnly, tally.mdyOnly),
+      examples: [tally.dmyExample!, tally.mdyExample!]
     });
+  } else if (ambiguous) {
+    issues.push({
+      type: 'invalid_date',
+      description: `Day/month order is ambiguous in all ${numericDates} numeric dates (assuming ${orderLabel(order)})`,
+      severity: 'Low',
+      count: tally.ambiguous,
+      examples: tally.ambiguousExamples
+    });
+  }
+
+  const formats = [...tally.shapes.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([shape]) => describeDateShape(shape, order));
 
-    const definedCount = definedValues.length;
+  return { kind: 'text', order, ambiguous, hasTime: tally.timeCount > 0, formats };
+};
+
+// Share of values that must parse before a column is given a type; strict mode wants near
+// agreement, and a column between the two keeps its values that don't fit as violations
+const TYPE_MIN_SHARE = 0.8;
+const STRICT_TYPE_MIN_SHARE = 0.95;
+
+// Share of values that must validate before a column is given a semantic type
+const SEMANTIC_MIN_SHARE = 0.7;
+
+/**
+ * Picks the first format most values validate against, and reports the rest as
+ * validation errors. Formats made mostly of generic values need a matching header.
+ */
+const detectSemanticType = (col: ColumnAccumulator, issues: ColumnIssue[], strict: boolean): SemanticType | undefined => {
+  if (col.definedCount === 0) return undefined;
+
+  const index = SEMANTIC_DETECTORS.findIndex((detector, i) => {
+    const tally = col.semantic[i];
+    if (tally.valid / col.definedCount < SEMANTIC_MIN_SHARE) return false;
+    return matchesNameHint(detector, col.name) || tally.generic / tally.valid < 0.5;
+  });
+  if (index === -1) return undefined;
+
+  const type = SEMANTIC_DETECTORS[index].type;
+  const tally = col.semantic[index];
+  const invalid = col.definedCount - tally.valid;
+  if (invalid > 0) {
+    issues.push(withConfidence({
+      type: 'validation_error',
+      description: `${invalid} values are not a valid ${semanticLabel(type)}`,
+      severity: strict || invalid / col.definedCount > 0.05 ? 'High' : 'Medium',
+      count: invalid,
+      examples: tally.invalidExamples
+    }, typeConfidence(tally.valid / col.definedCount, col.definedCount, SEMANTIC_MIN_SHARE)));
+  }
+  return type;
+};
+
+// Category clustering: stored clusters per method, and the methods precise enough for findings
+const CLUSTERS_PER_METHOD = 50;
+const CLUSTER_MAX_UNIQUE_SHARE = 0.9;
+const FINDING_METHODS: ClusterMethod[] = ['fingerprint', 'ngram', 'nearest_neighbor'];
+
+const finalizeColumn = (col: ColumnAccumulator, rowCount: number, settings: AppSettings, fallbackOrder: DateOrder): ColumnProfile => {
+    const { missingCount, definedCount } = col;
+
+    // 3. Infer Schema
     let inferredType: ColumnType = 'string';
     
     // Inference Thresholds
+    let typedCount = 0;
     if (definedCount > 0) {
-        if (numCount / definedCount > 0.8) inferredType = 'number';
-        else if (dateCount / definedCount > 0.8) inferredType = 'date';
-        else if (boolCount / definedCount > 0.8) inferredType = 'boolean';
+        if (col.numCount / definedCount > TYPE_MIN_SHARE) [inferredType, typedCount] = ['number', col.numCount];
+        else if (col.dateCount / definedCount > TYPE_MIN_SHARE) [inferredType, typedCount] = ['date', col.dateCount];
+        else if (col.boolCount / definedCount > TYPE_MIN_SHARE) [inferredType, typedCount] = ['boolean', col.boolCount];
     }
 
     const issues: ColumnIssue[] = [];
 
+    // Strict mode leaves a column short of near agreement as text, but its values that
+    // don't fit the majority type still count as violations
+    let majorityType: ColumnType | undefined;
+    if (settings.strictMode && inferredType !== 'string' && typedCount / definedCount < STRICT_TYPE_MIN_SHARE) {
+        majorityType = inferredType;
+        inferredType = 'string';
+        const violations = definedCount - typedCount;
+        issues.push(withConfidence({
+            type: 'mixed_types',
+            description: `${violations} values are not of type '${majorityType}', too many for strict mode to type the column`,
+            severity: 'High',
+            count: violations,
+            examples: majorityType === 'number' ? col.nonNumberExamples : majorityType === 'date' ? col.nonDateExamples : []
+        }, typeConfidence(typedCount / definedCount, definedCount, STRICT_TYPE_MIN_SHARE)));
+    }
+
+    // Date-named number columns holding Excel serials or Unix epochs are dates
+    const numericDateKind = inferredType === 'number' && isTemporalName(col.name)
+        ? detectNumericDateKind(col.moments.min, col.moments.max)
+        : null;
+    if (numericDateKind) inferredType = 'date';
+
     // Issue: Missing Values
     if (missingCount > 0) {
       issues.push({
@@ -165,69 +543,90 @@ export const analyzeDataset = (data: DataRow[], settings: AppSettings): DatasetS
       });
     }
 
-    // Issue: Mixed Types ( > 5% violation)
+    // Issue: Mixed Types ( > 5% violation, or any in strict mode)
     if (definedCount > 0) {
         let violations = 0;
         let exampleViolations: string[] = [];
         
-        if (inferredType === 'number') {
-            const nonNums = definedValues.filter(v => !isNumber(v));
-            violations = nonNums.length;
-            exampleViolations = nonNums.slice(0, 3).map(String);
+        if (inferredType === 'number' || numericDateKind) {
+            violations = col.nonNumberCount;
+            exampleViolations = col.nonNumberExamples;
         } else if (inferredType === 'date') {
-            const nonDates = definedValues.filter(v => !isDate(v));
-            violations = nonDates.length;
-            exampleViolations = nonDates.slice(0, 3).map(String);
+            violations = col.nonDateCount;
+            exampleViolations = col.nonDateExamples;
         }
 
-        if (violations / definedCount > 0.05) {
-             issues.push({
+        if (violations / definedCount > (settings.strictMode ? 0 : 0.05)) {
+             // Barely over the inference threshold, the type itself may be the mistake
+             issues.push(withConfidence({
                 type: 'mixed_types',
                 description: `${violations} values do not match inferred type '${inferredType}'`,
                 severity: 'High',
                 count: violations,
                 examples: exampleViolations
-             });
+             }, typeConfidence(1 - violations / definedCount, definedCount, TYPE_MIN_SHARE)));
         }
     }
 
+    // Dates: format, day/month order & invalid dates
+    let dateFormat: DateFormatInfo | undefined;
+    if (numericDateKind) {
+        dateFormat = {
+            kind: numericDateKind,
+            order: fallbackOrder,
+            ambiguous: false,
+            hasTime: numericDateKind !== 'excel_serial' || col.nonIntegerCount > 0,
+            formats: [NUMERIC_DATE_LABELS[numericDateKind]]
+        };
+    } else if (inferredType === 'date') {
+        dateFormat = describeDateFormat(col.dates, fallbackOrder, issues, settings.strictMode);
+    }
+
+    // Semantic formats (email, phone, ...) on top of text and number columns
+    const semanticType = inferredType === 'string' || inferredType === 'number'
+        ? detectSemanticType(col, issues, settings.strictMode)
+        : undefined;
+
     // 4. Numeric Stats & Outliers
-    let numericStats = undefined;
+    let numericStats: NumericStats | undefined;
+    let numberFormat: NumberFormatInfo | undefined;
     if (inferredType === 'number') {
-        const nums = definedValues.map(v => parseFloat(String(v).replace(/,/g, ''))).filter(n => !isNaN(n));
-        numericStats = calculateNumericStats(nums);
-
-        if (nums.length > 5) {
-            const outliers = findOutliers(nums, settings.outlierSensitivity);
-            if (outliers.length > 0) {
-                issues.push({
-                    type: 'outlier',
-                    description: `Detected ${outliers.length} outliers (Sensitivity: ${settings.outlierSensitivity})`,
-                    severity: settings.outlierSensitivity === 'High' ? 'Medium' : 'High',
-                    count: outliers.length,
-                    examples: outliers.slice(0, 3).map(String)
-                });
-            }
+        const sketch = viewSketch(col.sketch);
+        numericStats = calculateNumericStats(col.moments, sketch, {
+            zero: col.zeroCount,
+            negative: col.negativeCount,
+            integer: col.nonIntegerCount === 0
+        });
+        numberFormat = describeNumberFormat(col, issues);
+
+        // Magnitude means nothing for codes like ZIPs and phone numbers
+        if (col.moments.count > 5 && !semanticType) {
+            issues.push(...findColumnOutliers({ sketch, moments: col.moments }, col.extremes, settings, col.currencies.size > 0));
         }
+    } else if (majorityType === 'number') {
+        numberFormat = { decimalSeparator: col.decimal };
     }
 
     // 5. Text Stats & Inconsistencies (Case & Fuzzy)
     let topCategories: { value: string; count: number }[] | undefined;
-    const uniqueCount = new Set(definedValues.map(String)).size;
+    let lengthStats: LengthStats | undefined;
+    let patterns: ValuePattern[] | undefined;
+    let clusters: CategoryCluster[] | undefined;
+    const uniqueCount = distinctCount(col.distinct);
 
     if (inferredType === 'string') {
         // Frequency Map
-        const counts: Record<string, number> = {};
-        definedValues.forEach(v => {
-            const s = String(v);
-            counts[s] = (counts[s] || 0) + 1;
-        });
+        const counts = Object.fromEntries(col.counts) as Record<string, number>;
         
         topCategories = Object.entries(counts)
             .sort((a, b) => b[1] - a[1])
             .slice(0, 10)
             .map(([value, count]) => ({ value, count }));
 
+        // Lengths and shapes show format drift, e.g. a few product codes without their prefix
+        lengthStats = { min: col.lengths.min, max: col.lengths.max, mean: col.lengths.mean };
+        patterns = topPatterns(col.patterns);
+
         // A. Case/Whitespace Inconsistencies
         const lowerMap: Record<string, Set<string>> = {};
         Object.keys(counts).forEach(key => {
@@ -247,125 +646,178 @@ export const analyzeDataset = (data: DataRow[], settings: AppSettings): DatasetS
              });
         }
 
-        // B. Fuzzy Matching (Levenshtein) - Only for categorical fields (unique < 500)
-        // Check between distinct normalized keys to find "Software Engineer" vs "Softwar Engineer"
-        if (uniqueCount < 500 && uniqueCount > 1) {
-             const distinctNorm = Object.keys(lowerMap);
-             const fuzzyGroups: string[][] = [];
-             const used = new Set<string>();
-
-             for (let i = 0; i < distinctNorm.length; i++) {
-                 if (used.has(distinctNorm[i])) continue;
-                 const group = [distinctNorm[i]];
-                 
-                 for (let j = i + 1; j < distinctNorm.length; j++) {
-                     if (used.has(distinctNorm[j])) continue;
-                     
-                     // Optimization: Only compare if lengths are similar (diff <= 2)
-                     if (Math.abs(distinctNorm[i].length - distinctNorm[j].length) > 2) continue;
-                     
-                     const dist = levenshteinDistance(distinctNorm[i], distinctNorm[j]);
-                     // Threshold: dist <= 2 and length > 3 (avoid mapping "cat" to "bat")
-                     if (dist <= 2 && distinctNorm[i].length > 3) {
-                         group.push(distinctNorm[j]);
-                         used.add(distinctNorm[j]);
-                     }
-                 }
-                 if (group.length > 1) fuzzyGroups.push(group);
-             }
-
-             if (fuzzyGroups.length > 0) {
-                 issues.push({
+        // B. Clusters of likely variants (fingerprint, n-gram, phonetic, nearest neighbour).
+        // Identifiers like emails and UUIDs are near each other by construction, and values
+        // that each appear about once give no majority spelling, so both are skipped.
+        // High-cardinality columns are clustered over the values tracked while profiling
+        if (uniqueCount > 1 && !semanticType && uniqueCount <= definedCount * CLUSTER_MAX_UNIQUE_SHARE) {
+             const values = Object.entries(counts).map(([value, count]) => ({ value, count }));
+             const found = CLUSTER_METHODS.flatMap(({ method }) => clusterCategories(values, method).slice(0, CLUSTERS_PER_METHOD));
+
+             // Findings come from the precise methods; clusters are scored against their most
+             // common spelling, so equally common values ("North" / "South") are doubtful
+             clusters = found.map(c => {
+                 if (!FINDING_METHODS.includes(c.method)) return c;
+                 const [canonical, ...variants] = c.members;
+                 const confidence = variants.reduce((sum, v) => sum + typoConfidence(v, canonical, variantDistance(v.value, canonical.value)), 0) / variants.length;
+                 return { ...c, confidence: Math.round(confidence * 100) / 100 };
+             });
+
+             // Each value is reported once; pure case or whitespace variants are reported above
+             const reported = new Set<string>();
+             const scored = clusters
+                 .filter(c => c.confidence !== undefined)
+                 .filter(c => new Set(c.members.map(m => m.value.toLowerCase().trim())).size > 1)
+                 .filter(c => {
+                     if (c.members.every(m => reported.has(m.value))) return false;
+                     c.members.forEach(m => reported.add(m.value));
+                     return true;
+                 })
+                 .map(c => ({ values: c.members.map(m => m.value), confidence: c.confidence! }))
+                 .sort((a, b) => b.confidence - a.confidence);
+
+             // Likely typos and doubtful ones are reported apart so the doubtful can be hidden
+             const likely = scored.filter(g => g.confidence >= LOW_CONFIDENCE_THRESHOLD);
+             const doubtful = scored.filter(g => g.confidence < LOW_CONFIDENCE_THRESHOLD);
+             [likely, doubtful].forEach(groups => {
+                 if (groups.length === 0) return;
+                 const mean = groups.reduce((sum, g) => sum + g.confidence, 0) / groups.length;
+                 issues.push(withConfidence({
                      type: 'inconsistent_category',
-                     description: `${fuzzyGroups.length} potential typos/near-duplicates found`,
+                     description: `${groups.length} potential typos/near-duplicates found`,
                      severity: 'Low',
-                     count: fuzzyGroups.length,
-                     examples: fuzzyGroups.slice(0, 3).map(g => g.join(' ≈ '))
-                 });
-             }
+                     count: groups.length,
+                     examples: groups.slice(0, 3).map(g => g.values.join(' ≈ '))
+                 }, mean));
+             });
         }
     }
 
     return {
-      name: colName,
+      name: col.name,
       inferredType,
       missingCount,
       uniqueCount,
       issues,
       topCategories,
-      numericStats
+      numericStats,
+      lengthStats,
+      patterns,
+      numberFormat,
+      dateFormat,
+      semanticType,
+      majorityType,
+      clusters
     };
+};
+
+export const finalizeDatasetStats = (acc: DatasetAccumulator, settings: AppSettings): DatasetStats => {
+  // Columns with no day/month evidence follow the rest of the file, then the number format
+  const dmyOnly = acc.columns.reduce((sum, c) => sum + c.dates.dmyOnly, 0);
+  const mdyOnly = acc.columns.reduce((sum, c) => sum + c.dates.mdyOnly, 0);
+  const fallbackOrder: DateOrder = dmyOnly > mdyOnly ? 'dmy' : mdyOnly > dmyOnly ? 'mdy'
+    : acc.columns.some(c => c.decimal === ',') ? 'dmy' : 'mdy';
+
+  const columns = acc.columns.map(col => finalizeColumn(col, acc.rowCount, settings, fallbackOrder));
+
+  // User rules report on the column they constrain; rules for absent columns are skipped
+  acc.rules.forEach(tracker => {
+    const issue = ruleIssue(tracker);
+    const column = columns.find(c => c.name === tracker.rule.column);
+    if (issue && column) column.issues.push(issue);
   });
 
-  return {
-    rowCount,
-    columnCount: headers.length,
+  const totalMissingCells = columns.reduce((sum, c) => sum + c.missingCount, 0);
+
+  return scoreIssues({
+    rowCount: acc.rowCount,
+    columnCount: acc.headers.length,
     totalMissingCells,
-    duplicateRows,
+    duplicateRows: acc.rowCount - acc.rowHashes.size,
     columns
-  };
+  });
 };
 
-// --- Auto-Clean Logic ---
+export const analyzeDataset = (data: DataRow[], settings: AppSettings, options: AnalysisOptions = {}): DatasetStats => {
+  if (!data || data.length === 0) {
+    return { rowCount: 0, columnCount: 0, totalMissingCells: 0, duplicateRows: 0, columns: [] };
+  }
 
-export const performAutoClean = (data: DataRow[], stats: DatasetStats): DataRow[] => {
-    let cleaned = data.map(row => {
-        const newRow: DataRow = {};
-        Object.keys(row).forEach(key => {
-            // Apply global normalization
-            newRow[key] = normalizeValue(row[key]);
-        });
-        return newRow;
-    });
+  const acc = createDatasetAccumulatorFor(Object.keys(data[0]), data, settings, options);
+  accumulateRows(acc, data);
+  return finalizeDatasetStats(acc, settings);
+};
 
-    // 1. Remove Exact Duplicates
-    const seen = new Set();
-    cleaned = cleaned.filter(row => {
-        const s = JSON.stringify(row);
-        if (seen.has(s)) return false;
-        seen.add(s);
-        return true;
-    });
+// --- Strict Mode Quarantine ---
 
-    // 2. Column Cleaning
-    stats.columns.forEach(col => {
-        cleaned = cleaned.map(row => {
-            let val = row[col.name];
-
-            if (col.inferredType === 'number') {
-                 if (val !== null && isNumber(val)) {
-                     // Clean currency/commas
-                     val = parseFloat(String(val).replace(/,/g, '').replace('$', ''));
-                 } else if (val !== null) {
-                     val = null; // Enforce type
-                 }
-            } else if (col.inferredType === 'string' && val !== null) {
-                // Auto-fix case inconsistency if we detected it? 
-                // For safety, simple trim is mostly what we do automatically.
-                val = String(val).trim();
-            }
-
-            // Fill Missing
-            if (val === null) {
-                 if (col.inferredType === 'string') val = "Unknown";
-                 // Numbers/Dates left as null for safety in this strict version
-            }
-            
-            return { ...row, [col.name]: val };
+/** Why a value fails its column's profiled type or format, or null when it fits. */
+const typeProblem = (col: ColumnProfile, value: any): string | null => {
+    if (value === null) return null;
+    if (col.semanticType) {
+        return isValidSemanticValue(col.semanticType, value) ? null : `not a valid ${semanticLabel(col.semanticType)}`;
+    }
+    if (col.inferredType === 'number') {
+        return parseNumber(value, col.numberFormat?.decimalSeparator) ? null : 'not a number';
+    }
+    if (col.inferredType === 'date' && col.dateFormat) {
+        return toISODate(value, col.dateFormat) ? null : 'not a valid date';
+    }
+    if (col.inferredType === 'boolean' || col.majorityType === 'boolean') {
+        return /^(true|false)$/i.test(String(value)) ? null : 'not true/false';
+    }
+    if (col.majorityType === 'number') {
+        return parseNumber(value, col.numberFormat?.decimalSeparator) ? null : 'not a number';
+    }
+    if (col.majorityType === 'date') {
+        return matchDate(String(value)) ? null : 'not a valid date';
+    }
+    return null;
+};
+
+/**
+ * Splits out rows with a value that fails its column's type or format, or that break a
+ * validation rule. Rejected rows keep their original values plus their 1-based row number in
+ * `source` (the rows `data` was filtered from, when it was) and every reason they failed.
+ */
+export const quarantineRows = (
+    data: DataRow[],
+    stats: DatasetStats,
+    rules: ValidationRule[] = [],
+    source: DataRow[] = data
+): CleaningResult => {
+    const decimalOf = (column: string) => stats.columns.find(c => c.name === column)?.numberFormat?.decimalSeparator || '.';
+    const trackers = createRuleTrackers(rules, decimalOf);
+    const sourceRow = source === data ? null : new Map(source.map((row, i) => [row, i]));
+
+    const rows: DataRow[] = [];
+    const rejected: DataRow[] = [];
+    data.forEach((row, i) => {
+        const reasons: string[] = [];
+        stats.columns.forEach(col => {
+            const value = normalizeValue(row[col.name]);
+            const problem = typeProblem(col, value);
+            if (problem) reasons.push(`${col.name}: "${value}" is ${problem}`);
         });
-    });
 
-    return cleaned;
+        const before = trackers.map(t => t.violations);
+        trackRow(trackers, i, column => normalizeValue(row[column]));
+        trackers.forEach((t, r) => {
+            if (t.violations > before[r]) reasons.push(`breaks rule: ${describeRule(t.rule)}`);
+        });
+
+        if (reasons.length === 0) rows.push(row);
+        else rejected.push({ ...row, source_row: (sourceRow?.get(row) ?? i) + 1, rejection_reason: reasons.join('; ') });
+    });
+    return { rows, rejected };
 };
 
-export const parseCSV = (file: File): Promise<DataRow[]> => {
+export const parseCSV = (file: File, options: CsvImportOptions = DEFAULT_CSV_OPTIONS): Promise<DataRow[]> => {
+    const mapper = createRowMapper(options);
     return new Promise((resolve, reject) => {
         Papa.parse(file, {
-            header: true,
-            skipEmptyLines: true,
-            dynamicTyping: false, 
+            ...papaConfigFor(options),
             complete: (results) => {
-                resolve(results.data as DataRow[]);
+                resolve(mapper.map(results.data as string[][]));
             },
             error: (err) => reject(err)
         });
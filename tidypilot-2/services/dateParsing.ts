@@ -0,0 +1,190 @@
+import { DateOrder, DateFormatInfo } from '../types';
+import { parseNumber } from './numberParsing';
+
+export type DateShape = 'iso' | 'numeric' | 'month_name';
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+  second: number;
+  zone?: string; // "Z" or "+02:00" when the value carried one
+}
+
+/**
+ * A value that looks like a date, before it's checked against the calendar. For numeric
+ * dates ("03/04/2024") `first`/`second` are the raw fields whose day/month order is still
+ * open; for the other shapes they're month and day.
+ */
+export interface DateMatch {
+  shape: DateShape;
+  first: number;
+  second: number;
+  year: number;
+  time?: TimeOfDay;
+}
+
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+  time?: TimeOfDay;
+}
+
+// Values outside this range are almost always typos ("0224") or sentinel values ("9999")
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2100;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4, may: 5,
+  jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8, sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12
+};
+
+// --- Matching ---
+
+const TIME = String.raw`(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*([AaPp][Mm])?\s*(Z|(?:GMT|UTC)?[+-]\d{2}:?\d{2}|GMT|UTC)?)?`;
+
+const ISO_PATTERN = new RegExp(String.raw`^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})${TIME}$`);
+const NUMERIC_PATTERN = new RegExp(String.raw`^(\d{1,2})([-/.])(\d{1,2})\2(\d{4}|\d{2})${TIME}$`);
+const DAY_NAME_PATTERN = new RegExp(String.raw`^(\d{1,2})(?:st|nd|rd|th)?[\s\-/.]+([A-Za-z]{3,9})\.?[\s\-/.,]+(\d{4}|\d{2})${TIME}$`);
+const NAME_DAY_PATTERN = new RegExp(String.raw`^([A-Za-z]{3,9})\.?[\s\-]+(\d{1,2})(?:st|nd|rd|th)?,?[\s\-]+(\d{4})${TIME}$`);
+const WEEKDAY_PREFIX = /^(mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+/i;
+
+/** Two-digit years follow Excel's pivot: 00–29 are 2000s, 30–99 are 1900s. */
+const expandYear = (text: string): number => {
+  const year = Number(text);
+  if (text.length > 2) return year;
+  return year < 30 ? 2000 + year : 1900 + year;
+};
+
+const readTime = (groups: string[], offset: number): TimeOfDay | undefined => {
+  if (groups[offset] === undefined) return undefined;
+  let hour = Number(groups[offset]);
+  const meridiem = groups[offset + 3]?.toLowerCase();
+  if (meridiem) {
+    if (hour < 1 || hour > 12) hour = 99; // Invalidated by the calendar check
+    else if (meridiem === 'pm' && hour < 12) hour += 12;
+    else if (meridiem === 'am' && hour === 12) hour = 0;
+  }
+  const time: TimeOfDay = { hour, minute: Number(groups[offset + 1]), second: Number(groups[offset + 2] || 0) };
+  const zone = groups[offset + 4];
+  if (zone) {
+    const offsetMatch = zone.match(/([+-])(\d{2}):?(\d{2})$/);
+    time.zone = offsetMatch ? `${offsetMatch[1]}${offsetMatch[2]}:${offsetMatch[3]}` : 'Z';
+  }
+  return time;
+};
+
+/** Recognizes ISO, numeric day/month and month-name dates, optionally with a time. */
+export const matchDate = (raw: string): DateMatch | null => {
+  const s = raw.trim().replace(WEEKDAY_PREFIX, '');
+  if (s.length < 6 || s.length > 60) return null;
+
+  let m = s.match(ISO_PATTERN);
+  if (m) return { shape: 'iso', year: Number(m[1]), first: Number(m[3]), second: Number(m[4]), time: readTime(m, 5) };
+
+  m = s.match(NUMERIC_PATTERN);
+  if (m) return { shape: 'numeric', year: expandYear(m[4]), first: Number(m[1]), second: Number(m[3]), time: readTime(m, 5) };
+
+  m = s.match(DAY_NAME_PATTERN);
+  if (m && MONTHS[m[2].toLowerCase()]) {
+    return { shape: 'month_name', year: expandYear(m[3]), first: MONTHS[m[2].toLowerCase()], second: Number(m[1]), time: readTime(m, 4) };
+  }
+
+  m = s.match(NAME_DAY_PATTERN);
+  if (m && MONTHS[m[1].toLowerCase()]) {
+    return { shape: 'month_name', year: Number(m[3]), first: MONTHS[m[1].toLowerCase()], second: Number(m[2]), time: readTime(m, 4) };
+  }
+
+  return null;
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Resolves a match against the calendar under the given day/month order. Returns null for
+ * impossible dates ("31/02/2024", "2024-13-01") and implausible years.
+ */
+export const toCalendarDate = (match: DateMatch, order: DateOrder): CalendarDate | null => {
+  const swap = match.shape === 'numeric' && order === 'dmy';
+  const month = swap ? match.second : match.first;
+  const day = swap ? match.first : match.second;
+  const { year, time } = match;
+
+  if (year < MIN_YEAR || year > MAX_YEAR) return null;
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  if (time && (time.hour > 23 || time.minute > 59 || time.second > 59)) return null;
+  return { year, month, day, time };
+};
+
+// --- Numeric Timestamps ---
+
+// A number column is read as serials or epochs on its name alone, so only clear date names
+// count: date, order_date, birthdate, created_at, dob. Durations (lead_time), counts
+// (units_on_hand, update_count) and flags (at_risk) don't
+const DATE_NAME = new RegExp([
+  '(^|_)(date|datetime|timestamp|dob|dt|ts|dateofbirth)(_|$)',
+  '(^|_)(birth|ship|start|end|due|order|invoice|delivery|payment|expiry|expiration|effective|release|hire|issue|close|open)date(_|$)',
+  '(^|_)(created|updated|modified|deleted|posted|published)_(at|on|date|ts)(_|$)'
+].join('|'));
+
+/** Only columns named like dates are considered for serial/epoch detection. */
+export const isTemporalName = (name: string): boolean =>
+  DATE_NAME.test(name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase().replace(/[^a-z0-9]+/g, '_'));
+
+const NUMERIC_RANGES: { kind: DateFormatInfo['kind']; min: number; max: number }[] = [
+  { kind: 'excel_serial', min: 20000, max: 80000 }, // 1954 – 2119
+  { kind: 'unix_seconds', min: 1e8, max: 4.2e9 }, // 1973 – 2103
+  { kind: 'unix_millis', min: 1e11, max: 4.2e12 }
+];
+
+/** Picks the numeric timestamp encoding whose plausible range holds every value. */
+export const detectNumericDateKind = (min: number, max: number): DateFormatInfo['kind'] | null =>
+  NUMERIC_RANGES.find(r => min >= r.min && max <= r.max)?.kind || null;
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+const numericToDate = (value: number, kind: DateFormatInfo['kind']): Date => {
+  if (kind === 'excel_serial') return new Date(EXCEL_EPOCH + Math.round(value * 86400000));
+  return new Date(kind === 'unix_seconds' ? value * 1000 : value);
+};
+
+// --- Formatting ---
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const formatCalendarDate = (d: CalendarDate, withTime: boolean): string => {
+  const date = `${pad(d.year, 4)}-${pad(d.month)}-${pad(d.day)}`;
+  if (!withTime) return date;
+  const t = d.time || { hour: 0, minute: 0, second: 0 };
+  return `${date}T${pad(t.hour)}:${pad(t.minute)}:${pad(t.second)}${t.zone || ''}`;
+};
+
+/** Labels shown for the date shapes found in a column. */
+export const describeDateShape = (shape: DateShape, order: DateOrder): string =>
+  shape === 'iso' ? 'ISO 8601' : shape === 'month_name' ? 'Month name' : order === 'dmy' ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+
+/**
+ * Converts a value to ISO 8601 ("2024-03-04", or "2024-03-04T09:30:00" when the column has
+ * times) using the column's detected format. Returns null for values that aren't valid dates.
+ */
+export const toISODate = (raw: any, format: DateFormatInfo): string | null => {
+  if (raw === null || raw === undefined) return null;
+  if (raw instanceof Date) return isNaN(raw.getTime()) ? null : raw.toISOString();
+
+  if (format.kind !== 'text') {
+    const parsed = parseNumber(raw);
+    if (!parsed) return null;
+    const d = numericToDate(parsed.value, format.kind);
+    if (isNaN(d.getTime())) return null;
+    const iso = d.toISOString();
+    if (!format.hasTime) return iso.substring(0, 10);
+    // Excel serials are wall-clock times; epochs are UTC
+    return format.kind === 'excel_serial' ? iso.substring(0, 19) : `${iso.substring(0, 19)}Z`;
+  }
+
+  const match = matchDate(String(raw));
+  if (!match) return null;
+  const date = toCalendarDate(match, format.order);
+  return date ? formatCalendarDate(date, format.hasTime) : null;
+};
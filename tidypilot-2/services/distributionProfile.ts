@@ -0,0 +1,100 @@
+import { HistogramBin, NumericStats, ValuePattern } from '../types';
+import { SketchView, RunningMoments, momentShape } from './streamingStats';
+
+const HISTOGRAM_BINS = 20;
+const MAX_PATTERN_LENGTH = 24;
+const PATTERNS_REPORTED = 8;
+
+// --- Value Patterns ---
+
+/**
+ * Character-class shape of a value: ASCII and accented letters become A/a, digits 9,
+ * whitespace a space and punctuation stays ("ab-1234" → "aa-9999"). Long values are cut
+ * so free text doesn't produce a new pattern per character.
+ */
+export const valuePattern = (s: string): string => {
+  let out = '';
+  const end = Math.min(s.length, MAX_PATTERN_LENGTH);
+  for (let i = 0; i < end; i++) {
+    const ch = s[i];
+    if (ch >= '0' && ch <= '9') out += '9';
+    else if (ch >= 'A' && ch <= 'Z') out += 'A';
+    else if (ch >= 'a' && ch <= 'z') out += 'a';
+    else if (ch === ' ' || ch === '\t') out += ' ';
+    else {
+      const upper = ch.toUpperCase();
+      out += upper !== ch.toLowerCase() ? (ch === upper ? 'A' : 'a') : ch;
+    }
+  }
+  return s.length > MAX_PATTERN_LENGTH ? `${out}…` : out;
+};
+
+/** Most common patterns first. */
+export const topPatterns = (counts: Map<string, number>): ValuePattern[] =>
+  Array.from(counts, ([pattern, count]) => ({ pattern, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, PATTERNS_REPORTED);
+
+// --- Numeric Distribution ---
+
+const quantile = (sketch: SketchView, q: number) =>
+  sketch.valueAtRank(Math.min(sketch.count - 1, Math.floor(sketch.count * q)));
+
+/**
+ * Equal-width bins from min to max, counted from the sketch. Whole-number columns with a
+ * short range get one bin per value so a 1–5 rating doesn't split into fractional bins.
+ */
+export const buildHistogram = (sketch: SketchView, min: number, max: number, integer: boolean): HistogramBin[] => {
+  if (sketch.count === 0) return [];
+  if (min === max) return [{ start: min, end: max, count: sketch.count }];
+
+  const perValue = integer && max - min < HISTOGRAM_BINS;
+  const bins = perValue ? max - min + 1 : HISTOGRAM_BINS;
+  const width = perValue ? 1 : (max - min) / bins;
+  const histogram: HistogramBin[] = [];
+  let before = 0;
+  for (let i = 0; i < bins; i++) {
+    const start = min + i * width;
+    const last = i === bins - 1;
+    const end = last && !perValue ? max : start + width;
+    const below = last ? sketch.count : sketch.countBelow(end);
+    histogram.push({ start, end, count: below - before });
+    before = below;
+  }
+  return histogram;
+};
+
+export const calculateNumericStats = (
+  moments: RunningMoments,
+  sketch: SketchView,
+  counts: { zero: number; negative: number; integer: boolean }
+): NumericStats | undefined => {
+  if (moments.count === 0) return undefined;
+
+  // Median (exact for small columns, sketch-approximated beyond its capacity)
+  const mid = Math.floor(moments.count / 2);
+  const median = moments.count % 2 !== 0
+    ? sketch.valueAtRank(mid)
+    : (sketch.valueAtRank(mid - 1) + sketch.valueAtRank(mid)) / 2;
+
+  return {
+    min: moments.min,
+    max: moments.max,
+    mean: moments.mean,
+    median,
+    // Population Std Dev
+    stdDev: Math.sqrt(moments.m2 / moments.count),
+    quantiles: {
+      p1: quantile(sketch, 0.01),
+      p5: quantile(sketch, 0.05),
+      p25: quantile(sketch, 0.25),
+      p75: quantile(sketch, 0.75),
+      p95: quantile(sketch, 0.95),
+      p99: quantile(sketch, 0.99)
+    },
+    ...momentShape(moments),
+    zeroCount: counts.zero,
+    negativeCount: counts.negative,
+    histogram: buildHistogram(sketch, moments.min, moments.max, counts.integer)
+  };
+};
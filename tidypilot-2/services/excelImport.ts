@@ -0,0 +1,167 @@
+import * as XLSX from 'xlsx';
+import { DataRow, WorkbookSheetInfo, SheetParseOptions } from '../types';
+
+// --- Workbook Loading ---
+
+/**
+ * Reads an .xlsx/.xls file into a workbook.
+ * Number formats are kept (cellNF) so serial dates can be told apart from plain numbers.
+ * Formulas are never recalculated: the value cached in the file is used.
+ */
+export const readWorkbook = async (file: File): Promise<XLSX.WorkBook> => {
+  const buffer = await file.arrayBuffer();
+  return XLSX.read(buffer, { type: 'array', cellNF: true, cellDates: false });
+};
+
+export const listSheets = (workbook: XLSX.WorkBook): WorkbookSheetInfo[] => {
+  return workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    if (!ref) return { name, range: '', rowCount: 0, columnCount: 0 };
+
+    const range = XLSX.utils.decode_range(ref);
+    return {
+      name,
+      range: ref,
+      rowCount: range.e.r - range.s.r + 1,
+      columnCount: range.e.c - range.s.c + 1
+    };
+  });
+};
+
+// --- Cell Conversion ---
+
+const pad = (n: number, length: number = 2) => String(n).padStart(length, '0');
+
+/**
+ * Converts an Excel serial date into ISO 8601.
+ * Whole serials become plain dates, fractions keep their time, and values below 1 are pure times.
+ */
+const serialToISO = (serial: number, date1904: boolean): string | null => {
+  const parsed = XLSX.SSF.parse_date_code(serial, { date1904 });
+  if (!parsed) return null;
+
+  const time = `${pad(parsed.H)}:${pad(parsed.M)}:${pad(Math.floor(parsed.S))}`;
+  if (serial < 1) return time;
+
+  const date = `${pad(parsed.y, 4)}-${pad(parsed.m)}-${pad(parsed.d)}`;
+  return serial % 1 === 0 ? date : `${date}T${time}`;
+};
+
+const cellToValue = (cell: XLSX.CellObject | undefined, date1904: boolean): any => {
+  if (!cell) return null;
+
+  switch (cell.t) {
+    case 'z':
+      return null;
+    case 'e':
+      // Keep the Excel error text (#N/A, #DIV/0!) so it surfaces as a type problem
+      return cell.w ?? null;
+    case 'n':
+      // Formula cells saved without a cached result have no value
+      if (typeof cell.v !== 'number') return null;
+      if (cell.z && XLSX.SSF.is_date(cell.z)) return serialToISO(cell.v, date1904);
+      return cell.v;
+    case 'd':
+      return cell.v instanceof Date ? cell.v.toISOString() : null;
+    default:
+      return cell.v ?? null;
+  }
+};
+
+// --- Range Handling ---
+
+const RANGE_PATTERN = /^[A-Z]+\d+(:[A-Z]+\d+)?$/i;
+
+const resolveRange = (sheet: XLSX.WorkSheet, requested?: string): XLSX.Range => {
+  const used = XLSX.utils.decode_range(sheet['!ref'] as string);
+  if (!requested || requested.trim() === '') return used;
+
+  const trimmed = requested.trim().toUpperCase();
+  if (!RANGE_PATTERN.test(trimmed)) {
+    throw new Error(`"${requested}" is not a valid cell range (expected e.g. A1:F200)`);
+  }
+
+  const range = XLSX.utils.decode_range(trimmed.includes(':') ? trimmed : `${trimmed}:${trimmed}`);
+  // Never iterate past the used range, even if the user asks for A1:Z1000000
+  range.e.r = Math.min(range.e.r, used.e.r);
+  range.e.c = Math.min(range.e.c, used.e.c);
+  if (range.s.r > range.e.r || range.s.c > range.e.c) {
+    throw new Error(`Range ${trimmed} is outside the used area of the sheet (${sheet['!ref']})`);
+  }
+  return range;
+};
+
+/**
+ * Maps every cell covered by a merge to the merge's top-left cell,
+ * which is where Excel stores the value.
+ */
+const buildMergeLookup = (sheet: XLSX.WorkSheet): Map<string, string> => {
+  const lookup = new Map<string, string>();
+  (sheet['!merges'] || []).forEach(merge => {
+    const origin = XLSX.utils.encode_cell(merge.s);
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        lookup.set(XLSX.utils.encode_cell({ r, c }), origin);
+      }
+    }
+  });
+  return lookup;
+};
+
+const uniqueHeaders = (names: string[]): string[] => {
+  const seen: Record<string, number> = {};
+  return names.map(name => {
+    seen[name] = (seen[name] || 0) + 1;
+    return seen[name] === 1 ? name : `${name}_${seen[name]}`;
+  });
+};
+
+// --- Sheet Parsing ---
+
+/**
+ * Converts one sheet (or a range of it) into the same DataRow[] shape that parseCSV produces.
+ * Merged cells take the value of their top-left cell, so merged headers and grouped labels are kept.
+ */
+export const parseWorkbookSheet = (workbook: XLSX.WorkBook, options: SheetParseOptions): DataRow[] => {
+  const sheet = workbook.Sheets[options.sheetName];
+  if (!sheet) throw new Error(`Sheet "${options.sheetName}" not found`);
+  if (!sheet['!ref']) return [];
+
+  const range = resolveRange(sheet, options.range);
+  const headerRowIndex = options.headerRow !== undefined ? options.headerRow - 1 : range.s.r;
+  if (headerRowIndex < range.s.r || headerRowIndex > range.e.r) {
+    throw new Error(`Header row ${headerRowIndex + 1} is outside rows ${range.s.r + 1}-${range.e.r + 1}`);
+  }
+
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  const merges = buildMergeLookup(sheet);
+
+  const readCell = (r: number, c: number) => {
+    const address = XLSX.utils.encode_cell({ r, c });
+    return cellToValue(sheet[merges.get(address) || address], date1904);
+  };
+
+  const columnIndexes: number[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) columnIndexes.push(c);
+
+  const headers = uniqueHeaders(columnIndexes.map(c => {
+    const value = readCell(headerRowIndex, c);
+    const label = value === null ? '' : String(value).trim();
+    return label || `Column ${XLSX.utils.encode_col(c)}`;
+  }));
+
+  const rows: DataRow[] = [];
+  for (let r = headerRowIndex + 1; r <= range.e.r; r++) {
+    const row: DataRow = {};
+    let hasValue = false;
+    columnIndexes.forEach((c, i) => {
+      const value = readCell(r, c);
+      if (value !== null && value !== '') hasValue = true;
+      row[headers[i]] = value;
+    });
+    // Mirror Papa's skipEmptyLines for blank spreadsheet rows
+    if (hasValue) rows.push(row);
+  }
+
+  return rows;
+};
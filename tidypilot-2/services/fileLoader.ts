@@ -0,0 +1,26 @@
+import { DataRow } from '../types';
+import { parseCSV } from './dataProcessing';
+import { sniffCSV } from './csvImport';
+import { readWorkbook, listSheets, parseWorkbookSheet } from './excelImport';
+import { readRecords, flattenRecords, structuredFormatOf, DEFAULT_STRUCTURED_OPTIONS } from './structuredImport';
+
+export const isExcelFile = (file: File) => /\.(xlsx|xls)$/i.test(file.name);
+
+/**
+ * Loads any supported file without asking the user anything: CSVs use the sniffed
+ * import settings, workbooks their first non-empty sheet, JSON/Parquet the default
+ * flattening. Used when several files are dropped at once.
+ */
+export const loadFileWithDefaults = async (file: File): Promise<DataRow[]> => {
+  if (isExcelFile(file)) {
+    const workbook = await readWorkbook(file);
+    const sheet = listSheets(workbook).find(s => s.rowCount > 0);
+    return sheet ? parseWorkbookSheet(workbook, { sheetName: sheet.name }) : [];
+  }
+
+  if (structuredFormatOf(file)) {
+    return flattenRecords(await readRecords(file), DEFAULT_STRUCTURED_OPTIONS);
+  }
+
+  return parseCSV(file, await sniffCSV(file));
+};
@@ -1,8 +1,16 @@
 
 import { GoogleGenAI, Type, Schema } from '@google/genai';
-import { DatasetStats, CleaningPlan } from '../types';
+import { DatasetStats, CleaningPlan, WorkspaceModel } from '../types';
+import { describeRelationship } from './relationshipDiscovery';
+import { describeAssociation } from './associationAnalysis';
 
-export const generateCleaningPlan = async (stats: DatasetStats): Promise<CleaningPlan> => {
+const strongAssociations = (stats: DatasetStats) => stats.associations?.pairs
+  .filter(a => Math.abs(a.value) >= 0.8)
+  .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+  .slice(0, 8)
+  .map(a => `${a.columns.join('~')} ${describeAssociation(a)}`);
+
+export const generateCleaningPlan = async (stats: DatasetStats, workspace?: WorkspaceModel | null): Promise<CleaningPlan> => {
   const apiKey = process.env.API_KEY;
   if (!apiKey) {
     throw new Error("API Key missing");
@@ -33,16 +41,36 @@ export const generateCleaningPlan = async (stats: DatasetStats): Promise<Cleanin
       unique: c.uniqueCount > 100 ? '>100' : c.uniqueCount,
       // Top 2 issues, truncated description to 50 chars
       issues: c.issues.slice(0, 2).map(i => `${i.type}: ${i.description.substring(0, 50)}`)
-    }))
+    })),
+    // Grain of the table, for choosing fact vs dimension
+    keys: stats.structure?.keys.slice(0, 3).map(k => k.columns.join('+')),
+    deps: stats.structure?.dependencies.slice(0, 5).map(d => `${d.from}->${d.to}`),
+    // Strongly related columns, for dropping redundant fields from the model
+    assoc: strongAssociations(stats)
   };
 
+  // Multi-table uploads: the detected keys and joins anchor the star schema suggestion
+  const workspaceForAI = workspace && workspace.tables.length > 1 ? {
+    tables: workspace.tables.map(t => ({
+      name: t.name.substring(0, 40),
+      rows: t.rowCount,
+      role: t.role,
+      keys: t.keys.slice(0, 3).map(k => k.column)
+    })),
+    joins: workspace.relationships.slice(0, 12).map(describeRelationship)
+  } : null;
+
   const prompt = `
     Act as a Data Quality & BI Expert.
     Generate a JSON cleaning plan.
 
     INPUT SUMMARY:
     ${JSON.stringify(summaryForAI)}
-
+    ${workspaceForAI ? `
+    WORKSPACE TABLES (detected keys and joins; the summary above is for the active table):
+    ${JSON.stringify(workspaceForAI)}
+    Base the star schema on these tables and joins: fact tables hold the foreign keys, dimensions the referenced keys.
+    ` : ''}
     OUTPUT REQUIREMENTS:
     1. steps: Array (stepNumber, title, action, reason, powerQuery, excel, risk)
        - Order: Type, Text, Missing, Duplicates, Outliers, Validation.
@@ -53,6 +81,7 @@ export const generateCleaningPlan = async (stats: DatasetStats): Promise<Cleanin
        - dimensions: String[]
        - starSchema: String (text diagram)
        - kpis: Array (name, dax, description)
+       - Where assoc shows two columns near 1, keep one in the model and derive or drop the other.
   `;
 
   // Schema defines the strict structure required
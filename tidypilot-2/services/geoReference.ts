@@ -0,0 +1,65 @@
+// Countries whose first-level regions are checked by valid_pair rules. Values are matched
+// case-insensitively by code or name; countries not listed here are never flagged.
+
+interface CountryRegions {
+  aliases: string[];
+  regions: Record<string, string | string[]>; // Code → name (or English and local names)
+}
+
+const COUNTRIES: CountryRegions[] = [
+  {
+    aliases: ['us', 'usa', 'united states', 'united states of america', 'u.s.', 'u.s.a.'],
+    regions: {
+      AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+      CT: 'Connecticut', DE: 'Delaware', FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho',
+      IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana',
+      ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+      MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada',
+      NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina',
+      ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania',
+      RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas',
+      UT: 'Utah', VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia',
+      WI: 'Wisconsin', WY: 'Wyoming', DC: 'District of Columbia', PR: 'Puerto Rico', GU: 'Guam',
+      VI: 'U.S. Virgin Islands', AS: 'American Samoa', MP: 'Northern Mariana Islands'
+    }
+  },
+  {
+    aliases: ['ca', 'can', 'canada'],
+    regions: {
+      AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick',
+      NL: 'Newfoundland and Labrador', NS: 'Nova Scotia', NT: 'Northwest Territories', NU: 'Nunavut',
+      ON: 'Ontario', PE: 'Prince Edward Island', QC: 'Quebec', SK: 'Saskatchewan', YT: 'Yukon'
+    }
+  },
+  {
+    aliases: ['au', 'aus', 'australia'],
+    regions: {
+      ACT: 'Australian Capital Territory', NSW: 'New South Wales', NT: 'Northern Territory',
+      QLD: 'Queensland', SA: 'South Australia', TAS: 'Tasmania', VIC: 'Victoria', WA: 'Western Australia'
+    }
+  },
+  {
+    aliases: ['de', 'deu', 'germany', 'deutschland'],
+    regions: {
+      BW: 'Baden-Württemberg', BY: ['Bavaria', 'Bayern'], BE: 'Berlin', BB: 'Brandenburg', HB: 'Bremen',
+      HH: 'Hamburg', HE: ['Hesse', 'Hessen'], MV: 'Mecklenburg-Vorpommern', NI: ['Lower Saxony', 'Niedersachsen'],
+      NW: ['North Rhine-Westphalia', 'Nordrhein-Westfalen'], RP: ['Rhineland-Palatinate', 'Rheinland-Pfalz'],
+      SL: 'Saarland', SN: ['Saxony', 'Sachsen'], ST: ['Saxony-Anhalt', 'Sachsen-Anhalt'],
+      SH: 'Schleswig-Holstein', TH: ['Thuringia', 'Thüringen']
+    }
+  }
+];
+
+const fold = (s: string) => s.trim().toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+const REGIONS_BY_COUNTRY = new Map<string, Set<string>>();
+COUNTRIES.forEach(({ aliases, regions }) => {
+  const known = new Set(Object.entries(regions).flatMap(([code, names]) => [code, ...[names].flat()].map(fold)));
+  aliases.forEach(alias => REGIONS_BY_COUNTRY.set(fold(alias), known));
+});
+
+/** True/false when the country's regions are known, null otherwise. */
+export const isRegionOfCountry = (region: string, country: string): boolean | null => {
+  const known = REGIONS_BY_COUNTRY.get(fold(country));
+  return known ? known.has(fold(region)) : null;
+};
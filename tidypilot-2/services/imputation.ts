@@ -0,0 +1,377 @@
+import { DataRow, CleaningOperation, DecimalSeparator, ImputeStrategy } from '../types';
+import { normalizeValue } from './dataProcessing';
+import { parseNumber, detectDecimalSeparators } from './numberParsing';
+
+export type ImputeOperation = Extract<CleaningOperation, { kind: 'impute' }>;
+
+export const IMPUTE_STRATEGIES: { strategy: ImputeStrategy; label: string }[] = [
+  { strategy: 'constant', label: 'Constant' },
+  { strategy: 'mean', label: 'Mean' },
+  { strategy: 'median', label: 'Median' },
+  { strategy: 'mode', label: 'Most common' },
+  { strategy: 'forward_fill', label: 'Forward fill' },
+  { strategy: 'backward_fill', label: 'Backward fill' },
+  { strategy: 'interpolate', label: 'Interpolate' },
+  { strategy: 'nearest_neighbor', label: 'Nearest neighbours' }
+];
+
+// Strategies that take groupBy, and those that follow sortBy
+export const GROUPED_STRATEGIES: ImputeStrategy[] = ['mean', 'median', 'mode'];
+export const ORDERED_STRATEGIES: ImputeStrategy[] = ['forward_fill', 'backward_fill', 'interpolate'];
+
+// Share of filled cells that must read as numbers (or ISO dates) to average them
+const SCALE_MIN_SHARE = 0.9;
+const MAX_DECIMALS = 6;
+const DAY_MS = 86400000;
+
+export const DEFAULT_NEIGHBORS = 5;
+// Nearest neighbour compares each empty cell with a sample of filled rows, within this budget
+const MAX_DONORS = 5000;
+const MIN_DONORS = 50;
+const MAX_COMPARISONS = 20000000;
+
+export const imputeFlagColumn = (column: string) => `${column}_imputed`;
+
+export const imputeStrategyLabel = (strategy: ImputeStrategy) =>
+  IMPUTE_STRATEGIES.find(s => s.strategy === strategy)?.label || strategy;
+
+// --- Scales ---
+
+type Scale = 'number' | 'date' | 'text';
+
+interface ColumnScale {
+  scale: Scale;
+  decimals: number; // Most decimals among the numbers; fills are rounded to it
+  hasTime: boolean; // Dates: some values carry a time
+  decimal: DecimalSeparator; // Numbers: how they were read
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?Z?)?$/;
+
+// ISO dates as UTC milliseconds, so date-only and wall-clock values line up
+const toDateTime = (value: any): number | null => {
+  if (typeof value !== 'string' || !ISO_DATE.test(value)) return null;
+  const time = Date.parse(value.length === 10 || value.endsWith('Z') ? value : `${value}Z`);
+  return isNaN(time) ? null : time;
+};
+
+const decimalsOf = (n: number) => {
+  const s = String(n);
+  const dot = s.indexOf('.');
+  return dot === -1 || s.includes('e') ? 0 : Math.min(MAX_DECIMALS, s.length - dot - 1);
+};
+
+const scaleOf = (values: any[], decimal: DecimalSeparator = '.'): ColumnScale => {
+  let numbers = 0;
+  let dates = 0;
+  let decimals = 0;
+  let hasTime = false;
+  values.forEach(v => {
+    if (toDateTime(v) !== null) {
+      dates++;
+      hasTime = hasTime || String(v).length > 10;
+      return;
+    }
+    const parsed = parseNumber(v, decimal);
+    if (parsed) {
+      numbers++;
+      decimals = Math.max(decimals, decimalsOf(parsed.value));
+    }
+  });
+  const needed = Math.max(1, values.length * SCALE_MIN_SHARE);
+  const scale: Scale = dates >= needed ? 'date' : numbers >= needed ? 'number' : 'text';
+  return { scale, decimals, hasTime, decimal };
+};
+
+const toScalar = (value: any, col: ColumnScale): number | null =>
+  col.scale === 'number' ? parseNumber(value, col.decimal)?.value ?? null : col.scale === 'date' ? toDateTime(value) : null;
+
+const fromScalar = (x: number, col: ColumnScale): any => {
+  if (col.scale === 'date') {
+    if (col.hasTime) return new Date(Math.round(x / 1000) * 1000).toISOString().substring(0, 19);
+    return new Date(Math.round(x / DAY_MS) * DAY_MS).toISOString().substring(0, 10);
+  }
+  const factor = 10 ** col.decimals;
+  return Math.round(x * factor) / factor;
+};
+
+// --- Statistics ---
+
+const mean = (xs: number[]) => xs.reduce((sum, x) => sum + x, 0) / xs.length;
+
+const median = (xs: number[]) => {
+  const sorted = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Ties go to the value seen first
+const mostCommon = (values: any[]): any => {
+  const counts = new Map<string, { value: any; count: number }>();
+  values.forEach(v => {
+    const entry = counts.get(String(v));
+    if (entry) entry.count++;
+    else counts.set(String(v), { value: v, count: 1 });
+  });
+  let best: { value: any; count: number } = { value: null, count: 0 };
+  counts.forEach(entry => { if (entry.count > best.count) best = entry; });
+  return best.value;
+};
+
+const centralValue = (values: any[], strategy: ImputeStrategy, col: ColumnScale): any => {
+  if (values.length === 0) return null;
+  if (strategy === 'mode') return mostCommon(values);
+  const xs = values.map(v => toScalar(v, col)).filter((x): x is number => x !== null);
+  if (xs.length === 0) return null;
+  return fromScalar(strategy === 'mean' ? mean(xs) : median(xs), col);
+};
+
+// --- Row Order ---
+
+/**
+ * Row indices sorted by `sortBy` (numbers and dates by value, text naturally, empty keys last),
+ * and where each row sits: its key when every row has a numeric or date key, else its rank.
+ */
+const rowOrder = (rows: DataRow[], sortBy?: string): { order: number[]; position: number[] } => {
+  const order = rows.map((_, i) => i);
+  if (!sortBy) return { order, position: order };
+
+  const keys = rows.map(row => normalizeValue(row[sortBy]));
+  const col = scaleOf(keys.filter(k => k !== null), detectDecimalSeparators([sortBy], rows)[0]);
+  const scalars = keys.map(k => (k === null ? null : toScalar(k, col)));
+  order.sort((a, b) => {
+    if (keys[a] === null || keys[b] === null) return keys[a] === null ? (keys[b] === null ? a - b : 1) : -1;
+    const sa = scalars[a];
+    const sb = scalars[b];
+    if (sa !== null && sb !== null) return sa - sb || a - b;
+    return String(keys[a]).localeCompare(String(keys[b]), undefined, { numeric: true }) || a - b;
+  });
+
+  const position = new Array<number>(rows.length);
+  const timed = scalars.every(s => s !== null);
+  order.forEach((row, rank) => { position[row] = timed ? (scalars[row] as number) : rank; });
+  return { order, position };
+};
+
+// --- Strategies ---
+
+const groupFills = (rows: DataRow[], values: any[], op: ImputeOperation, col: ColumnScale, overall: any): ((row: number) => any) => {
+  if (!op.groupBy) return () => overall;
+  const groupOf = (i: number) => String(normalizeValue(rows[i][op.groupBy as string]) ?? '');
+  const members = new Map<string, any[]>();
+  values.forEach((v, i) => {
+    if (v === null) return;
+    const key = groupOf(i);
+    const list = members.get(key);
+    if (list) list.push(v);
+    else members.set(key, [v]);
+  });
+  const fills = new Map<string, any>();
+  members.forEach((list, key) => fills.set(key, centralValue(list, op.strategy, col)));
+  return i => fills.get(groupOf(i)) ?? overall;
+};
+
+const carryFills = (values: any[], order: number[], fills: Map<number, any>) => {
+  let last: any = null;
+  order.forEach(i => {
+    if (values[i] !== null) last = values[i];
+    else if (last !== null) fills.set(i, last);
+  });
+};
+
+// Straight line between the filled neighbours on either side; nothing past the first or last
+const interpolateFills = (values: any[], col: ColumnScale, order: number[], position: number[], fills: Map<number, any>) => {
+  let previous: { at: number; x: number } | null = null;
+  let gap: number[] = [];
+  order.forEach(i => {
+    const x = values[i] === null ? null : toScalar(values[i], col);
+    if (x === null) {
+      if (values[i] === null) gap.push(i);
+      return;
+    }
+    if (previous && gap.length > 0) {
+      const from = previous;
+      gap.forEach(g => {
+        const span = position[i] - from.at;
+        const t = span === 0 ? 0 : (position[g] - from.at) / span;
+        fills.set(g, fromScalar(from.x + (x - from.x) * t, col));
+      });
+    }
+    previous = { at: position[i], x };
+    gap = [];
+  });
+};
+
+/**
+ * Averages (or for text, votes) the k filled rows closest on the other numeric columns,
+ * z-scored so no column dominates; rows are compared on the columns both have filled.
+ */
+const neighborFills = (rows: DataRow[], values: any[], missing: number[], op: ImputeOperation, col: ColumnScale, fills: Map<number, any>) => {
+  const k = Math.max(1, op.neighbors || DEFAULT_NEIGHBORS);
+  const others = Object.keys(rows[0]).filter(c => c !== op.column);
+  const decimals = detectDecimalSeparators(others, rows);
+  const features = others
+    .map((c, n) => ({ column: rows.map(row => normalizeValue(row[c])), decimal: decimals[n] }))
+    .filter(({ column, decimal }) => scaleOf(column.filter(v => v !== null), decimal).scale === 'number')
+    .map(({ column, decimal }) => {
+      const xs = column.map(v => (v === null ? NaN : parseNumber(v, decimal)?.value ?? NaN));
+      const filled = xs.filter(x => !isNaN(x));
+      const m = filled.length ? mean(filled) : 0;
+      const sd = filled.length ? Math.sqrt(mean(filled.map(x => (x - m) ** 2))) || 1 : 1;
+      return Float64Array.from(xs, x => (x - m) / sd);
+    });
+  if (features.length === 0) return;
+
+  const filledRows = values.flatMap((v, i) => (v === null ? [] : [i]));
+  const donorCount = Math.min(filledRows.length, MAX_DONORS, Math.max(MIN_DONORS, Math.floor(MAX_COMPARISONS / missing.length / features.length)));
+  const step = filledRows.length / donorCount;
+  const donors = Array.from({ length: donorCount }, (_, d) => filledRows[Math.floor(d * step)]);
+
+  missing.forEach(i => {
+    const best: { row: number; distance: number }[] = [];
+    donors.forEach(row => {
+      let sum = 0;
+      let shared = 0;
+      features.forEach(f => {
+        const diff = f[i] - f[row];
+        if (!isNaN(diff)) {
+          sum += diff * diff;
+          shared++;
+        }
+      });
+      if (shared === 0) return;
+      const distance = sum / shared;
+      if (best.length === k && distance >= best[k - 1].distance) return;
+      let at = best.length;
+      while (at > 0 && best[at - 1].distance > distance) at--;
+      best.splice(at, 0, { row, distance });
+      if (best.length > k) best.pop();
+    });
+    if (best.length === 0) return;
+    const neighbors = best.map(b => values[b.row]);
+    const fill = col.scale === 'text' ? mostCommon(neighbors) : centralValue(neighbors, 'mean', col);
+    if (fill !== null) fills.set(i, fill);
+  });
+};
+
+/** The value for each empty cell of `op.column` its strategy can fill, by row index. */
+export const imputeColumn = (rows: DataRow[], op: ImputeOperation): Map<number, any> => {
+  const fills = new Map<number, any>();
+  if (rows.length === 0 || !(op.column in rows[0])) return fills;
+  const values = rows.map(row => normalizeValue(row[op.column]));
+  const missing = values.flatMap((v, i) => (v === null ? [i] : []));
+  if (missing.length === 0) return fills;
+  const present = values.filter(v => v !== null);
+  const col = scaleOf(present, op.decimalSeparator);
+  const averaged = op.strategy === 'mean' || op.strategy === 'median' || op.strategy === 'interpolate';
+  if (averaged && col.scale === 'text') return fills;
+
+  switch (op.strategy) {
+    case 'constant':
+      missing.forEach(i => fills.set(i, op.value ?? ''));
+      break;
+    case 'mean':
+    case 'median':
+    case 'mode': {
+      const fillFor = groupFills(rows, values, op, col, centralValue(present, op.strategy, col));
+      missing.forEach(i => {
+        const fill = fillFor(i);
+        if (fill !== null) fills.set(i, fill);
+      });
+      break;
+    }
+    case 'forward_fill':
+    case 'backward_fill': {
+      const { order } = rowOrder(rows, op.sortBy);
+      carryFills(values, op.strategy === 'forward_fill' ? order : order.reverse(), fills);
+      break;
+    }
+    case 'interpolate': {
+      const { order, position } = rowOrder(rows, op.sortBy);
+      interpolateFills(values, col, order, position, fills);
+      break;
+    }
+    case 'nearest_neighbor':
+      neighborFills(rows, values, missing, op, col, fills);
+      break;
+  }
+  return fills;
+};
+
+/** Fills the column and, with `indicator`, adds the flag column right after it. */
+export const imputeRows = (rows: DataRow[], op: ImputeOperation): DataRow[] => {
+  if (rows.length === 0 || !(op.column in rows[0])) return rows;
+  const fills = imputeColumn(rows, op);
+  const flag = imputeFlagColumn(op.column);
+  return rows.map((row, i) => {
+    if (!op.indicator) return fills.has(i) ? { ...row, [op.column]: fills.get(i) } : row;
+    return Object.fromEntries(Object.entries(row).flatMap(([key, value]): [string, any][] => {
+      if (key === flag) return [];
+      if (key !== op.column) return [[key, value]];
+      return [[key, fills.has(i) ? fills.get(i) : value], [flag, fills.has(i)]];
+    }));
+  });
+};
+
+// --- Preview ---
+
+export interface ValueSummary {
+  count: number;
+  mean?: number;
+  median?: number;
+  stdDev?: number;
+  histogram?: number[]; // Bins shared by before and after
+  top?: { value: string; count: number }[]; // Text columns
+}
+
+export interface ImputationPreview {
+  scale: Scale;
+  filled: number;
+  remaining: number; // Empty cells the strategy left empty
+  range?: [number, number]; // Histogram span
+  before: ValueSummary;
+  after: ValueSummary;
+}
+
+const PREVIEW_BINS = 20;
+const PREVIEW_TOP = 5;
+
+const summarize = (values: any[], col: ColumnScale, range?: [number, number]): ValueSummary => {
+  if (col.scale === 'text' || !range) {
+    const counts = new Map<string, number>();
+    values.forEach(v => counts.set(String(v), (counts.get(String(v)) || 0) + 1));
+    const top = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, PREVIEW_TOP).map(([value, count]) => ({ value, count }));
+    return { count: values.length, top };
+  }
+  const xs = values.map(v => toScalar(v, col)).filter((x): x is number => x !== null);
+  if (xs.length === 0) return { count: 0 };
+  const m = mean(xs);
+  const histogram = new Array(PREVIEW_BINS).fill(0);
+  const width = (range[1] - range[0]) / PREVIEW_BINS || 1;
+  xs.forEach(x => { histogram[Math.min(PREVIEW_BINS - 1, Math.max(0, Math.floor((x - range[0]) / width)))]++; });
+  return { count: xs.length, mean: m, median: median(xs), stdDev: Math.sqrt(mean(xs.map(x => (x - m) ** 2))), histogram };
+};
+
+/** How the column's filled values are distributed before and after the operation fills it. */
+export const previewImputation = (rows: DataRow[], op: ImputeOperation): ImputationPreview | null => {
+  if (rows.length === 0 || !(op.column in rows[0])) return null;
+  const values = rows.map(row => normalizeValue(row[op.column]));
+  const present = values.filter(v => v !== null);
+  const fills = imputeColumn(rows, op);
+  const after = [...present, ...fills.values()];
+  const col = scaleOf(present, op.decimalSeparator);
+
+  let range: [number, number] | undefined;
+  if (col.scale !== 'text') {
+    const xs = after.map(v => toScalar(v, col)).filter((x): x is number => x !== null);
+    if (xs.length > 0) range = [xs.reduce((a, b) => Math.min(a, b)), xs.reduce((a, b) => Math.max(a, b))];
+  }
+  return {
+    scale: col.scale,
+    filled: fills.size,
+    remaining: values.length - present.length - fills.size,
+    range,
+    before: summarize(present, col, range),
+    after: summarize(after, col, range)
+  };
+};
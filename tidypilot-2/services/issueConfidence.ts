@@ -0,0 +1,62 @@
+import { ColumnIssue, DatasetStats } from '../types';
+
+// Findings below this are hidden behind the Dashboard's low-confidence toggle
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+// Findings without their own evidence: counted facts are certain, heuristics less so
+const DEFAULT_CONFIDENCE: Record<ColumnIssue['type'], number> = {
+  missing: 1,
+  duplicate_rows: 1,
+  schema_mismatch: 1,
+  validation_error: 0.95,
+  inconsistent_category: 0.9,
+  mixed_types: 0.9,
+  invalid_date: 0.9,
+  redundant_column: 0.95,
+  key_violation: 0.8,
+  dependency_violation: 0.7,
+  outlier: 0.7,
+  missing_pattern: 0.75
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Trust in a finding backed by `n` observations: 0.5 at `half`, approaching 1 beyond. */
+export const sampleSupport = (n: number, half: number) => n / (n + half);
+
+/**
+ * Confidence in a type chosen because `share` of `n` values fit it, with `threshold` the
+ * share needed to choose it at all: 0.3 right at the threshold, 1 when every value fits.
+ */
+export const typeConfidence = (share: number, n: number, threshold: number = 0.8) =>
+  (0.3 + 0.7 * clamp((share - threshold) / (1 - threshold))) * sampleSupport(n, 10);
+
+/**
+ * How likely `variant` is a misspelling of `canonical`: few edits for its length, rare
+ * next to the canonical spelling ("Enginer" ×2 beside "Engineer" ×500, not "North" beside
+ * "South"), and a canonical spelling seen often enough to trust. At distance 0 the two only
+ * differ in formatting ("Smith, John" / "John Smith"), which holds however common each is.
+ */
+export const typoConfidence = (
+  variant: { value: string; count: number },
+  canonical: { value: string; count: number },
+  distance: number
+) => {
+  const similarity = 1 - distance / Math.max(variant.value.length, canonical.value.length);
+  const dominance = distance === 0 ? 1 : 1 - Math.min(1, variant.count / canonical.count);
+  return clamp(similarity * dominance * sampleSupport(canonical.count, 3));
+};
+
+export const withConfidence = (issue: ColumnIssue, confidence: number): ColumnIssue => {
+  const rounded = Math.round(clamp(confidence) * 100) / 100;
+  return { ...issue, confidence: rounded, isLowConfidence: rounded < LOW_CONFIDENCE_THRESHOLD };
+};
+
+/** Gives every issue without an evidence-based confidence the default for its type. */
+export const scoreIssues = (stats: DatasetStats): DatasetStats => ({
+  ...stats,
+  columns: stats.columns.map(c => ({
+    ...c,
+    issues: c.issues.map(i => (i.confidence !== undefined ? i : withConfidence(i, DEFAULT_CONFIDENCE[i.type])))
+  }))
+});
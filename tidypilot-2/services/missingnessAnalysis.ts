@@ -0,0 +1,273 @@
+import { DataRow, DatasetStats, ColumnProfile, ColumnIssue, MissingnessReport, MissingnessCondition, MissingRun } from '../types';
+import { normalizeValue } from './dataProcessing';
+import { toISODate } from './dateParsing';
+import { STRUCTURE_ROW_LIMIT } from './structureDiscovery';
+import { withConfidence, sampleSupport } from './issueConfidence';
+
+const MAX_COLUMNS = 30;
+const MAX_CATEGORIES = 50;
+const NULLITY_ROWS = 120;
+const ROW_INDEX_LIMIT = 100;
+const SPARSE_ROW_SHARE = 0.5;
+const MIN_SPARSE_COLUMNS = 4;
+const MIN_PAIR_ROWS = 10;
+const CO_MISSING_JACCARD = 0.8;
+const MIN_GROUP_ROWS = 10;
+const MIN_GROUP_SHARE = 0.5;
+const MIN_SHARE_GAP = 0.4;
+const MIN_RUN_ROWS = 20;
+const RUN_FACTOR = 3; // How much longer than chance a run must be
+
+// --- Conditions ---
+
+interface EncodedCategory {
+  name: string;
+  codes: Int32Array; // -1 when empty
+  values: string[];
+}
+
+const encodeCategory = (rows: DataRow[], name: string): EncodedCategory => {
+  const codes = new Int32Array(rows.length);
+  const lookup = new Map<string, number>();
+  const values: string[] = [];
+  rows.forEach((row, i) => {
+    const v = normalizeValue(row[name]);
+    if (v === null) {
+      codes[i] = -1;
+      return;
+    }
+    const key = String(v);
+    let code = lookup.get(key);
+    if (code === undefined) {
+      code = values.length;
+      lookup.set(key, code);
+      values.push(key);
+    }
+    codes[i] = code;
+  });
+  return { name, codes, values };
+};
+
+/**
+ * The category value whose rows leave `empty` blank far more often than the rest of the
+ * file ("email is missing in 85% of EMEA rows, 2% elsewhere").
+ */
+const findCondition = (empty: Uint8Array, missing: number, by: EncodedCategory, column: string): MissingnessCondition | null => {
+  const rows = new Float64Array(by.values.length);
+  const missingRows = new Float64Array(by.values.length);
+  for (let i = 0; i < empty.length; i++) {
+    if (by.codes[i] < 0) continue;
+    rows[by.codes[i]]++;
+    missingRows[by.codes[i]] += empty[i];
+  }
+
+  let best: MissingnessCondition | null = null;
+  by.values.forEach((value, c) => {
+    if (rows[c] < MIN_GROUP_ROWS || rows[c] === empty.length) return;
+    const missingShare = missingRows[c] / rows[c];
+    const otherShare = (missing - missingRows[c]) / (empty.length - rows[c]);
+    if (missingShare < MIN_GROUP_SHARE || missingShare - otherShare < MIN_SHARE_GAP) return;
+    if (!best || missingShare - otherShare > best.missingShare - best.otherShare) {
+      best = { column, byColumn: by.name, value, missingShare, otherShare, rows: rows[c] };
+    }
+  });
+  return best;
+};
+
+// --- Runs ---
+
+/** Longest streak of empty cells expected by chance when a share `p` of `n` cells is empty. */
+const expectedLongestRun = (n: number, p: number) => Math.log(n * (1 - p)) / Math.log(1 / p);
+
+/** The longest streak of empty cells in date order, when it's far longer than chance. */
+const findRun = (empty: Uint8Array, missing: number, order: number[], dates: (string | null)[], column: string, dateColumn: string): MissingRun | null => {
+  const p = missing / order.length;
+  if (p === 0 || p >= 0.9) return null;
+
+  let bestStart = 0, bestLength = 0, start = 0, length = 0;
+  order.forEach((row, k) => {
+    if (empty[row]) {
+      if (length === 0) start = k;
+      length++;
+      if (length > bestLength) {
+        bestLength = length;
+        bestStart = start;
+      }
+    } else {
+      length = 0;
+    }
+  });
+  if (bestLength < MIN_RUN_ROWS || bestLength < RUN_FACTOR * expectedLongestRun(order.length, p)) return null;
+  return {
+    column,
+    dateColumn,
+    from: dates[order[bestStart]]!.substring(0, 10),
+    to: dates[order[bestStart + bestLength - 1]]!.substring(0, 10),
+    rows: bestLength
+  };
+};
+
+// --- Public API ---
+
+export const analyzeMissingness = (rows: DataRow[], columns: ColumnProfile[]): MissingnessReport => {
+  const sample = rows.length > STRUCTURE_ROW_LIMIT ? rows.slice(0, STRUCTURE_ROW_LIMIT) : rows;
+  const n = sample.length;
+
+  // Empty flags per column, and per-row totals across every column
+  const emptyCounts = new Uint16Array(n);
+  const flags = new Map<string, { empty: Uint8Array; missing: number }>();
+  columns.forEach(col => {
+    const empty = new Uint8Array(n);
+    let missing = 0;
+    sample.forEach((row, i) => {
+      if (normalizeValue(row[col.name]) === null) {
+        empty[i] = 1;
+        emptyCounts[i]++;
+        missing++;
+      }
+    });
+    if (missing > 0) flags.set(col.name, { empty, missing });
+  });
+
+  const tracked = Array.from(flags.keys()).sort((a, b) => flags.get(b)!.missing - flags.get(a)!.missing).slice(0, MAX_COLUMNS);
+  const trackedFlags = tracked.map(name => flags.get(name)!.empty);
+
+  const coMissing = tracked.map(() => new Array(tracked.length).fill(0));
+  const perRow = new Map<number, number>();
+  const sparseRows: number[] = [];
+  let sparseRowCount = 0;
+  const sparseAt = columns.length >= MIN_SPARSE_COLUMNS ? Math.ceil(columns.length * SPARSE_ROW_SHARE) : Infinity;
+  for (let i = 0; i < n; i++) {
+    perRow.set(emptyCounts[i], (perRow.get(emptyCounts[i]) || 0) + 1);
+    if (emptyCounts[i] >= sparseAt) {
+      sparseRowCount++;
+      if (sparseRows.length < ROW_INDEX_LIMIT) sparseRows.push(i);
+    }
+    if (emptyCounts[i] === 0) continue;
+    const emptyHere: number[] = [];
+    trackedFlags.forEach((empty, c) => { if (empty[i]) emptyHere.push(c); });
+    emptyHere.forEach(a => emptyHere.forEach(b => { coMissing[a][b]++; }));
+  }
+
+  const nullity = Array.from({ length: Math.min(n, NULLITY_ROWS) }, (_, k) => {
+    const row = Math.floor((k * n) / Math.min(n, NULLITY_ROWS));
+    return { row, empty: trackedFlags.flatMap((empty, c) => (empty[row] ? [c] : [])) };
+  });
+
+  // Missing-by-category, against every low-cardinality text column
+  const categories = columns
+    .filter(c => (c.inferredType === 'string' || c.inferredType === 'boolean') && c.uniqueCount >= 2 && c.uniqueCount <= MAX_CATEGORIES)
+    .slice(0, MAX_COLUMNS)
+    .map(c => encodeCategory(sample, c.name));
+  const conditions = tracked.flatMap(name => {
+    const { empty, missing } = flags.get(name)!;
+    if (missing < MIN_GROUP_ROWS || missing === n) return [];
+    const found = categories
+      .filter(c => c.name !== name)
+      .map(c => findCondition(empty, missing, c, name))
+      .filter((c): c is MissingnessCondition => c !== null)
+      .sort((a, b) => (b.missingShare - b.otherShare) - (a.missingShare - a.otherShare));
+    return found.slice(0, 1);
+  });
+
+  // Runs in date order, on the first mostly-filled date column
+  const dateColumn = columns.find(c => c.dateFormat && (flags.get(c.name)?.missing || 0) < n / 2);
+  let runs: MissingRun[] = [];
+  if (dateColumn) {
+    const dates = sample.map(row => toISODate(normalizeValue(row[dateColumn.name]), dateColumn.dateFormat!));
+    const order = Array.from(dates.keys()).filter(i => dates[i] !== null).sort((a, b) => (dates[a]! < dates[b]! ? -1 : dates[a]! > dates[b]! ? 1 : a - b));
+    runs = tracked
+      .filter(name => name !== dateColumn.name)
+      .map(name => {
+        const { empty } = flags.get(name)!;
+        return findRun(empty, order.filter(i => empty[i]).length, order, dates, name, dateColumn.name);
+      })
+      .filter((r): r is MissingRun => r !== null);
+  }
+
+  return {
+    columns: tracked,
+    coMissing,
+    emptyCellsPerRow: Array.from(perRow, ([emptyCells, count]) => ({ emptyCells, rows: count })).sort((a, b) => a.emptyCells - b.emptyCells),
+    sparseRows,
+    sparseRowCount,
+    nullity,
+    conditions,
+    runs,
+    sampledRows: rows.length > STRUCTURE_ROW_LIMIT ? n : undefined
+  };
+};
+
+const percent = (share: number) => `${(share * 100).toFixed(share < 0.1 ? 1 : 0)}%`;
+
+export const describeCondition = (c: MissingnessCondition): string =>
+  `Empty in ${percent(c.missingShare)} of rows where ${c.byColumn} = ${c.value} (${percent(c.otherShare)} elsewhere)`;
+
+export const describeRun = (r: MissingRun): string =>
+  `Empty for ${r.rows} consecutive rows by ${r.dateColumn} (${r.from} to ${r.to})`;
+
+/**
+ * Adds the missingness report to profiled stats and reports its findings on the columns
+ * concerned: columns empty together, empty for one category, empty for a stretch of time,
+ * and mostly-empty rows (on the emptiest column).
+ */
+export const withMissingness = (stats: DatasetStats, rows: DataRow[]): DatasetStats => {
+  const missingness = analyzeMissingness(rows, stats.columns);
+  const { columns, coMissing } = missingness;
+  const issuesFor = new Map<string, ColumnIssue[]>();
+  const report = (column: string, issue: ColumnIssue) => issuesFor.set(column, [...(issuesFor.get(column) || []), issue]);
+
+  if (missingness.sparseRowCount > 0) {
+    report(columns[0], {
+      type: 'missing_pattern',
+      description: `${missingness.sparseRowCount} rows have at least half their cells empty`,
+      severity: 'Medium',
+      count: missingness.sparseRowCount,
+      examples: missingness.sparseRows.slice(0, 3).map(r => `row ${r + 1}`),
+      rowIndices: missingness.sparseRows
+    });
+  }
+
+  // Each column is reported with the emptier column it most often shares blanks with
+  columns.forEach((name, j) => {
+    let best = -1, bestJaccard = 0;
+    for (let i = 0; i < j; i++) {
+      const both = coMissing[i][j];
+      const jaccard = both / (coMissing[i][i] + coMissing[j][j] - both);
+      if (both >= MIN_PAIR_ROWS && jaccard >= CO_MISSING_JACCARD && jaccard > bestJaccard) {
+        best = i;
+        bestJaccard = jaccard;
+      }
+    }
+    if (best < 0) return;
+    report(name, withConfidence({
+      type: 'missing_pattern',
+      description: `Empty together with ${columns[best]} in ${coMissing[best][j]} rows`,
+      severity: 'Low',
+      count: coMissing[best][j],
+      examples: [columns[best]]
+    }, bestJaccard * sampleSupport(coMissing[best][j], 10)));
+  });
+
+  missingness.conditions.forEach(c => report(c.column, withConfidence({
+    type: 'missing_pattern',
+    description: describeCondition(c),
+    severity: 'Medium',
+    count: Math.round(c.missingShare * c.rows),
+    examples: [`${c.byColumn} = ${c.value}`]
+  }, (c.missingShare - c.otherShare) * sampleSupport(c.rows, 20))));
+
+  missingness.runs.forEach(r => report(r.column, withConfidence({
+    type: 'missing_pattern',
+    description: describeRun(r),
+    severity: 'Medium',
+    count: r.rows,
+    examples: [`${r.from} – ${r.to}`]
+  }, sampleSupport(r.rows, 10))));
+
+  return {
+    ...stats,
+    missingness,
+    columns: stats.columns.map(c => (issuesFor.has(c.name) ? { ...c, issues: [...c.issues, ...issuesFor.get(c.name)!] } : c))
+  };
+};
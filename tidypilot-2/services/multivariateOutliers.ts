@@ -0,0 +1,149 @@
+import { DataRow, DatasetStats, AppSettings } from '../types';
+import { normalizeValue } from './dataProcessing';
+import { parseNumber } from './numberParsing';
+import { Sensitivity, ROW_INDEX_LIMIT, EXAMPLE_LIMIT } from './outlierDetection';
+import { STRUCTURE_ROW_LIMIT } from './structureDiscovery';
+import { withConfidence, sampleSupport } from './issueConfidence';
+
+const MAX_MULTIVARIATE_COLUMNS = 12;
+const MIN_ROWS_PER_COLUMN = 10;
+const REWEIGHT_TRIM = 0.05;
+
+// Normal quantiles for the chi-square cut-off (Wilson–Hilferty)
+const TAIL_Z: Record<Sensitivity, number> = { Low: 3.719, Medium: 3.09, High: 2.326 };
+
+const chiSquareQuantile = (df: number, z: number) => {
+  const a = 2 / (9 * df);
+  return df * Math.pow(1 - a + z * Math.sqrt(a), 3);
+};
+
+/** Mean and inverse covariance, with a small ridge so collinear columns stay invertible. */
+const fitGaussian = (points: number[][]): { mean: number[]; scale: number[]; inverse: number[][] } | null => {
+  const p = points[0].length;
+  const mean = new Array(p).fill(0);
+  points.forEach(x => x.forEach((v, j) => { mean[j] += v / points.length; }));
+
+  const cov = Array.from({ length: p }, () => new Array(p).fill(0));
+  points.forEach(x => {
+    for (let i = 0; i < p; i++) {
+      for (let j = i; j < p; j++) cov[i][j] += ((x[i] - mean[i]) * (x[j] - mean[j])) / (points.length - 1);
+    }
+  });
+  const trace = cov.reduce((sum, row, i) => sum + row[i], 0);
+  for (let i = 0; i < p; i++) {
+    for (let j = 0; j < i; j++) cov[i][j] = cov[j][i];
+    cov[i][i] += 1e-6 * (trace / p || 1);
+  }
+
+  const scale = cov.map((row, i) => Math.sqrt(row[i]));
+
+  // Gauss-Jordan elimination with partial pivoting
+  const m = cov.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < p; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < p; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const div = m[col][col];
+    for (let j = 0; j < 2 * p; j++) m[col][j] /= div;
+    for (let r = 0; r < p; r++) {
+      if (r === col) continue;
+      const factor = m[r][col];
+      for (let j = 0; j < 2 * p; j++) m[r][j] -= factor * m[col][j];
+    }
+  }
+  return { mean, scale, inverse: m.map(row => row.slice(p)) };
+};
+
+const mahalanobis = (x: number[], mean: number[], inverse: number[][]) => {
+  const d = x.map((v, i) => v - mean[i]);
+  let sum = 0;
+  for (let i = 0; i < d.length; i++) {
+    for (let j = 0; j < d.length; j++) sum += d[i] * inverse[i][j] * d[j];
+  }
+  return sum;
+};
+
+/**
+ * Rows whose combination of numeric values is unusual even when each value is ordinary on
+ * its own (a 2-unit order with a 5,000 total). Uses Mahalanobis distance, refitted without
+ * the most distant rows so a cluster of bad rows can't hide itself. Each finding is
+ * reported on the column that deviates most in that row.
+ */
+export const withMultivariateOutliers = (stats: DatasetStats, rows: DataRow[], settings: AppSettings): DatasetStats => {
+  if (!settings.multivariateOutliers) return stats;
+  const keyColumns = new Set(stats.structure?.keys.filter(k => k.columns.length === 1).map(k => k.columns[0]));
+  const columns = stats.columns
+    .filter(c => c.inferredType === 'number' && !c.semanticType && !c.dateFormat && c.numericStats && c.numericStats.stdDev > 0 && !keyColumns.has(c.name))
+    .slice(0, MAX_MULTIVARIATE_COLUMNS);
+  if (columns.length < 2) return stats;
+
+  const sample = rows.length > STRUCTURE_ROW_LIMIT ? rows.slice(0, STRUCTURE_ROW_LIMIT) : rows;
+  const decimals = columns.map(c => c.numberFormat?.decimalSeparator || '.');
+  // Strictly positive columns are compared on a log scale: products such as qty × price
+  // become linear there, and amounts lose the long tail that reads as odd combinations
+  const logScale = columns.map(c => c.numericStats!.min > 0);
+  // Rows already reported as single-column outliers aren't repeated here
+  const reported = new Set(columns.flatMap(c => c.issues.filter(i => i.type === 'outlier').flatMap(i => i.rowIndices || [])));
+
+  const points: number[][] = [];
+  const pointRows: number[] = [];
+  sample.forEach((row, r) => {
+    if (reported.has(r)) return;
+    const x: number[] = [];
+    for (let j = 0; j < columns.length; j++) {
+      const v = normalizeValue(row[columns[j].name]);
+      const parsed = v === null ? null : parseNumber(v, decimals[j]);
+      if (!parsed || (logScale[j] && parsed.value <= 0)) return; // Complete rows only
+      x.push(logScale[j] ? Math.log(parsed.value) : parsed.value);
+    }
+    points.push(x);
+    pointRows.push(r);
+  });
+  if (points.length < MIN_ROWS_PER_COLUMN * columns.length) return stats;
+
+  const first = fitGaussian(points);
+  if (!first) return stats;
+  const firstDistances = points.map(x => mahalanobis(x, first.mean, first.inverse));
+  const cutoff = [...firstDistances].sort((a, b) => a - b)[Math.floor(points.length * (1 - REWEIGHT_TRIM))];
+  const fit = fitGaussian(points.filter((_, i) => firstDistances[i] <= cutoff)) || first;
+
+  const limit = chiSquareQuantile(columns.length, TAIL_Z[settings.outlierSensitivity]);
+  const byColumn = new Map<string, { row: number; score: number; example: string }[]>();
+  points.forEach((x, i) => {
+    const distance = mahalanobis(x, fit.mean, fit.inverse);
+    if (distance <= limit) return;
+    // The column furthest from its centre, in its own standard deviations
+    const spread = (j: number) => Math.abs(x[j] - fit.mean[j]) / fit.scale[j];
+    let top = 0;
+    x.forEach((_, j) => { if (spread(j) > spread(top)) top = j; });
+    const name = columns[top].name;
+    const example = columns.map(c => `${c.name}=${rows[pointRows[i]][c.name]}`).slice(0, 4).join(', ');
+    if (!byColumn.has(name)) byColumn.set(name, []);
+    byColumn.get(name)!.push({ row: pointRows[i], score: Math.sqrt(distance), example });
+  });
+  if (byColumn.size === 0) return stats;
+
+  const names = columns.map(c => c.name).join(', ');
+  return {
+    ...stats,
+    columns: stats.columns.map(c => {
+      const found = byColumn.get(c.name);
+      if (!found) return c;
+      found.sort((a, b) => b.score - a.score);
+      const top = found.slice(0, ROW_INDEX_LIMIT);
+      // The fit needs many rows per column, and a combination is weaker evidence than a single value
+      const issue = withConfidence({
+        type: 'outlier',
+        description: `${found.length} rows are unusual combinations of ${names} (multivariate)`,
+        severity: 'Low',
+        count: found.length,
+        examples: top.slice(0, EXAMPLE_LIMIT).map(f => f.example),
+        isAnomaly: true,
+        rowIndices: top.map(f => f.row),
+        anomalyScores: top.map(f => Number(f.score.toFixed(2)))
+      }, sampleSupport(points.length, 20 * columns.length) * 0.6);
+      return { ...c, issues: [...c.issues, issue] };
+    })
+  };
+};
@@ -0,0 +1,195 @@
+import { DataRow, DecimalSeparator, NumberLocale } from '../types';
+
+export interface ParsedNumber {
+  value: number;
+  currency?: string; // Normalized ISO code, e.g. "USD"
+  unit?: string; // Lower-cased unit suffix, e.g. "%", "kg"
+}
+
+// --- Symbols & Suffixes ---
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD', 'US$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR', '₩': 'KRW',
+  '₽': 'RUB', '₺': 'TRY', '₪': 'ILS', '₫': 'VND', '฿': 'THB', 'R$': 'BRL', 'A$': 'AUD',
+  'C$': 'CAD', 'CHF': 'CHF', 'zł': 'PLN', 'kr': 'SEK', 'Fr.': 'CHF'
+};
+
+const CURRENCY_CODES = new Set([
+  'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'CHF', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK', 'DKK',
+  'PLN', 'CZK', 'HUF', 'BRL', 'MXN', 'ZAR', 'RUB', 'TRY', 'KRW', 'SGD', 'HKD', 'AED', 'SAR'
+]);
+
+// Magnitude suffixes are case-sensitive so "5m" (metres) and "5M" (million) stay distinct.
+// A single letter only counts next to a currency or a decimal part ("$12K", "1.2k"), since
+// codes like "4B" or "12K" are apartment, size or grade labels
+const MAGNITUDES: Record<string, number> = {
+  k: 1e3, K: 1e3, M: 1e6, MM: 1e6, mn: 1e6, B: 1e9, bn: 1e9, Bn: 1e9
+};
+
+const UNITS = new Set([
+  '%', '‰', 'bp', 'bps',
+  'mg', 'g', 'kg', 't', 'oz', 'lb', 'lbs',
+  'mm', 'cm', 'm', 'km', 'in', 'ft', 'mi',
+  'ml', 'l', 'gal',
+  'ms', 's', 'sec', 'min', 'h', 'hr', 'hrs', 'd', 'days',
+  'w', 'kw', 'kwh', 'mw', 'mwh',
+  'kb', 'mb', 'gb', 'tb',
+  'pcs', 'px', '°c', '°f'
+]);
+
+// Symbols sorted longest first so "US$" wins over "$"
+const SYMBOL_LIST = Object.keys(CURRENCY_SYMBOLS).sort((a, b) => b.length - a.length);
+
+// Whitespace (which covers no-break spaces) and apostrophes are grouping-only in every locale
+const SPACE_GROUPS = /[\s']/g;
+
+const stripCurrency = (s: string): { rest: string; currency?: string } => {
+  const upper = s.toUpperCase();
+  for (const code of CURRENCY_CODES) {
+    if (upper.startsWith(code)) return { rest: s.slice(code.length).trim(), currency: code };
+    if (upper.endsWith(code)) return { rest: s.slice(0, -code.length).trim(), currency: code };
+  }
+  for (const symbol of SYMBOL_LIST) {
+    if (s.startsWith(symbol)) return { rest: s.slice(symbol.length).trim(), currency: CURRENCY_SYMBOLS[symbol] };
+    if (s.endsWith(symbol)) return { rest: s.slice(0, -symbol.length).trim(), currency: CURRENCY_SYMBOLS[symbol] };
+  }
+  return { rest: s };
+};
+
+/**
+ * Validates and removes digit grouping. Groups must be three digits (or the Indian
+ * 2-2-3 pattern), so "1,5" is not silently read as 15 under a dot-decimal locale. The
+ * leading group never starts with 0, so "0,125" is not read as 125.
+ */
+const ungroup = (intPart: string, group: string): string | null => {
+  if (!intPart.includes(group)) return /^\d+$/.test(intPart) ? intPart : null;
+  const parts = intPart.split(group);
+  const western = /^[1-9]\d{0,2}$/.test(parts[0]) && parts.slice(1).every(p => /^\d{3}$/.test(p));
+  const indian = parts.length > 2 && /^[1-9]\d?$/.test(parts[0]) &&
+    parts.slice(1, -1).every(p => /^\d{2}$/.test(p)) && /^\d{3}$/.test(parts[parts.length - 1]);
+  return western || indian ? parts.join('') : null;
+};
+
+// --- Parsing ---
+
+/**
+ * Parses a locale-formatted number: "1.234,56", "(450.00)", "£1,200", "12%", "1 234",
+ * "1.2k", "450-". Returns null when the value isn't a number under the given decimal separator.
+ */
+export const parseNumber = (raw: any, decimal: DecimalSeparator = '.'): ParsedNumber | null => {
+  if (typeof raw === 'number') return isFinite(raw) ? { value: raw } : null;
+  if (raw === null || raw === undefined || typeof raw === 'boolean') return null;
+
+  let s = String(raw).trim().replace(/[−‒–]/g, '-');
+  if (s === '' || s.length > 40) return null;
+
+  let negative = false;
+  // Accounting negatives: (450.00) and trailing minus as exported by some ERPs
+  if (s.startsWith('(') && s.endsWith(')')) {
+    negative = true;
+    s = s.slice(1, -1).trim();
+  }
+  if (s.endsWith('-') && s.length > 1) {
+    negative = !negative;
+    s = s.slice(0, -1).trim();
+  }
+
+  let { rest, currency } = stripCurrency(s);
+  s = rest;
+  if (s.startsWith('-') || s.startsWith('+')) {
+    if (s.startsWith('-')) negative = !negative;
+    s = s.slice(1).trim();
+    // "-$5" puts the sign before the symbol
+    if (!currency) ({ rest: s, currency } = stripCurrency(s));
+  }
+
+  let unit: string | undefined;
+  let multiplier = 1;
+  const suffix = s.match(/^(.*?\d)\s*([^\d\s.,][^\d]*)$/);
+  if (suffix) {
+    const token = suffix[2].trim();
+    if (Object.prototype.hasOwnProperty.call(MAGNITUDES, token)) {
+      if (token.length === 1 && !currency && !suffix[1].includes(decimal)) return null;
+      multiplier = MAGNITUDES[token];
+    } else if (UNITS.has(token.toLowerCase())) unit = token.toLowerCase();
+    else return null;
+    s = suffix[1];
+  }
+
+  // Space and apostrophe grouping is validated like the locale's own group separator
+  const group = decimal === '.' ? ',' : '.';
+  s = s.replace(SPACE_GROUPS, group);
+
+  const exponent = s.match(/[eE][+-]?\d+$/);
+  if (exponent) s = s.slice(0, -exponent[0].length);
+
+  const decimalIndex = s.lastIndexOf(decimal);
+  const intPart = decimalIndex === -1 ? s : s.slice(0, decimalIndex);
+  const fracPart = decimalIndex === -1 ? '' : s.slice(decimalIndex + 1);
+  if (fracPart !== '' && !/^\d+$/.test(fracPart)) return null;
+  if (intPart === '' && fracPart === '') return null;
+
+  const digits = intPart === '' ? '0' : ungroup(intPart, group);
+  if (digits === null) return null;
+
+  const value = Number(`${digits}.${fracPart || '0'}${exponent ? exponent[0] : ''}`) * multiplier;
+  if (!isFinite(value)) return null;
+
+  const parsed: ParsedNumber = { value: negative ? -value : value };
+  if (currency) parsed.currency = currency;
+  if (unit) parsed.unit = unit;
+  return parsed;
+};
+
+// --- Locale Detection ---
+
+/**
+ * Votes for a decimal separator from the shapes of the values: "12,5" or "1.234,56" point
+ * to a decimal comma, "12.5" or "1,234.56" to a decimal point. "1,234" alone is ambiguous
+ * and casts no vote.
+ */
+const voteDecimal = (raw: any): DecimalSeparator | null => {
+  if (typeof raw !== 'string') return null;
+  const s = raw.replace(SPACE_GROUPS, '');
+  const lastDot = s.lastIndexOf('.');
+  const lastComma = s.lastIndexOf(',');
+  if (lastDot !== -1 && lastComma !== -1) return lastDot > lastComma ? '.' : ',';
+
+  const sep = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+  if (!sep) return null;
+  const parts = s.split(sep);
+  // Repeated separators can only be grouping
+  if (parts.length > 2) return sep === '.' ? ',' : '.';
+  const digitsAfter = (parts[1].match(/^\d+/) || [''])[0].length;
+  if (digitsAfter === 0 || !/\d$/.test(parts[0])) return null;
+  // A leading zero can't be a thousands group: "0,125" is a decimal
+  return digitsAfter === 3 && !/^[-+]?0$/.test(parts[0]) ? null : sep;
+};
+
+const SAMPLE_ROWS = 2000;
+
+/**
+ * Picks the decimal separator for each column from a sample of rows. Columns without
+ * evidence follow the dataset-wide majority, then the decimal point. An explicit locale
+ * setting overrides detection.
+ */
+export const detectDecimalSeparators = (headers: string[], rows: DataRow[], locale: NumberLocale = 'auto'): DecimalSeparator[] => {
+  if (locale === 'en') return headers.map(() => '.');
+  if (locale === 'eu') return headers.map(() => ',');
+
+  const sample = rows.slice(0, SAMPLE_ROWS);
+  const totals = { '.': 0, ',': 0 };
+  const perColumn = headers.map(header => {
+    const votes = { '.': 0, ',': 0 };
+    sample.forEach(row => {
+      const vote = voteDecimal(row[header]);
+      if (vote && parseNumber(row[header], vote)) votes[vote]++;
+    });
+    totals['.'] += votes['.'];
+    totals[','] += votes[','];
+    return votes;
+  });
+
+  const fallback: DecimalSeparator = totals[','] > totals['.'] ? ',' : '.';
+  return perColumn.map(votes => (votes[','] > votes['.'] ? ',' : votes['.'] > votes[','] ? '.' : fallback));
+};
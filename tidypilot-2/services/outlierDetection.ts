@@ -0,0 +1,179 @@
+import { ColumnIssue, AppSettings, OutlierMethod } from '../types';
+import { SketchView, RunningMoments, ExtremeValues, ExtremeValue } from './streamingStats';
+import { withConfidence, sampleSupport } from './issueConfidence';
+
+export type Sensitivity = AppSettings['outlierSensitivity'];
+type ConcreteMethod = Exclude<OutlierMethod, 'auto'>;
+
+export const ROW_INDEX_LIMIT = 100;
+export const EXAMPLE_LIMIT = 3;
+
+/**
+ * A fitted detector. Values outside [lower, upper] are anomalies; outside the wider
+ * [extremeLower, extremeUpper] they're outliers (Tukey's inner and outer fences). The
+ * score grows with distance from the centre, in the detector's own units.
+ */
+interface Fence {
+  lower: number;
+  upper: number;
+  extremeLower: number;
+  extremeUpper: number;
+  score: (value: number) => number;
+}
+
+interface ColumnDistribution {
+  sketch: SketchView;
+  moments: RunningMoments;
+}
+
+const METHOD_LABELS: Record<ConcreteMethod, string> = {
+  iqr: 'IQR',
+  log_iqr: 'log-scale IQR',
+  zscore: 'z-score',
+  mad: 'modified z-score'
+};
+
+// Inner fence per sensitivity; the outer fence is twice as far out
+const THRESHOLDS: Record<ConcreteMethod, Record<Sensitivity, number>> = {
+  iqr: { Low: 3, Medium: 1.5, High: 1 },
+  log_iqr: { Low: 3, Medium: 1.5, High: 1 },
+  zscore: { Low: 4, Medium: 3, High: 2.5 },
+  mad: { Low: 5, Medium: 3.5, High: 3 }
+};
+
+const quantile = (sketch: SketchView, q: number) => sketch.valueAtRank(Math.floor(sketch.count * q));
+
+/** Fence at `k` and `2k` spreads around a centre (or a quartile pair), scored in spread units. */
+const symmetricFence = (low: number, high: number, spread: number, k: number): Fence => ({
+  lower: low - k * spread,
+  upper: high + k * spread,
+  extremeLower: low - 2 * k * spread,
+  extremeUpper: high + 2 * k * spread,
+  score: v => (v > high ? (v - high) / spread : v < low ? (low - v) / spread : 0)
+});
+
+/**
+ * Median absolute deviation from the sketch: the smallest d with half the values
+ * within median ± d, found by bisection.
+ */
+const sketchMAD = (sketch: SketchView, median: number, min: number, max: number): number => {
+  let lo = 0;
+  let hi = Math.max(max - median, median - min);
+  for (let i = 0; i < 50 && hi - lo > 1e-9 * (1 + hi); i++) {
+    const d = (lo + hi) / 2;
+    const within = sketch.count - sketch.countBelow(median - d) - sketch.countAbove(median + d);
+    if (within >= sketch.count / 2) hi = d;
+    else lo = d;
+  }
+  return hi;
+};
+
+const fitFence = (method: ConcreteMethod, { sketch, moments }: ColumnDistribution, k: number): Fence | null => {
+  switch (method) {
+    case 'iqr': {
+      const q1 = quantile(sketch, 0.25);
+      const q3 = quantile(sketch, 0.75);
+      return q3 > q1 ? symmetricFence(q1, q3, q3 - q1, k) : null;
+    }
+    case 'log_iqr': {
+      // Quartiles commute with log, so the sketch of raw values serves the log scale too
+      if (moments.min <= 0) return null;
+      const q1 = Math.log(quantile(sketch, 0.25));
+      const q3 = Math.log(quantile(sketch, 0.75));
+      if (!(q3 > q1)) return null;
+      const log = symmetricFence(q1, q3, q3 - q1, k);
+      return {
+        lower: Math.exp(log.lower),
+        upper: Math.exp(log.upper),
+        extremeLower: Math.exp(log.extremeLower),
+        extremeUpper: Math.exp(log.extremeUpper),
+        score: v => (v > 0 ? log.score(Math.log(v)) : Infinity)
+      };
+    }
+    case 'zscore': {
+      const std = Math.sqrt(moments.m2 / moments.count);
+      if (!(std > 0)) return null;
+      const fence = symmetricFence(moments.mean, moments.mean, std, k);
+      return { ...fence, score: v => Math.abs(v - moments.mean) / std };
+    }
+    case 'mad': {
+      const median = quantile(sketch, 0.5);
+      // 0.6745 makes the MAD comparable to a standard deviation for normal data
+      const mad = sketchMAD(sketch, median, moments.min, moments.max) / 0.6745;
+      if (!(mad > 0)) return null;
+      const fence = symmetricFence(median, median, mad, k);
+      return { ...fence, score: v => Math.abs(v - median) / mad };
+    }
+  }
+};
+
+/** Positive, right-skewed columns (amounts, prices, durations) are judged on a log scale. */
+const resolveMethod = (method: OutlierMethod, { sketch, moments }: ColumnDistribution, isMoney: boolean): ConcreteMethod => {
+  if (method !== 'auto') return method;
+  if (moments.min <= 0) return 'iqr';
+  const q1 = quantile(sketch, 0.25);
+  const median = quantile(sketch, 0.5);
+  const q3 = quantile(sketch, 0.75);
+  const skewed = q3 - median > 2 * (median - q1);
+  return isMoney || skewed ? 'log_iqr' : 'iqr';
+};
+
+// --- Detection ---
+
+/**
+ * Flags values of one numeric column with the configured detector. Rows and scores come
+ * from the tracked extremes; counts fall back to the sketch when every tracked value on
+ * a side is flagged (there may be more than were kept).
+ */
+export const findColumnOutliers = (
+  distribution: ColumnDistribution,
+  extremes: ExtremeValues,
+  settings: AppSettings,
+  isMoney: boolean
+): ColumnIssue[] => {
+  const { sketch } = distribution;
+  if (sketch.count < 5) return [];
+  const method = resolveMethod(settings.outlierMethod, distribution, isMoney);
+  const fence = fitFence(method, distribution, THRESHOLDS[method][settings.outlierSensitivity]);
+  if (!fence) return [];
+
+  const count = (lower: number, upper: number) => {
+    const high = extremes.highest.filter(x => x.value > upper).length;
+    const low = extremes.lowest.filter(x => x.value < lower).length;
+    return (high < extremes.highest.length ? high : Math.max(high, sketch.countAbove(upper)))
+      + (low < extremes.lowest.length ? low : Math.max(low, sketch.countBelow(lower)));
+  };
+  const extremeCount = count(fence.extremeLower, fence.extremeUpper);
+  const anomalyCount = count(fence.lower, fence.upper) - extremeCount;
+
+  const tracked = [...extremes.highest, ...extremes.lowest];
+  const seen = new Set<number>();
+  const flagged = (test: (x: ExtremeValue) => boolean) => tracked
+    .filter(x => test(x) && !seen.has(x.row) && seen.add(x.row))
+    .sort((a, b) => fence.score(b.value) - fence.score(a.value))
+    .slice(0, ROW_INDEX_LIMIT);
+
+  const label = `${METHOD_LABELS[method]}, sensitivity ${settings.outlierSensitivity}`;
+  // Few values make any fence shaky, and many flagged values suggest a long tail rather than errors
+  const confidence = (n: number, extreme: boolean) =>
+    sampleSupport(sketch.count, 20) * (extreme ? 0.95 : 0.65) * Math.max(0.3, 1 - Math.max(0, n / sketch.count - 0.01) * 10);
+  const issue = (values: ExtremeValue[], n: number, extreme: boolean): ColumnIssue => withConfidence({
+    type: 'outlier',
+    description: extreme ? `${n} extreme outliers (${label})` : `${n} statistical anomalies (${label})`,
+    severity: extreme ? (settings.outlierSensitivity === 'High' ? 'Medium' : 'High') : 'Low',
+    count: n,
+    examples: values.slice(0, EXAMPLE_LIMIT).map(x => String(x.value)),
+    isAnomaly: !extreme,
+    rowIndices: values.map(x => x.row),
+    anomalyScores: values.map(x => Number(fence.score(x.value).toFixed(2)))
+  }, confidence(n, extreme));
+
+  const issues: ColumnIssue[] = [];
+  if (extremeCount > 0) {
+    issues.push(issue(flagged(x => x.value < fence.extremeLower || x.value > fence.extremeUpper), extremeCount, true));
+  }
+  if (anomalyCount > 0) {
+    issues.push(issue(flagged(x => x.value < fence.lower || x.value > fence.upper), anomalyCount, false));
+  }
+  return issues;
+};
@@ -0,0 +1,180 @@
+import { DataRow, CleaningOperation, OutlierTreatment } from '../types';
+import { parseNumber } from './numberParsing';
+import { ValueSummary } from './imputation';
+
+export type OutlierOperation = Extract<CleaningOperation, { kind: 'treat_outliers' }>;
+
+export const OUTLIER_TREATMENTS: { treatment: OutlierTreatment; label: string }[] = [
+  { treatment: 'cap', label: 'Cap at the bounds' },
+  { treatment: 'winsorize', label: 'Winsorize' },
+  { treatment: 'null', label: 'Empty the value' },
+  { treatment: 'flag', label: 'Flag only' }
+];
+
+export const DEFAULT_IQR_K = 1.5;
+export const DEFAULT_PERCENTILES: [number, number] = [1, 99];
+
+// Fewer numbers than this give no bounds worth treating against
+const MIN_VALUES = 5;
+const MAX_DECIMALS = 6;
+
+export const outlierFlagColumn = (column: string) => `${column}_outlier`;
+
+export const describeBounds = (op: OutlierOperation) =>
+  op.bounds === 'percentile'
+    ? `the ${op.lowerPercentile ?? DEFAULT_PERCENTILES[0]}th–${op.upperPercentile ?? DEFAULT_PERCENTILES[1]}th percentiles`
+    : `${op.k ?? DEFAULT_IQR_K}×IQR`;
+
+// --- Bounds ---
+
+export interface OutlierBounds {
+  lower: number;
+  upper: number;
+}
+
+const decimalsOf = (n: number) => {
+  const s = String(n);
+  const dot = s.indexOf('.');
+  return dot === -1 || s.includes('e') ? 0 : Math.min(MAX_DECIMALS, s.length - dot - 1);
+};
+
+// Linear interpolation between the closest ranks
+const quantile = (sorted: Float64Array, q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.min(sorted.length - 1, lo + 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+/** Bounds of the operation over a column's numbers; null when they can't be fitted. */
+export const outlierBounds = (xs: number[], op: OutlierOperation): OutlierBounds | null => {
+  if (xs.length < MIN_VALUES) return null;
+  const sorted = Float64Array.from(xs).sort();
+  if (op.bounds === 'percentile') {
+    const lower = Math.max(0, Math.min(100, op.lowerPercentile ?? DEFAULT_PERCENTILES[0]));
+    const upper = Math.max(0, Math.min(100, op.upperPercentile ?? DEFAULT_PERCENTILES[1]));
+    return lower < upper ? { lower: quantile(sorted, lower / 100), upper: quantile(sorted, upper / 100) } : null;
+  }
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const k = op.k ?? DEFAULT_IQR_K;
+  return q3 > q1 && k >= 0 ? { lower: q1 - k * (q3 - q1), upper: q3 + k * (q3 - q1) } : null;
+};
+
+// --- Treatment ---
+
+export interface OutlierScan {
+  bounds: OutlierBounds;
+  values: (number | null)[]; // Each row's number, null when it doesn't read as one
+  below: number;
+  above: number;
+  replacements: Map<number, any>; // Row index → treated value (the value itself when only flagged)
+}
+
+/**
+ * Finds the rows outside the bounds and what the treatment puts in their place. Caps are
+ * rounded inwards to the column's decimals so they stay within the bounds; winsorizing uses
+ * the most extreme values inside them, or caps when a narrow band holds no value.
+ */
+export const scanOutliers = (rows: DataRow[], op: OutlierOperation): OutlierScan | null => {
+  if (rows.length === 0 || !(op.column in rows[0])) return null;
+  const values = rows.map(row => parseNumber(row[op.column], op.decimalSeparator)?.value ?? null);
+  const xs = values.filter((x): x is number => x !== null);
+  const bounds = outlierBounds(xs, op);
+  if (!bounds) return null;
+
+  const factor = 10 ** xs.reduce((d, x) => Math.max(d, decimalsOf(x)), 0);
+  const inside = xs.filter(x => x >= bounds.lower && x <= bounds.upper);
+  const capped = op.treatment === 'cap' || inside.length === 0;
+  const low = capped ? Math.ceil(bounds.lower * factor) / factor : inside.reduce((a, b) => Math.min(a, b));
+  const high = capped ? Math.floor(bounds.upper * factor) / factor : inside.reduce((a, b) => Math.max(a, b));
+
+  let below = 0;
+  let above = 0;
+  const replacements = new Map<number, any>();
+  values.forEach((x, i) => {
+    if (x === null || (x >= bounds.lower && x <= bounds.upper)) return;
+    if (x < bounds.lower) below++;
+    else above++;
+    const treated = op.treatment === 'null' ? null
+      : op.treatment === 'flag' ? rows[i][op.column]
+      : x < bounds.lower ? low : high;
+    replacements.set(i, treated);
+  });
+  return { bounds, values, below, above, replacements };
+};
+
+/** Treats the column's outliers; flagging adds the flag column right after it instead. */
+export const treatOutlierRows = (rows: DataRow[], op: OutlierOperation): DataRow[] => {
+  const scan = scanOutliers(rows, op);
+  if (!scan) return rows;
+  if (op.treatment !== 'flag') {
+    return rows.map((row, i) => (scan.replacements.has(i) ? { ...row, [op.column]: scan.replacements.get(i) } : row));
+  }
+  const flag = outlierFlagColumn(op.column);
+  return rows.map((row, i) => Object.fromEntries(Object.entries(row).flatMap(([key, value]): [string, any][] => {
+    if (key === flag) return [];
+    if (key !== op.column) return [[key, value]];
+    return [[key, value], [flag, scan.replacements.has(i)]];
+  })));
+};
+
+// --- Preview ---
+
+export interface OutlierPreview {
+  bounds: OutlierBounds;
+  below: number;
+  above: number;
+  range: [number, number]; // Histogram span: the bounds plus two bins each side; values past it land in the edge bins
+  before: ValueSummary;
+  after: Record<OutlierTreatment, ValueSummary>;
+  examples: { before: any; after: any }[]; // The most extreme rows under the operation's treatment
+}
+
+const PREVIEW_BINS = 20;
+const PREVIEW_EXAMPLES = 8;
+
+const mean = (xs: number[]) => xs.reduce((sum, x) => sum + x, 0) / xs.length;
+
+const summarize = (xs: number[], range: [number, number]): ValueSummary => {
+  if (xs.length === 0) return { count: 0 };
+  const sorted = Float64Array.from(xs).sort();
+  const m = mean(xs);
+  const histogram = new Array(PREVIEW_BINS).fill(0);
+  const width = (range[1] - range[0]) / PREVIEW_BINS || 1;
+  xs.forEach(x => { histogram[Math.min(PREVIEW_BINS - 1, Math.max(0, Math.floor((x - range[0]) / width)))]++; });
+  return { count: xs.length, mean: m, median: quantile(sorted, 0.5), stdDev: Math.sqrt(mean(xs.map(x => (x - m) ** 2))), histogram };
+};
+
+/** How the column's numbers are distributed before and after each treatment, on the operation's bounds. */
+export const previewOutlierTreatment = (rows: DataRow[], op: OutlierOperation): OutlierPreview | null => {
+  const scans = Object.fromEntries(
+    OUTLIER_TREATMENTS.map(({ treatment }) => [treatment, scanOutliers(rows, { ...op, treatment })])
+  ) as Record<OutlierTreatment, OutlierScan | null>;
+  const scan = scans[op.treatment];
+  if (!scan) return null;
+
+  const xs = scan.values.filter((x): x is number => x !== null);
+  const pad = ((scan.bounds.upper - scan.bounds.lower) / PREVIEW_BINS) * 2;
+  const range: [number, number] = [
+    Math.max(xs.reduce((a, b) => Math.min(a, b)), scan.bounds.lower - pad),
+    Math.min(xs.reduce((a, b) => Math.max(a, b)), scan.bounds.upper + pad)
+  ];
+  const treated = (s: OutlierScan) => s.values.flatMap((x, i) => {
+    if (x === null) return [];
+    if (!s.replacements.has(i)) return [x];
+    const after = parseNumber(s.replacements.get(i), op.decimalSeparator)?.value;
+    return after === undefined ? [] : [after];
+  });
+  const after = Object.fromEntries(
+    OUTLIER_TREATMENTS.map(({ treatment }) => [treatment, summarize(treated(scans[treatment] as OutlierScan), range)])
+  ) as Record<OutlierTreatment, ValueSummary>;
+
+  const distance = (x: number) => Math.max(scan.bounds.lower - x, x - scan.bounds.upper);
+  const examples = [...scan.replacements.keys()]
+    .sort((a, b) => distance(scan.values[b] as number) - distance(scan.values[a] as number))
+    .slice(0, PREVIEW_EXAMPLES)
+    .map(i => ({ before: rows[i][op.column], after: scan.replacements.get(i) }));
+
+  return { bounds: scan.bounds, below: scan.below, above: scan.above, range, before: summarize(xs, range), after, examples };
+};
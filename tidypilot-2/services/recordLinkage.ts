@@ -0,0 +1,271 @@
+import { DataRow, ColumnProfile, DecimalSeparator, DuplicateConfig, DuplicateCluster, DuplicateReport, SurvivorRule } from '../types';
+import { normalizeValue } from './dataProcessing';
+import { parseNumber } from './numberParsing';
+import { toISODate } from './dateParsing';
+
+// Fuzzy matching compares pairs inside blocks; larger datasets are cut to keep it interactive
+export const MAX_FUZZY_ROWS = 50000;
+const MAX_BLOCK_SIZE = 100;
+const SORTED_WINDOW = 20;
+
+// Number columns named like keys, or of distinct whole numbers, hold identifiers rather than measures
+const IDENTIFIER_NAME = /(^|_)(id|key|code|no|nr|number|ref|reference|zip|postcode|sku)$/;
+const IDENTIFIER_UNIQUE_SHARE = 0.9;
+
+// --- Comparable Values ---
+
+// Expanded before comparing so "12 Main St" and "12 main street" agree
+const ABBREVIATIONS: Record<string, string> = {
+  st: 'street', str: 'street', rd: 'road', ave: 'avenue', av: 'avenue', blvd: 'boulevard',
+  dr: 'drive', ln: 'lane', ct: 'court', pl: 'place', sq: 'square', hwy: 'highway',
+  apt: 'apartment', ste: 'suite', fl: 'floor', n: 'north', s: 'south', e: 'east', w: 'west',
+  inc: 'incorporated', corp: 'corporation', co: 'company', ltd: 'limited'
+};
+
+/** Lower-cased, accent-free, punctuation-free text with common abbreviations expanded. */
+export const comparableText = (value: any): string | null => {
+  const v = normalizeValue(value);
+  if (v === null) return null;
+  const tokens = String(v)
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(t => ABBREVIATIONS[t] || t);
+  return tokens.length > 0 ? tokens.join(' ') : null;
+};
+
+// --- Similarity ---
+
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const range = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - range); j < Math.min(b.length, i + range + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+const tokenOverlap = (a: string, b: string): number => {
+  const ta = new Set(a.split(' '));
+  const tb = new Set(b.split(' '));
+  const shared = [...ta].filter(t => tb.has(t)).length;
+  return shared / new Set([...ta, ...tb]).size;
+};
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+/**
+ * 0..1 similarity of two values. Measures compare by relative difference; text compares by
+ * spelling, except that values whose digits differ are different codes, IDs, ZIPs or phones.
+ */
+const valueSimilarity = (a: string | number, b: string | number): number => {
+  if (a === b) return 1;
+  if (typeof a === 'number' && typeof b === 'number') {
+    const scale = Math.max(Math.abs(a), Math.abs(b));
+    return scale === 0 ? 1 : Math.max(0, 1 - Math.abs(a - b) / scale);
+  }
+  const ta = String(a);
+  const tb = String(b);
+  if (digitsOf(ta) !== digitsOf(tb)) return 0;
+  return Math.max(jaroWinkler(ta, tb), tokenOverlap(ta, tb));
+};
+
+/**
+ * Average similarity over the columns both rows fill in. Rows sharing fewer than half of the
+ * compared columns aren't scored (null), since a match on one field says little.
+ */
+const rowSimilarity = (a: (string | number | null)[], b: (string | number | null)[]): number | null => {
+  let total = 0;
+  let compared = 0;
+  for (let c = 0; c < a.length; c++) {
+    if (a[c] === null || b[c] === null) continue;
+    total += valueSimilarity(a[c]!, b[c]!);
+    compared++;
+  }
+  return compared >= Math.max(1, Math.ceil(a.length / 2)) ? total / compared : null;
+};
+
+// --- Clustering ---
+
+const createUnionFind = (size: number) => {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+  return { find, union };
+};
+
+const groupBy = (count: number, keyOf: (i: number) => string | null): number[][] => {
+  const groups = new Map<string, number[]>();
+  for (let i = 0; i < count; i++) {
+    const key = keyOf(i);
+    if (key === null) continue;
+    const group = groups.get(key);
+    if (group) group.push(i);
+    else groups.set(key, [i]);
+  }
+  return [...groups.values()].filter(g => g.length > 1);
+};
+
+/** Rows whose key columns are equal after normalization (case, spacing, punctuation). */
+const findKeyClusters = (data: DataRow[], keyColumns: string[]): { rows: number[]; score: number }[] =>
+  groupBy(data.length, i => {
+    const parts = keyColumns.map(c => comparableText(data[i][c]));
+    return parts.every(p => p === null) ? null : parts.join('\u0000');
+  }).map(rows => ({ rows, score: 1 }));
+
+/** Decimal separator of a measure column (amounts, quantities), or null for identifiers and text. */
+const measureDecimal = (data: DataRow[], profile?: ColumnProfile): DecimalSeparator | null => {
+  if (!profile || profile.inferredType !== 'number' || profile.semanticType) return null;
+  if (IDENTIFIER_NAME.test(profile.name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase())) return null;
+  const decimal = profile.numberFormat?.decimalSeparator || '.';
+  const filled = data.length - profile.missingCount;
+  const wholeNumbers = data.every(row => {
+    const x = parseNumber(normalizeValue(row[profile.name]), decimal)?.value;
+    return x === undefined || Number.isInteger(x);
+  });
+  return wholeNumbers && profile.uniqueCount >= filled * IDENTIFIER_UNIQUE_SHARE ? null : decimal;
+};
+
+/**
+ * Fuzzy matching with blocking: rows are only compared when they share a block (same
+ * first three characters in some compared column). Oversized blocks fall back to a
+ * sorted-neighbourhood window so common prefixes don't make it quadratic.
+ */
+const findFuzzyClusters = (data: DataRow[], columns: string[], profiles: ColumnProfile[], threshold: number): { rows: number[]; score: number }[] => {
+  const measures = columns.map(c => measureDecimal(data, profiles.find(p => p.name === c)));
+  const values = data.map(row => columns.map((c, k) => {
+    if (measures[k] === null) return comparableText(row[c]);
+    return parseNumber(normalizeValue(row[c]), measures[k]!)?.value ?? comparableText(row[c]);
+  }));
+  const uf = createUnionFind(data.length);
+  const edgeScores = new Map<number, number>();
+  const compared = new Set<string>();
+
+  const compare = (i: number, j: number) => {
+    const key = i < j ? `${i}:${j}` : `${j}:${i}`;
+    if (compared.has(key)) return;
+    compared.add(key);
+    const score = rowSimilarity(values[i], values[j]);
+    if (score === null || score < threshold) return;
+    uf.union(i, j);
+    edgeScores.set(i, Math.min(edgeScores.get(i) ?? 1, score));
+    edgeScores.set(j, Math.min(edgeScores.get(j) ?? 1, score));
+  };
+
+  columns.forEach((_, c) => {
+    groupBy(data.length, i => (values[i][c] === null ? null : String(values[i][c]).substring(0, 3))).forEach(block => {
+      if (block.length <= MAX_BLOCK_SIZE) {
+        for (let x = 0; x < block.length; x++) {
+          for (let y = x + 1; y < block.length; y++) compare(block[x], block[y]);
+        }
+        return;
+      }
+      const sorted = [...block].sort((x, y) => values[x].join('|').localeCompare(values[y].join('|')));
+      for (let x = 0; x < sorted.length; x++) {
+        for (let y = x + 1; y < Math.min(sorted.length, x + SORTED_WINDOW); y++) compare(sorted[x], sorted[y]);
+      }
+    });
+  });
+
+  return groupBy(data.length, i => (edgeScores.has(i) ? String(uf.find(i)) : null)).map(rows => ({
+    rows,
+    score: Math.min(...rows.map(r => edgeScores.get(r) ?? 1))
+  }));
+};
+
+// --- Survivors ---
+
+/** Order of a value in the order column: dates read with the column's detected format, else numbers. */
+const sortableValue = (value: any, profile?: ColumnProfile): number => {
+  const v = normalizeValue(value);
+  if (v === null) return -Infinity;
+  if (profile?.dateFormat) {
+    const iso = toISODate(v, profile.dateFormat);
+    const time = iso ? Date.parse(iso.length === 10 || iso.endsWith('Z') ? iso : `${iso}Z`) : NaN;
+    return isNaN(time) ? -Infinity : time;
+  }
+  return parseNumber(v, profile?.numberFormat?.decimalSeparator)?.value ?? -Infinity;
+};
+
+const filledCount = (row: DataRow) => Object.values(row).filter(v => normalizeValue(v) !== null).length;
+
+/** The row kept from a cluster: first seen, latest by the order column, or most filled in (ties keep the first). */
+export const pickSurvivor = (data: DataRow[], rows: number[], rule: SurvivorRule, orderColumn?: string, orderProfile?: ColumnProfile): number => {
+  if (rule === 'first' || (rule === 'latest' && !orderColumn)) return rows[0];
+  const score = rule === 'latest'
+    ? (i: number) => sortableValue(data[i][orderColumn!], orderProfile)
+    : (i: number) => filledCount(data[i]);
+  return rows.reduce((best, i) => (score(i) > score(best) ? i : best), rows[0]);
+};
+
+// --- Public API ---
+
+/** Clusters duplicate rows; the column profiles tell measures from identifiers and how to read dates. */
+export const findDuplicates = (data: DataRow[], config: DuplicateConfig, profiles: ColumnProfile[]): DuplicateReport => {
+  const columns = config.columns.filter(c => data.length > 0 && c in data[0]);
+  const truncated = config.mode === 'fuzzy' && data.length > MAX_FUZZY_ROWS;
+  const rows = truncated ? data.slice(0, MAX_FUZZY_ROWS) : data;
+
+  const found = columns.length === 0 ? []
+    : config.mode === 'key' ? findKeyClusters(rows, columns)
+    : findFuzzyClusters(rows, columns, profiles, config.threshold);
+  const orderProfile = profiles.find(p => p.name === config.orderColumn);
+
+  const clusters: DuplicateCluster[] = found
+    .map(({ rows: members, score }) => ({
+      rowIndices: members,
+      score,
+      survivor: pickSurvivor(data, members, config.survivor, config.orderColumn, orderProfile)
+    }))
+    .sort((a, b) => b.rowIndices.length - a.rowIndices.length || a.score - b.score);
+
+  return {
+    config,
+    clusters,
+    duplicateRows: clusters.reduce((sum, c) => sum + c.rowIndices.length - 1, 0),
+    truncated
+  };
+};
+
+/** Drops every clustered row except each cluster's survivor. */
+export const removeDuplicates = (data: DataRow[], report: DuplicateReport): DataRow[] => {
+  const dropped = new Set<number>();
+  report.clusters.forEach(c => c.rowIndices.forEach(i => { if (i !== c.survivor) dropped.add(i); }));
+  return data.filter((_, i) => !dropped.has(i));
+};
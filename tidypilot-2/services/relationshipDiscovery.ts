@@ -0,0 +1,150 @@
+import { WorkspaceTable, CandidateKey, TableRelationship, WorkspaceModel } from '../types';
+import { normalizeValue } from './dataProcessing';
+import { normalizeHeader } from './schemaAlignment';
+
+// Above this many distinct values a column is skipped as a foreign-key candidate; the
+// overlap test needs its full value set in memory.
+const MAX_DISTINCT_FOR_MATCHING = 200000;
+
+const keyOf = (value: any): string | null => {
+  const v = normalizeValue(value);
+  return v === null ? null : String(v).toLowerCase();
+};
+
+const distinctValues = (rows: WorkspaceTable['rows'], column: string): { values: Set<string>; nullCount: number } => {
+  const values = new Set<string>();
+  let nullCount = 0;
+  for (const row of rows) {
+    const k = keyOf(row[column]);
+    if (k === null) nullCount++;
+    else values.add(k);
+  }
+  return { values, nullCount };
+};
+
+const columnsOf = (table: WorkspaceTable) => (table.rows.length > 0 ? Object.keys(table.rows[0]) : []);
+
+/** "customers.csv" → "customer", so "customer_id" can be recognised as pointing at it. */
+const tableStem = (name: string): string => {
+  const base = normalizeHeader(name.replace(/\.[^.]+$/, ''));
+  if (base.endsWith('ies')) return `${base.slice(0, -3)}y`;
+  if (base.endsWith('s') && !base.endsWith('ss')) return base.slice(0, -1);
+  return base;
+};
+
+// --- Candidate Keys ---
+
+/** Columns that are fully populated and unique. Booleans and near-constant columns are ignored. */
+export const findCandidateKeys = (table: WorkspaceTable): CandidateKey[] => {
+  const rowCount = table.rows.length;
+  if (rowCount < 2) return [];
+
+  return columnsOf(table)
+    .map(column => {
+      const { values, nullCount } = distinctValues(table.rows, column);
+      return { column, distinctCount: values.size, nullCount };
+    })
+    .filter(k => k.nullCount === 0 && k.distinctCount === rowCount && k.distinctCount > 2);
+};
+
+// --- Foreign Keys ---
+
+type NameEvidence = 'exact' | 'table' | 'suffix' | 'none';
+
+const nameEvidence = (childColumn: string, parentTable: string, parentColumn: string): NameEvidence => {
+  const child = normalizeHeader(childColumn);
+  const parent = normalizeHeader(parentColumn);
+  const stem = tableStem(parentTable);
+
+  if (child === parent && parent !== 'id') return 'exact';
+  if (child === `${stem}_${parent}` || (parent === 'id' && child === stem)) return 'table';
+  if (parent !== 'id' && child.endsWith(`_${parent}`)) return 'suffix';
+  return 'none';
+};
+
+const EVIDENCE_WEIGHT: Record<NameEvidence, number> = { exact: 1, table: 1, suffix: 0.85, none: 0.7 };
+
+/**
+ * Finds foreign keys by value overlap: a column whose distinct values are (almost) all
+ * contained in another table's candidate key. Overlap alone is weak evidence for small
+ * integer codes, so unnamed integer matches are ignored and unnamed matches need 98% coverage.
+ */
+export const discoverRelationships = (tables: WorkspaceTable[], keys: Map<string, CandidateKey[]>): TableRelationship[] => {
+  const keySets = new Map<string, Set<string>>();
+  tables.forEach(t => (keys.get(t.id) || []).forEach(k => {
+    keySets.set(`${t.id}\u0000${k.column}`, distinctValues(t.rows, k.column).values);
+  }));
+
+  const relationships: TableRelationship[] = [];
+
+  tables.forEach(child => {
+    const childKeys = new Set((keys.get(child.id) || []).map(k => k.column));
+
+    columnsOf(child).forEach(column => {
+      const { values } = distinctValues(child.rows, column);
+      if (values.size < 2 || values.size > MAX_DISTINCT_FOR_MATCHING) return;
+      const allIntegers = [...values].every(v => /^-?\d+$/.test(v));
+
+      let best: TableRelationship | null = null;
+      tables.forEach(parent => {
+        if (parent.id === child.id) return;
+        (keys.get(parent.id) || []).forEach(key => {
+          const evidence = nameEvidence(column, parent.name, key.column);
+          if (evidence === 'none' && allIntegers) return;
+
+          const parentValues = keySets.get(`${parent.id}\u0000${key.column}`)!;
+          let matched = 0;
+          values.forEach(v => { if (parentValues.has(v)) matched++; });
+          const coverage = matched / values.size;
+          if (coverage < (evidence === 'none' ? 0.98 : 0.9)) return;
+
+          const confidence = coverage * EVIDENCE_WEIGHT[evidence];
+          if (best && best.confidence >= confidence) return;
+          best = {
+            fromTable: child.name,
+            fromColumn: column,
+            toTable: parent.name,
+            toColumn: key.column,
+            cardinality: childKeys.has(column) ? 'one-to-one' : 'many-to-one',
+            coverage,
+            orphanCount: values.size - matched,
+            confidence
+          };
+        });
+      });
+
+      if (best) relationships.push(best);
+    });
+  });
+
+  // A one-to-one pair is found from both sides; keep the more confident direction
+  return relationships.filter(r => r.cardinality === 'many-to-one' || !relationships.some(o =>
+    o !== r && o.cardinality === 'one-to-one' && o.fromTable === r.toTable && o.fromColumn === r.toColumn &&
+    o.toTable === r.fromTable && (o.confidence > r.confidence || (o.confidence === r.confidence && o.fromTable < r.fromTable))
+  ));
+};
+
+// --- Workspace Model ---
+
+export const buildWorkspaceModel = (tables: WorkspaceTable[]): WorkspaceModel => {
+  const keys = new Map(tables.map(t => [t.id, findCandidateKeys(t)]));
+  const relationships = discoverRelationships(tables, keys);
+
+  const manySide = new Set(relationships.filter(r => r.cardinality === 'many-to-one').map(r => r.fromTable));
+  const oneSide = new Set(relationships.map(r => r.toTable));
+
+  return {
+    tables: tables.map(t => ({
+      name: t.name,
+      rowCount: t.rows.length,
+      columns: columnsOf(t),
+      keys: keys.get(t.id) || [],
+      // Header/detail chains (order_items → orders → customers) make the middle table a dimension
+      role: manySide.has(t.name) && !oneSide.has(t.name) ? 'fact' : oneSide.has(t.name) ? 'dimension' : 'standalone'
+    })),
+    relationships
+  };
+};
+
+export const describeRelationship = (r: TableRelationship): string =>
+  `${r.fromTable}.${r.fromColumn} → ${r.toTable}.${r.toColumn} (${r.cardinality === 'many-to-one' ? 'N:1' : '1:1'}, ${Math.round(r.coverage * 100)}% match)`;
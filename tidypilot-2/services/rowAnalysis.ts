@@ -0,0 +1,14 @@
+import { DataRow, DatasetStats, AppSettings } from '../types';
+import { withStructure } from './structureDiscovery';
+import { withMultivariateOutliers } from './multivariateOutliers';
+import { withAssociations } from './associationAnalysis';
+import { withMissingness } from './missingnessAnalysis';
+import { scoreIssues } from './issueConfidence';
+
+/**
+ * Profiling that needs whole rows rather than per-column sketches: keys and dependencies,
+ * multivariate outliers, column associations and missingness patterns. Each pass looks at
+ * the first rows only. Their findings are scored like the streamed ones.
+ */
+export const withRowAnalyses = (stats: DatasetStats, rows: DataRow[], settings: AppSettings): DatasetStats =>
+  scoreIssues(withMissingness(withAssociations(withMultivariateOutliers(withStructure(stats, rows), rows, settings), rows), rows));
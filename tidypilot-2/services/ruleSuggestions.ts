@@ -0,0 +1,127 @@
+import { DataRow, ValidationRule } from '../types';
+import { normalizeValue } from './dataProcessing';
+import { parseNumber } from './numberParsing';
+import { matchDate } from './dateParsing';
+import { isRegionOfCountry } from './geoReference';
+import { createRuleId, createRuleTrackers, trackRow, describeRule } from './validationRules';
+
+// Suggestions are drawn from names and checked against the first rows; a check that most
+// of the sample already breaks is probably a wrong guess (a total that includes shipping)
+const SAMPLE_ROWS = 500;
+const MIN_TYPED_SHARE = 0.8;
+const MIN_PASSING_SHARE = 0.8;
+
+type SampleType = 'number' | 'date' | 'text';
+
+interface SampledColumn {
+  name: string;
+  tokens: string[];
+  type: SampleType;
+}
+
+const tokensOf = (name: string) =>
+  name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+const sampleType = (rows: DataRow[], column: string): SampleType => {
+  const values = rows.map(r => normalizeValue(r[column])).filter(v => v !== null);
+  if (values.length === 0) return 'text';
+  const share = (test: (v: any) => boolean) => values.filter(test).length / values.length;
+  if (share(v => matchDate(String(v)) !== null || v instanceof Date) >= MIN_TYPED_SHARE) return 'date';
+  if (share(v => parseNumber(v) !== null) >= MIN_TYPED_SHARE) return 'number';
+  return 'text';
+};
+
+const has = (col: SampledColumn, words: string[]) => col.tokens.some(t => words.includes(t));
+
+// --- Name Patterns ---
+
+const START_WORDS = ['start', 'begin', 'from', 'open', 'opened', 'created', 'issued', 'issue', 'hire', 'hired', 'checkin', 'effective', 'order', 'ordered', 'placed'];
+const END_WORDS = ['end', 'finish', 'to', 'close', 'closed', 'updated', 'modified', 'termination', 'terminated', 'checkout', 'ship', 'shipped', 'due', 'expiry', 'expires', 'expiration', 'resolved', 'completed', 'delivered', 'delivery'];
+// Left over once the start/end word is removed; "start_date" and "end_date" share the stem ""
+const DATE_WORDS = ['date', 'dt', 'at', 'on', 'time', 'timestamp', 'ts', 'day'];
+
+const stemOf = (col: SampledColumn, words: string[]) =>
+  col.tokens.filter(t => !words.includes(t) && !DATE_WORDS.includes(t)).join('_');
+
+const TOTAL_WORDS = ['total', 'amount', 'revenue', 'extended', 'sales', 'value'];
+const QUANTITY_WORDS = ['qty', 'quantity', 'units', 'hours', 'count'];
+const PRICE_WORDS = ['price', 'rate', 'cost'];
+
+// --- Suggestions ---
+
+const dateOrderRules = (columns: SampledColumn[]): ValidationRule[] => {
+  const dates = columns.filter(c => c.type === 'date');
+  const rules: ValidationRule[] = [];
+  dates.filter(c => has(c, START_WORDS)).forEach(start => {
+    dates.filter(c => c !== start && has(c, END_WORDS) && !has(c, START_WORDS)).forEach(end => {
+      if (stemOf(start, START_WORDS) !== stemOf(end, END_WORDS)) return;
+      rules.push({ id: createRuleId(), kind: 'compare', column: end.name, operator: '>=', otherColumn: start.name, severity: 'High' });
+    });
+  });
+  return rules;
+};
+
+const arithmeticRules = (columns: SampledColumn[]): ValidationRule[] => {
+  const numbers = columns.filter(c => c.type === 'number');
+  const rules: ValidationRule[] = [];
+
+  const quantity = numbers.find(c => has(c, QUANTITY_WORDS));
+  const price = numbers.find(c => c !== quantity && has(c, PRICE_WORDS) && !has(c, TOTAL_WORDS));
+  const totals = numbers.filter(c => c !== quantity && c !== price && has(c, TOTAL_WORDS) && !has(c, ['tax', 'sub', 'subtotal']));
+  if (quantity && price) {
+    totals.forEach(total => rules.push({
+      id: createRuleId(), kind: 'arithmetic', column: total.name, operator: '*', left: quantity.name, right: price.name, severity: 'High'
+    }));
+  }
+
+  // subtotal + tax = total, net + tax = gross
+  const tax = numbers.find(c => has(c, ['tax', 'vat']) && !has(c, ['rate']));
+  const before = numbers.find(c => has(c, ['subtotal', 'net']) || (c.tokens.includes('sub') && c.tokens.includes('total')));
+  const after = numbers.find(c => c !== before && (has(c, ['gross']) || (has(c, ['total']) && !has(c, ['sub', 'subtotal', 'tax', 'line', 'unit']))));
+  if (tax && before && after) {
+    rules.push({ id: createRuleId(), kind: 'arithmetic', column: after.name, operator: '+', left: before.name, right: tax.name, severity: 'High' });
+  }
+  return rules;
+};
+
+const ageRules = (columns: SampledColumn[]): ValidationRule[] => {
+  const age = columns.find(c => c.type === 'number' && c.tokens.includes('age'));
+  const birth = columns.find(c => c.type === 'date' && has(c, ['birth', 'dob', 'birthday', 'born']));
+  return age && birth ? [{ id: createRuleId(), kind: 'age_matches', column: age.name, birthColumn: birth.name, severity: 'Medium' }] : [];
+};
+
+const regionRules = (columns: SampledColumn[], rows: DataRow[]): ValidationRule[] => {
+  const country = columns.find(c => c.type === 'text' && has(c, ['country', 'nation']));
+  const region = columns.find(c => c.type === 'text' && has(c, ['state', 'province', 'region']) && !has(c, ['status']));
+  if (!country || !region) return [];
+  // Only worth suggesting when the sample holds countries whose regions are known
+  const covered = rows.some(r => {
+    const c = normalizeValue(r[country.name]);
+    const s = normalizeValue(r[region.name]);
+    return c !== null && s !== null && isRegionOfCountry(String(s), String(c)) !== null;
+  });
+  return covered ? [{ id: createRuleId(), kind: 'valid_pair', column: region.name, otherColumn: country.name, severity: 'Medium' }] : [];
+};
+
+/** Share of sample rows the rule accepts. */
+const passingShare = (rule: ValidationRule, rows: DataRow[]): number => {
+  const trackers = createRuleTrackers([rule], () => '.');
+  rows.forEach((row, i) => trackRow(trackers, i, column => normalizeValue(row[column])));
+  return rows.length > 0 ? 1 - trackers[0].violations / rows.length : 0;
+};
+
+/**
+ * Cross-column checks suggested from column names and sampled types: end dates after start
+ * dates, totals equal to quantity × price, ages matching birth dates and regions matching
+ * countries. Checks already in `existing` are left out.
+ */
+export const suggestCrossColumnRules = (rows: DataRow[], existing: ValidationRule[] = []): ValidationRule[] => {
+  if (rows.length === 0) return [];
+  const sample = rows.slice(0, SAMPLE_ROWS);
+  const columns: SampledColumn[] = Object.keys(rows[0]).map(name => ({ name, tokens: tokensOf(name), type: sampleType(sample, name) }));
+  const known = new Set(existing.map(describeRule));
+
+  return [...dateOrderRules(columns), ...arithmeticRules(columns), ...ageRules(columns), ...regionRules(columns, sample)]
+    .filter(rule => !known.has(describeRule(rule)))
+    .filter(rule => passingShare(rule, sample) >= MIN_PASSING_SHARE);
+};
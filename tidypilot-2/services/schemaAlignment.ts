@@ -0,0 +1,182 @@
+import { DataRow, DatasetStats, SchemaAlignmentReport, AlignedColumn } from '../types';
+import { levenshteinDistance } from './dataProcessing';
+import { jaroWinkler } from './recordLinkage';
+
+export interface SourceTable {
+  name: string;
+  rows: DataRow[];
+}
+
+// --- Header Normalization ---
+
+// Common abbreviations in exported headers, expanded so "Cust ID" and "customer_id" agree
+const ABBREVIATIONS: Record<string, string> = {
+  cust: 'customer', cus: 'customer', clnt: 'client',
+  acct: 'account', acc: 'account',
+  addr: 'address', amt: 'amount', qty: 'quantity',
+  no: 'number', num: 'number', nbr: 'number', nr: 'number',
+  dt: 'date', desc: 'description', prod: 'product',
+  cat: 'category', dept: 'department', emp: 'employee',
+  ref: 'reference', tel: 'phone', ph: 'phone'
+};
+
+/** "CustID", "Cust. ID" and "customer_id" all normalize to "customer_id". */
+export const normalizeHeader = (header: string): string => {
+  return header
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(token => ABBREVIATIONS[token] || token)
+    .join('_');
+};
+
+const digitRuns = (header: string) => (header.match(/\d+/g) || []).join(',');
+
+const MATCH_THRESHOLD = 0.8;
+// Tokens that differ between two headers must read as one spelling ("amonut" / "amount")
+const TOKEN_VARIANT_THRESHOLD = 0.9;
+
+/**
+ * Blend of token overlap and edit distance on the normalized form, 0..1. Headers whose
+ * numbers differ are different columns ("sales_2023" / "sales_2024", "address_1" / "address_2"),
+ * and so are headers whose differing tokens are different words: "min_amount" / "max_amount"
+ * share a long stem, but "min" is no misspelling of "max".
+ */
+const headerSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (digitRuns(a) !== digitRuns(b)) return 0;
+  const tokensA = new Set(a.split('_'));
+  const tokensB = new Set(b.split('_'));
+  const onlyA = [...tokensA].filter(t => !tokensB.has(t));
+  const onlyB = [...tokensB].filter(t => !tokensA.has(t));
+  if (jaroWinkler(onlyA.join(''), onlyB.join('')) < TOKEN_VARIANT_THRESHOLD) return 0;
+  const shared = tokensA.size - onlyA.length;
+  const jaccard = shared / new Set([...tokensA, ...tokensB]).size;
+  const editRatio = 1 - levenshteinDistance(a, b) / Math.max(a.length, b.length);
+  return Math.max(jaccard, editRatio);
+};
+
+// --- Alignment ---
+
+/**
+ * Appends several tables into one. Columns are matched by normalized name, then fuzzily;
+ * each file maps at most one header onto a canonical column. Rows get a source-file column
+ * and every row carries every canonical column (null where its file lacked it).
+ */
+export const alignDatasets = (sources: SourceTable[]): { data: DataRow[]; report: SchemaAlignmentReport } => {
+  const canonical: { name: string; normalized: string; sources: { file: string; header: string }[] }[] = [];
+  const mappings: Map<string, number>[] = [];
+
+  sources.forEach(source => {
+    const headers = source.rows.length > 0 ? Object.keys(source.rows[0]) : [];
+    const mapping = new Map<string, number>();
+    const claimed = new Set<number>();
+
+    const normalized = new Map(headers.map(h => [h, normalizeHeader(h) || h]));
+    const assign = (header: string, target: number) => {
+      claimed.add(target);
+      mapping.set(header, target);
+    };
+
+    // Exact matches first, so a header can't fuzzily take a column a later header names exactly
+    headers.forEach(header => {
+      const target = canonical.findIndex((c, i) => !claimed.has(i) && c.normalized === normalized.get(header));
+      if (target !== -1) assign(header, target);
+    });
+
+    headers.forEach(header => {
+      if (mapping.has(header)) return;
+      let target = -1;
+      let bestScore = MATCH_THRESHOLD;
+      canonical.forEach((c, i) => {
+        if (claimed.has(i)) return;
+        const score = headerSimilarity(c.normalized, normalized.get(header)!);
+        if (score >= bestScore) {
+          bestScore = score;
+          target = i;
+        }
+      });
+      if (target !== -1) assign(header, target);
+    });
+
+    headers.forEach(header => {
+      if (mapping.has(header)) return;
+      // A header that lost its exact match to another header of the file still needs its own name
+      let name = header;
+      for (let n = 2; canonical.some(c => c.name === name); n++) name = `${header}_${n}`;
+      canonical.push({ name, normalized: normalized.get(header)!, sources: [] });
+      assign(header, canonical.length - 1);
+    });
+
+    headers.forEach(header => {
+      canonical[mapping.get(header)!].sources.push({ file: source.name, header });
+    });
+
+    mappings.push(mapping);
+  });
+
+  const names = canonical.map(c => c.name);
+  let sourceColumn = 'source_file';
+  for (let n = 2; names.includes(sourceColumn); n++) sourceColumn = `source_file_${n}`;
+
+  const data: DataRow[] = [];
+  sources.forEach((source, s) => {
+    source.rows.forEach(row => {
+      const aligned: DataRow = {};
+      names.forEach(name => { aligned[name] = null; });
+      mappings[s].forEach((target, header) => { aligned[names[target]] = row[header]; });
+      aligned[sourceColumn] = source.name;
+      data.push(aligned);
+    });
+  });
+
+  const files = sources.map(s => s.name);
+  const columns: AlignedColumn[] = canonical.map(c => ({
+    name: c.name,
+    sources: c.sources,
+    missingFrom: files.filter(f => !c.sources.some(src => src.file === f))
+  }));
+
+  return { data, report: { files, sourceColumn, columns } };
+};
+
+// --- Reporting ---
+
+/** Adds schema_mismatch issues for partially present columns and fuzzy-matched headers. */
+export const applySchemaReport = (stats: DatasetStats, report: SchemaAlignmentReport): DatasetStats => {
+  const byName = new Map(report.columns.map(c => [c.name, c]));
+
+  const columns = stats.columns.map(col => {
+    const aligned = byName.get(col.name);
+    if (!aligned) return col;
+    const issues = [...col.issues];
+
+    if (aligned.missingFrom.length > 0) {
+      const missingShare = aligned.missingFrom.length / report.files.length;
+      issues.push({
+        type: 'schema_mismatch',
+        description: `Column missing from ${aligned.missingFrom.length} of ${report.files.length} files`,
+        severity: missingShare > 0.5 ? 'High' : 'Medium',
+        count: aligned.missingFrom.length,
+        examples: aligned.missingFrom.slice(0, 3)
+      });
+    }
+
+    const variants = Array.from(new Set(aligned.sources.map(s => s.header)));
+    if (variants.length > 1) {
+      issues.push({
+        type: 'schema_mismatch',
+        description: `Header spelled ${variants.length} ways across files (matched by name similarity)`,
+        severity: 'Low',
+        count: variants.length,
+        examples: variants.slice(0, 3)
+      });
+    }
+
+    return { ...col, issues };
+  });
+
+  return { ...stats, columns };
+};
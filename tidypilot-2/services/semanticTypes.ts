@@ -0,0 +1,177 @@
+import { SemanticType } from '../types';
+
+/**
+ * A business format recognised on top of the basic column type. `isGeneric` marks values
+ * that pass validation but would pass for plenty of other things too (a bare "12345" is a
+ * valid ZIP code and also just a number); columns made of those need a matching header.
+ */
+interface SemanticDetector {
+  type: SemanticType;
+  label: string;
+  nameHint: RegExp;
+  isValid: (value: string) => boolean;
+  isGeneric?: (value: string) => boolean;
+  normalize: (value: string) => string;
+}
+
+// --- Validators ---
+
+const EMAIL = /^[^\s@()<>,;:"]+@[^\s@()<>,;:"]+\.[a-z]{2,}$/i;
+
+const isEmail = (s: string) => EMAIL.test(s) && !s.includes('..') && s.indexOf('@') <= 64;
+
+const isURL = (s: string) => {
+  if (!/^(https?:\/\/|www\.)\S+$/i.test(s)) return false;
+  try {
+    const url = new URL(/^www\./i.test(s) ? `https://${s}` : s);
+    return /\.[a-z]{2,}$/i.test(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+const PHONE_EXTENSION = /\s*(?:x|ext\.?)\s*\d{1,6}$/i;
+
+const phoneDigits = (s: string) => s.replace(PHONE_EXTENSION, '').replace(/\D/g, '');
+
+const isPhone = (s: string) => {
+  const body = s.replace(PHONE_EXTENSION, '');
+  if (!/^(\+|00)?[\d\s().\-/]+$/.test(body)) return false;
+  const digits = phoneDigits(s).length;
+  return digits >= 7 && digits <= 15;
+};
+
+const POSTAL_PATTERNS = [
+  /^\d{5}(-\d{4})?$/, // US ZIP / ZIP+4
+  /^\d{4,6}$/, // DE, FR, AT, CH, IN, ...
+  /^[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}$/i, // UK
+  /^[A-Z]\d[A-Z]\s?\d[A-Z]\d$/i, // Canada
+  /^\d{4}\s?[A-Z]{2}$/i, // Netherlands
+  /^\d{5}-\d{3}$/, // Brazil
+  /^\d{3}-\d{4}$/, // Japan
+  /^\d{2}-\d{3}$/ // Poland
+];
+
+const isPostalCode = (s: string) => POSTAL_PATTERNS.some(p => p.test(s));
+
+const UUID = /^\{?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}\}?$/i;
+
+const IBAN_LENGTHS: Record<string, number> = {
+  AT: 20, BE: 16, CH: 21, CZ: 24, DE: 22, DK: 18, ES: 24, FI: 18, FR: 27, GB: 22, GR: 27,
+  HU: 28, IE: 22, IT: 27, LU: 20, NL: 18, NO: 15, PL: 28, PT: 25, RO: 24, SE: 24, SK: 24
+};
+
+/** Country length check plus the ISO 13616 mod-97 checksum. */
+const isIBAN = (s: string) => {
+  const iban = s.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const expected = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expected && iban.length !== expected) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const digits = /\d/.test(ch) ? ch : String(ch.charCodeAt(0) - 55);
+    for (const d of digits) remainder = (remainder * 10 + Number(d)) % 97;
+  }
+  return remainder === 1;
+};
+
+const CURRENCY_CODES = new Set([
+  'AED', 'ARS', 'AUD', 'BDT', 'BGN', 'BHD', 'BRL', 'CAD', 'CHF', 'CLP', 'CNY', 'COP', 'CZK',
+  'DKK', 'EGP', 'EUR', 'GBP', 'HKD', 'HUF', 'IDR', 'ILS', 'INR', 'ISK', 'JPY', 'KES', 'KRW',
+  'KWD', 'MAD', 'MXN', 'MYR', 'NGN', 'NOK', 'NZD', 'PEN', 'PHP', 'PKR', 'PLN', 'QAR', 'RON',
+  'RUB', 'SAR', 'SEK', 'SGD', 'THB', 'TRY', 'TWD', 'UAH', 'USD', 'VND', 'ZAR'
+]);
+
+// --- Normalizers ---
+
+/** E.164 for international numbers ("+44 20 7946 0958" → "+442079460958"); North American 10-digit numbers get +1. */
+const normalizePhone = (s: string) => {
+  const digits = phoneDigits(s);
+  const body = s.trim();
+  if (body.startsWith('+')) return `+${digits}`;
+  if (body.startsWith('00')) return `+${digits.slice(2)}`;
+  if (digits.length === 10 && !digits.startsWith('0')) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return digits;
+};
+
+const normalizeURL = (s: string) => {
+  try {
+    const url = new URL(/^www\./i.test(s) ? `https://${s}` : s);
+    const text = url.toString();
+    return url.pathname === '/' && !url.search && !url.hash && !s.endsWith('/') ? text.slice(0, -1) : text;
+  } catch {
+    return s;
+  }
+};
+
+const normalizePostalCode = (s: string) => {
+  const upper = s.toUpperCase().replace(/\s+/g, ' ').trim();
+  // UK and Canadian codes are written with a space before the last three characters
+  if (/^[A-Z]{1,2}\d[A-Z\d]?\d[A-Z]{2}$/.test(upper) || /^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(upper)) {
+    return `${upper.slice(0, -3)} ${upper.slice(-3)}`;
+  }
+  return upper;
+};
+
+const normalizeUUID = (s: string) => {
+  const hex = s.replace(/[{}-]/g, '').toLowerCase();
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// --- Registry ---
+
+// Checked in order; the more specific formats come first
+export const SEMANTIC_DETECTORS: SemanticDetector[] = [
+  {
+    type: 'uuid', label: 'UUID', nameHint: /(uuid|guid)/i,
+    isValid: s => UUID.test(s), normalize: normalizeUUID
+  },
+  {
+    type: 'iban', label: 'IBAN', nameHint: /iban/i,
+    isValid: isIBAN, normalize: s => s.replace(/\s/g, '').toUpperCase()
+  },
+  {
+    type: 'email', label: 'email address', nameHint: /e_?mail/i,
+    isValid: isEmail, normalize: s => s.trim().toLowerCase()
+  },
+  {
+    type: 'url', label: 'URL', nameHint: /(url|website|web_?site|homepage|link)/i,
+    isValid: isURL, normalize: normalizeURL
+  },
+  {
+    type: 'currency_code', label: 'currency code', nameHint: /(currency|ccy)/i,
+    isValid: s => CURRENCY_CODES.has(s.trim().toUpperCase()) && /^[A-Za-z]{3}$/.test(s.trim()),
+    normalize: s => s.trim().toUpperCase()
+  },
+  {
+    // Whole tokens, so hotel_revenue or cancellation_count don't count; "phone" also inside telephone, cellphone
+    type: 'phone', label: 'phone number', nameHint: /(^|_)(mobile|cell|tel|fax|[a-z0-9]*phone[a-z0-9]*)(_|$)/,
+    isValid: isPhone, isGeneric: s => /^\d+$/.test(s), normalize: normalizePhone
+  },
+  {
+    type: 'postal_code', label: 'postal code', nameHint: /(zip|postal|post_?code|postcode|plz)/i,
+    isValid: isPostalCode, isGeneric: s => /^\d+$/.test(s), normalize: normalizePostalCode
+  }
+];
+
+const DETECTORS_BY_TYPE = new Map(SEMANTIC_DETECTORS.map(d => [d.type, d]));
+
+/** Tests a detector's name hint against the header in snake_case, with camelCase split into tokens. */
+export const matchesNameHint = (detector: SemanticDetector, name: string): boolean =>
+  detector.nameHint.test(name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase().replace(/[^a-z0-9]+/g, '_'));
+
+export const semanticLabel = (type: SemanticType): string => DETECTORS_BY_TYPE.get(type)?.label || type;
+
+export const isValidSemanticValue = (type: SemanticType, value: any): boolean =>
+  DETECTORS_BY_TYPE.get(type)?.isValid(String(value).trim()) ?? true;
+
+/** Canonical form of a value (E.164 phone, lower-cased email, ...). Invalid values are returned unchanged. */
+export const normalizeSemanticValue = (type: SemanticType, value: any): any => {
+  const detector = DETECTORS_BY_TYPE.get(type);
+  if (!detector || value === null || value === undefined) return value;
+  const s = String(value).trim();
+  return detector.isValid(s) ? detector.normalize(s) : value;
+};
@@ -0,0 +1,311 @@
+// Mergeable, bounded-memory building blocks for single-pass profiling.
+// Every structure here is a plain object (or Set/typed array) so it survives postMessage
+// and can be combined across chunks with its merge function.
+
+// --- Hashing ---
+
+/**
+ * cyrb53: fast 53-bit string hash. Collisions are negligible at the row counts we handle,
+ * which lets us count distinct values and duplicate rows without keeping the strings.
+ */
+export const hashString = (str: string, seed: number = 0): number => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+// --- Quantile Sketch ---
+
+/**
+ * Compactor-based quantile sketch (KLL style).
+ * Level h holds items of weight 2^h; when a level fills up it is sorted and every other
+ * item is promoted. Exact while fewer than `capacity` values have been added.
+ */
+export interface QuantileSketch {
+  capacity: number;
+  count: number;
+  levels: number[][];
+  parity: number; // Alternates the compaction offset so promotion is unbiased
+}
+
+export const createQuantileSketch = (capacity: number = 512): QuantileSketch => ({
+  capacity,
+  count: 0,
+  levels: [[]],
+  parity: 0
+});
+
+const compactSketch = (sketch: QuantileSketch) => {
+  for (let h = 0; h < sketch.levels.length; h++) {
+    const level = sketch.levels[h];
+    if (level.length < sketch.capacity) continue;
+
+    level.sort((a, b) => a - b);
+    const leftover = level.length % 2 === 1 ? level.pop() : undefined;
+    const promoted: number[] = [];
+    for (let i = sketch.parity; i < level.length; i += 2) promoted.push(level[i]);
+    sketch.parity = 1 - sketch.parity;
+
+    sketch.levels[h] = leftover !== undefined ? [leftover] : [];
+    if (!sketch.levels[h + 1]) sketch.levels[h + 1] = [];
+    sketch.levels[h + 1].push(...promoted);
+  }
+};
+
+export const addToSketch = (sketch: QuantileSketch, value: number) => {
+  sketch.levels[0].push(value);
+  sketch.count++;
+  if (sketch.levels[0].length >= sketch.capacity) compactSketch(sketch);
+};
+
+export const mergeSketches = (a: QuantileSketch, b: QuantileSketch): QuantileSketch => {
+  const depth = Math.max(a.levels.length, b.levels.length);
+  const merged: QuantileSketch = {
+    capacity: Math.max(a.capacity, b.capacity),
+    count: a.count + b.count,
+    levels: [],
+    parity: a.parity
+  };
+  for (let h = 0; h < depth; h++) {
+    merged.levels.push([...(a.levels[h] || []), ...(b.levels[h] || [])]);
+  }
+  compactSketch(merged);
+  return merged;
+};
+
+export interface SketchView {
+  count: number;
+  exact: boolean;
+  /** Value at a 0-based rank in the (approximate) sorted order. */
+  valueAtRank: (rank: number) => number;
+  /** Approximate number of values strictly below `value`. */
+  countBelow: (value: number) => number;
+  /** Approximate number of values strictly above `value`. */
+  countAbove: (value: number) => number;
+}
+
+/** Sorts the sketch once so repeated quantile lookups stay cheap. */
+export const viewSketch = (sketch: QuantileSketch): SketchView => {
+  const items: { value: number; weight: number }[] = [];
+  sketch.levels.forEach((level, h) => level.forEach(value => items.push({ value, weight: 2 ** h })));
+  items.sort((a, b) => a.value - b.value);
+
+  const cumulative: number[] = [];
+  let total = 0;
+  items.forEach(item => {
+    total += item.weight;
+    cumulative.push(total);
+  });
+
+  const valueAtRank = (rank: number) => {
+    if (items.length === 0) return NaN;
+    // Rescale: compaction keeps the total weight close to, but not always equal to, count
+    const target = (rank + 1) * (total / sketch.count);
+    let lo = 0, hi = items.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] >= target) hi = mid;
+      else lo = mid + 1;
+    }
+    return items[lo].value;
+  };
+
+  const scale = total > 0 ? sketch.count / total : 0;
+  const countBelow = (value: number) => {
+    let weight = 0;
+    for (const item of items) {
+      if (item.value >= value) break;
+      weight += item.weight;
+    }
+    return Math.round(weight * scale);
+  };
+  const countAbove = (value: number) => {
+    let weight = 0;
+    for (let i = items.length - 1; i >= 0 && items[i].value > value; i--) weight += items[i].weight;
+    return Math.round(weight * scale);
+  };
+
+  return { count: sketch.count, exact: sketch.levels.length === 1, valueAtRank, countBelow, countAbove };
+};
+
+// --- Distinct Counting ---
+
+const HLL_PRECISION = 14;
+const HLL_REGISTERS = 1 << HLL_PRECISION;
+const EXACT_DISTINCT_LIMIT = 100000;
+
+/**
+ * Counts distinct hashes exactly up to EXACT_DISTINCT_LIMIT, then falls back to a
+ * HyperLogLog estimate (~0.8% error) so memory stays flat on ID-like columns.
+ */
+export interface DistinctCounter {
+  exact: Set<number> | null;
+  registers: Uint8Array;
+}
+
+export const createDistinctCounter = (): DistinctCounter => ({
+  exact: new Set(),
+  registers: new Uint8Array(HLL_REGISTERS)
+});
+
+const updateRegisters = (registers: Uint8Array, hash: number) => {
+  const low = hash >>> 0;
+  const index = low >>> (32 - HLL_PRECISION);
+  const rest = (low << HLL_PRECISION) >>> 0;
+  const rank = Math.min(Math.clz32(rest) + 1, 32 - HLL_PRECISION + 1);
+  if (rank > registers[index]) registers[index] = rank;
+};
+
+export const addToDistinctCounter = (counter: DistinctCounter, hash: number) => {
+  updateRegisters(counter.registers, hash);
+  if (counter.exact) {
+    counter.exact.add(hash);
+    if (counter.exact.size > EXACT_DISTINCT_LIMIT) counter.exact = null;
+  }
+};
+
+/** Folds b into a in place. */
+export const mergeDistinctCounters = (a: DistinctCounter, b: DistinctCounter) => {
+  for (let i = 0; i < HLL_REGISTERS; i++) {
+    if (b.registers[i] > a.registers[i]) a.registers[i] = b.registers[i];
+  }
+
+  if (a.exact && b.exact) {
+    b.exact.forEach(h => a.exact!.add(h));
+    if (a.exact.size > EXACT_DISTINCT_LIMIT) a.exact = null;
+  } else {
+    a.exact = null;
+  }
+};
+
+export const distinctCount = (counter: DistinctCounter): number => {
+  if (counter.exact) return counter.exact.size;
+
+  let sum = 0, zeros = 0;
+  for (let i = 0; i < HLL_REGISTERS; i++) {
+    sum += 2 ** -counter.registers[i];
+    if (counter.registers[i] === 0) zeros++;
+  }
+  const alpha = 0.7213 / (1 + 1.079 / HLL_REGISTERS);
+  const estimate = (alpha * HLL_REGISTERS * HLL_REGISTERS) / sum;
+  // Small-range correction (linear counting)
+  if (estimate <= 2.5 * HLL_REGISTERS && zeros > 0) {
+    return Math.round(HLL_REGISTERS * Math.log(HLL_REGISTERS / zeros));
+  }
+  return Math.round(estimate);
+};
+
+// --- Moments ---
+
+/**
+ * Welford running mean/variance, extended to the third and fourth central moments
+ * (Terriberry) and merged with Chan's and Pébay's parallel formulas.
+ */
+export interface RunningMoments {
+  count: number;
+  mean: number;
+  m2: number;
+  m3: number;
+  m4: number;
+  min: number;
+  max: number;
+}
+
+export const createMoments = (): RunningMoments => ({ count: 0, mean: 0, m2: 0, m3: 0, m4: 0, min: Infinity, max: -Infinity });
+
+export const addToMoments = (m: RunningMoments, value: number) => {
+  const n1 = m.count;
+  m.count++;
+  const n = m.count;
+  const delta = value - m.mean;
+  const deltaN = delta / n;
+  const deltaN2 = deltaN * deltaN;
+  const term = delta * deltaN * n1;
+  m.mean += deltaN;
+  m.m4 += term * deltaN2 * (n * n - 3 * n + 3) + 6 * deltaN2 * m.m2 - 4 * deltaN * m.m3;
+  m.m3 += term * deltaN * (n - 2) - 3 * deltaN * m.m2;
+  m.m2 += term;
+  if (value < m.min) m.min = value;
+  if (value > m.max) m.max = value;
+};
+
+export const mergeMoments = (a: RunningMoments, b: RunningMoments): RunningMoments => {
+  if (a.count === 0) return { ...b };
+  if (b.count === 0) return { ...a };
+  const na = a.count;
+  const nb = b.count;
+  const count = na + nb;
+  const delta = b.mean - a.mean;
+  const delta2 = delta * delta;
+  return {
+    count,
+    mean: a.mean + (delta * nb) / count,
+    m2: a.m2 + b.m2 + (delta2 * na * nb) / count,
+    m3: a.m3 + b.m3
+      + (delta2 * delta * na * nb * (na - nb)) / (count * count)
+      + (3 * delta * (na * b.m2 - nb * a.m2)) / count,
+    m4: a.m4 + b.m4
+      + (delta2 * delta2 * na * nb * (na * na - na * nb + nb * nb)) / (count * count * count)
+      + (6 * delta2 * (na * na * b.m2 + nb * nb * a.m2)) / (count * count)
+      + (4 * delta * (na * b.m3 - nb * a.m3)) / count,
+    min: Math.min(a.min, b.min),
+    max: Math.max(a.max, b.max)
+  };
+};
+
+/** Sample skewness and excess kurtosis (0 for a normal distribution); 0 when undefined. */
+export const momentShape = (m: RunningMoments): { skewness: number; kurtosis: number } => {
+  if (m.count < 3 || m.m2 <= 0) return { skewness: 0, kurtosis: 0 };
+  return {
+    skewness: (Math.sqrt(m.count) * m.m3) / Math.pow(m.m2, 1.5),
+    kurtosis: (m.count * m.m4) / (m.m2 * m.m2) - 3
+  };
+};
+
+// --- Extreme Values ---
+
+export interface ExtremeValue {
+  value: number;
+  row: number; // 0-based index of the row holding it
+}
+
+/** Keeps the `size` smallest and largest values seen, with their rows, for outlier reports. */
+export interface ExtremeValues {
+  size: number;
+  lowest: ExtremeValue[]; // ascending
+  highest: ExtremeValue[]; // descending
+}
+
+export const createExtremes = (size: number = 100): ExtremeValues => ({ size, lowest: [], highest: [] });
+
+const insertBounded = (list: ExtremeValue[], item: ExtremeValue, size: number, before: (a: number, b: number) => boolean) => {
+  if (list.length === size && !before(item.value, list[list.length - 1].value)) return;
+  let i = list.length;
+  while (i > 0 && before(item.value, list[i - 1].value)) i--;
+  list.splice(i, 0, item);
+  if (list.length > size) list.pop();
+};
+
+export const addToExtremes = (e: ExtremeValues, value: number, row: number) => {
+  insertBounded(e.lowest, { value, row }, e.size, (a, b) => a < b);
+  insertBounded(e.highest, { value, row }, e.size, (a, b) => a > b);
+};
+
+/** `rowOffset` shifts b's rows when b was built over a later chunk. */
+export const mergeExtremes = (a: ExtremeValues, b: ExtremeValues, rowOffset: number = 0): ExtremeValues => {
+  const merged = createExtremes(Math.max(a.size, b.size));
+  // Each side merges on its own; small chunks hold the same rows in both lists
+  const shifted = (list: ExtremeValue[]) => list.map(x => ({ value: x.value, row: x.row + rowOffset }));
+  [...a.lowest, ...shifted(b.lowest)].forEach(x => insertBounded(merged.lowest, x, merged.size, (p, q) => p < q));
+  [...a.highest, ...shifted(b.highest)].forEach(x => insertBounded(merged.highest, x, merged.size, (p, q) => p > q));
+  return merged;
+};
@@ -0,0 +1,317 @@
+import { DataRow, DatasetStats, ColumnProfile, ColumnIssue, DatasetKey, FunctionalDependency, DatasetStructure } from '../types';
+import { normalizeValue } from './dataProcessing';
+import { withConfidence } from './issueConfidence';
+import { hashString } from './streamingStats';
+
+// Keys and dependencies need whole rows, so they're found on the first rows only
+export const STRUCTURE_ROW_LIMIT = 100000;
+const MAX_COLUMNS = 30;
+const MAX_KEY_COMBINATIONS = 150;
+const TRIPLE_KEY_COLUMNS = 8;
+const NEAR_KEY_TOLERANCE = 0.01; // Share of rows a near-key may repeat or leave empty
+const MIN_DEPENDENCY_SUPPORT = 0.95;
+const MAX_KEYS = 8;
+const MAX_DEPENDENCIES = 15;
+const ROW_INDEX_LIMIT = 100;
+const EXAMPLE_LIMIT = 3;
+
+// --- Encoding ---
+
+/**
+ * A column as dense integer codes (-1 for empty cells) so combinations can be counted with
+ * arrays. Labels are built on demand from a row, since combined columns rarely need them.
+ */
+interface EncodedColumn {
+  name: string;
+  codes: Int32Array;
+  cardinality: number;
+  label: (row: number) => string;
+}
+
+// Combined code spaces up to this size are looked up in a flat array instead of a Map
+const DIRECT_LOOKUP_LIMIT = 1 << 22;
+
+const encodeColumn = (rows: DataRow[], name: string): EncodedColumn => {
+  const codes = new Int32Array(rows.length);
+  const lookup = new Map<string, number>();
+  const values: string[] = [];
+  rows.forEach((row, i) => {
+    const v = normalizeValue(row[name]);
+    if (v === null) {
+      codes[i] = -1;
+      return;
+    }
+    const key = String(v);
+    let code = lookup.get(key);
+    if (code === undefined) {
+      code = values.length;
+      lookup.set(key, code);
+      values.push(key);
+    }
+    codes[i] = code;
+  });
+  return { name, codes, cardinality: values.length, label: i => values[codes[i]] };
+};
+
+/** Codes for the column pair; empty when either side is. */
+const combineColumns = (a: EncodedColumn, b: EncodedColumn): EncodedColumn => {
+  const codes = new Int32Array(a.codes.length);
+  const space = a.cardinality * b.cardinality;
+  const direct = space <= DIRECT_LOOKUP_LIMIT ? new Int32Array(space).fill(-1) : null;
+  const lookup = new Map<number, number>();
+  let cardinality = 0;
+  for (let i = 0; i < codes.length; i++) {
+    const ca = a.codes[i];
+    const cb = b.codes[i];
+    if (ca < 0 || cb < 0) {
+      codes[i] = -1;
+      continue;
+    }
+    const key = ca * b.cardinality + cb;
+    let code = direct ? direct[key] : (lookup.get(key) ?? -1);
+    if (code < 0) {
+      code = cardinality++;
+      if (direct) direct[key] = code;
+      else lookup.set(key, code);
+    }
+    codes[i] = code;
+  }
+  return { name: `${a.name}\u0000${b.name}`, codes, cardinality, label: i => `${a.label(i)} | ${b.label(i)}` };
+};
+
+// --- Candidate Keys ---
+
+/**
+ * Rows that leave the key empty or repeat an earlier key value. Exact copies of an earlier
+ * row are skipped: they're reported once as duplicate rows, not on every column combination.
+ */
+const measureKey = (column: EncodedColumn, columns: string[], duplicate: Uint8Array): DatasetKey => {
+  const seen = new Uint8Array(column.cardinality);
+  const key: DatasetKey = { columns, violations: 0, rowIndices: [], examples: [] };
+  column.codes.forEach((code, i) => {
+    if (duplicate[i]) return;
+    if (code >= 0 && !seen[code]) {
+      seen[code] = 1;
+      return;
+    }
+    key.violations++;
+    if (key.rowIndices.length < ROW_INDEX_LIMIT) key.rowIndices.push(i);
+    if (key.examples.length < EXAMPLE_LIMIT) key.examples.push(code < 0 ? '(empty)' : column.label(i));
+  });
+  return key;
+};
+
+/**
+ * Single-column keys first; column pairs only when no single column is an exact key, and
+ * triples (among the highest-cardinality columns) only when no pair is either.
+ */
+const findKeys = (encoded: EncodedColumn[], rowCount: number, duplicate: Uint8Array): DatasetKey[] => {
+  const tolerance = Math.max(1, Math.floor(rowCount * NEAR_KEY_TOLERANCE));
+  const isNear = (k: DatasetKey) => k.violations <= tolerance;
+  const found: DatasetKey[] = [];
+
+  const singles = encoded.map(c => measureKey(c, [c.name], duplicate));
+  found.push(...singles.filter(isNear));
+
+  if (!singles.some(k => k.violations === 0)) {
+    const nearSingles = new Set(singles.filter(isNear).map(k => k.columns[0]));
+    let combinations = 0;
+    for (let a = 0; a < encoded.length && combinations < MAX_KEY_COMBINATIONS; a++) {
+      for (let b = a + 1; b < encoded.length && combinations < MAX_KEY_COMBINATIONS; b++) {
+        // Too few value combinations to be unique
+        if (encoded[a].cardinality * encoded[b].cardinality < rowCount - tolerance) continue;
+        combinations++;
+        const key = measureKey(combineColumns(encoded[a], encoded[b]), [encoded[a].name, encoded[b].name], duplicate);
+        // A near-key plus any column is trivially near-unique; only report it if it fixes the repeats
+        const extendsNearKey = key.columns.some(c => nearSingles.has(c));
+        if (key.violations === 0 || (isNear(key) && !extendsNearKey)) found.push(key);
+      }
+    }
+  }
+
+  if (!found.some(k => k.violations === 0)) {
+    const top = [...encoded].sort((x, y) => y.cardinality - x.cardinality).slice(0, TRIPLE_KEY_COLUMNS);
+    for (let a = 0; a < top.length; a++) {
+      for (let b = a + 1; b < top.length; b++) {
+        const pair = combineColumns(top[a], top[b]);
+        for (let c = b + 1; c < top.length; c++) {
+          const key = measureKey(combineColumns(pair, top[c]), [top[a].name, top[b].name, top[c].name], duplicate);
+          if (key.violations === 0) found.push(key);
+        }
+      }
+    }
+  }
+
+  return found
+    .sort((x, y) => x.violations - y.violations || x.columns.length - y.columns.length)
+    .slice(0, MAX_KEYS);
+};
+
+// --- Functional Dependencies ---
+
+/** Row indices grouped by code, skipping empty cells. */
+const groupRows = (column: EncodedColumn): number[][] => {
+  const groups: number[][] = Array.from({ length: column.cardinality }, () => []);
+  column.codes.forEach((code, i) => { if (code >= 0) groups[code].push(i); });
+  return groups;
+};
+
+/**
+ * Checks `from → to` the way a pivot would: within each `from` value, the most common `to`
+ * value is the expected one and every other row is a violation. Dependencies that barely
+ * beat the overall most common `to` value (a near-constant column) aren't reported.
+ */
+const measureDependency = (
+  from: EncodedColumn,
+  groups: number[][],
+  to: EncodedColumn
+): FunctionalDependency | null => {
+  const counts = new Int32Array(to.cardinality);
+  const firstRow = new Int32Array(to.cardinality);
+  const expected = new Int32Array(groups.length).fill(-1);
+  const expectedRow = new Int32Array(groups.length);
+  const overall = new Int32Array(to.cardinality);
+  let considered = 0;
+  let agreeing = 0;
+
+  groups.forEach((rows, g) => {
+    const touched: number[] = [];
+    for (const i of rows) {
+      const code = to.codes[i];
+      if (code < 0) continue;
+      if (counts[code]++ === 0) {
+        touched.push(code);
+        firstRow[code] = i;
+      }
+      overall[code]++;
+      considered++;
+    }
+    let best = -1;
+    for (const code of touched) {
+      if (best < 0 || counts[code] > counts[best]) best = code;
+    }
+    if (best >= 0) agreeing += counts[best];
+    expected[g] = best;
+    if (best >= 0) expectedRow[g] = firstRow[best];
+    for (const code of touched) counts[code] = 0;
+  });
+
+  if (considered === 0) return null;
+  const support = agreeing / considered;
+  const baseline = overall.reduce((max, n) => Math.max(max, n), 0) / considered;
+  if (support < MIN_DEPENDENCY_SUPPORT || 1 - support > (1 - baseline) * 0.25) return null;
+
+  const dependency: FunctionalDependency = {
+    from: from.name, to: to.name, support, violations: considered - agreeing, rowIndices: [], examples: []
+  };
+  if (dependency.violations === 0) return dependency;
+
+  for (let i = 0; i < from.codes.length && dependency.rowIndices.length < ROW_INDEX_LIMIT; i++) {
+    const g = from.codes[i];
+    const code = to.codes[i];
+    if (g < 0 || code < 0 || code === expected[g]) continue;
+    dependency.rowIndices.push(i);
+    if (dependency.examples.length < EXAMPLE_LIMIT) {
+      dependency.examples.push(`${from.label(i)} → ${to.label(i)} (usually ${to.label(expectedRow[g])})`);
+    }
+  }
+  return dependency;
+};
+
+const findDependencies = (encoded: EncodedColumn[], rowCount: number, keyColumns: Set<string>): FunctionalDependency[] => {
+  const candidates = encoded.filter(c => !keyColumns.has(c.name));
+  // A determinant needs repeated values for the dependency to say anything
+  const determinants = candidates.filter(c => c.cardinality >= 2 && c.cardinality <= rowCount / 2);
+  const found: FunctionalDependency[] = [];
+
+  determinants.forEach(from => {
+    const groups = groupRows(from);
+    candidates.forEach(to => {
+      if (to === from) return;
+      const dependency = measureDependency(from, groups, to);
+      if (!dependency) return;
+      // One-to-one columns (country ↔ country_code) are reported once
+      const reverse = found.find(d => d.from === to.name && d.to === from.name);
+      if (reverse && reverse.support === 1 && dependency.support === 1) return;
+      found.push(dependency);
+    });
+  });
+
+  // Among equally strong determinants, the one with fewer values (zip rather than order_id) reads best
+  const cardinality = new Map(encoded.map(c => [c.name, c.cardinality]));
+  return found
+    .sort((x, y) => y.support - x.support || cardinality.get(x.from)! - cardinality.get(y.from)!)
+    .slice(0, MAX_DEPENDENCIES);
+};
+
+// --- Public API ---
+
+const isStructureCandidate = (col: ColumnProfile) => col.uniqueCount > 1 && col.inferredType !== 'boolean';
+
+export const discoverStructure = (rows: DataRow[], columns: ColumnProfile[]): DatasetStructure => {
+  const sample = rows.length > STRUCTURE_ROW_LIMIT ? rows.slice(0, STRUCTURE_ROW_LIMIT) : rows;
+  if (sample.length < 2) return { keys: [], dependencies: [] };
+
+  // Rows hashed the way profiling counts duplicate rows
+  const hashes = new Set<number>();
+  const duplicate = new Uint8Array(sample.length);
+  sample.forEach((row, i) => {
+    const hash = hashString(JSON.stringify(row));
+    if (hashes.has(hash)) duplicate[i] = 1;
+    else hashes.add(hash);
+  });
+
+  const encoded = columns.filter(isStructureCandidate).slice(0, MAX_COLUMNS).map(c => encodeColumn(sample, c.name));
+  const keys = findKeys(encoded, hashes.size, duplicate);
+  const singleKeyColumns = new Set(keys.filter(k => k.columns.length === 1).map(k => k.columns[0]));
+
+  return {
+    keys,
+    dependencies: findDependencies(encoded, sample.length, singleKeyColumns),
+    sampledRows: rows.length > STRUCTURE_ROW_LIMIT ? sample.length : undefined
+  };
+};
+
+export const describeKey = (key: DatasetKey): string => key.columns.join(' + ');
+
+// The closer to exact, the likelier the violations are errors rather than a wrong guess at the grain
+const keyIssue = (key: DatasetKey, rows: number): ColumnIssue => withConfidence({
+  type: 'key_violation',
+  description: `${key.violations} rows repeat or leave empty the near-key ${describeKey(key)}`,
+  severity: 'Medium',
+  count: key.violations,
+  examples: key.examples,
+  rowIndices: key.rowIndices
+}, 1 - 0.5 * Math.min(1, key.violations / (rows * NEAR_KEY_TOLERANCE)));
+
+const dependencyIssue = (d: FunctionalDependency): ColumnIssue => withConfidence({
+  type: 'dependency_violation',
+  description: `${d.violations} rows break ${d.from} → ${d.to} (${(d.support * 100).toFixed(1)}% of rows agree)`,
+  severity: 'Medium',
+  count: d.violations,
+  examples: d.examples,
+  rowIndices: d.rowIndices
+}, 0.5 + 0.5 * (d.support - MIN_DEPENDENCY_SUPPORT) / (1 - MIN_DEPENDENCY_SUPPORT));
+
+/** Adds the dataset structure to profiled stats and reports near-key and dependency violations on their columns. */
+export const withStructure = (stats: DatasetStats, rows: DataRow[]): DatasetStats => {
+  const structure = discoverStructure(rows, stats.columns);
+  const issuesFor = new Map<string, ColumnIssue[]>();
+  const report = (column: string, issue: ColumnIssue) => issuesFor.set(column, [...(issuesFor.get(column) || []), issue]);
+
+  const examined = Math.min(rows.length, STRUCTURE_ROW_LIMIT);
+  structure.keys.filter(k => k.violations > 0).forEach(k => report(k.columns[0], keyIssue(k, examined)));
+  // The same bad cell breaks every dependency on its column; report it once, under the strongest
+  const reported = new Set<string>();
+  structure.dependencies.filter(d => d.violations > 0).forEach(d => {
+    if (reported.has(d.to)) return;
+    reported.add(d.to);
+    report(d.to, dependencyIssue(d));
+  });
+
+  return {
+    ...stats,
+    structure,
+    columns: stats.columns.map(c => (issuesFor.has(c.name) ? { ...c, issues: [...c.issues, ...issuesFor.get(c.name)!] } : c))
+  };
+};
@@ -0,0 +1,138 @@
+import { parquetReadObjects } from 'hyparquet';
+import { DataRow, StructuredImportOptions } from '../types';
+
+export const DEFAULT_STRUCTURED_OPTIONS: StructuredImportOptions = {
+  arrayHandling: 'join'
+};
+
+export type StructuredFormat = 'json' | 'ndjson' | 'parquet';
+
+export const structuredFormatOf = (file: File): StructuredFormat | null => {
+  if (/\.json$/i.test(file.name)) return 'json';
+  if (/\.(ndjson|jsonl)$/i.test(file.name)) return 'ndjson';
+  if (/\.parquet$/i.test(file.name)) return 'parquet';
+  return null;
+};
+
+// --- Reading Records ---
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Accepts a top-level array of records, or an object wrapping exactly one such array
+ * (the common `{ "data": [...] }` API export shape).
+ */
+const readJSON = (text: string): Record<string, any>[] => {
+  const parsed = JSON.parse(text);
+  if (Array.isArray(parsed)) return parsed;
+
+  if (isPlainObject(parsed)) {
+    const arrays = Object.values(parsed).filter(Array.isArray);
+    if (arrays.length === 1) return arrays[0];
+  }
+  throw new Error("Expected a JSON array of records");
+};
+
+const readNDJSON = (text: string): Record<string, any>[] => {
+  const records: Record<string, any>[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim() === '') return;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1}`);
+    }
+  });
+  return records;
+};
+
+/** Parquet logical types come back as BigInt, Date or bytes; bring them into plain JSON shapes. */
+const normalizeParquetValue = (value: any): any => {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return new TextDecoder().decode(value);
+  if (Array.isArray(value)) return value.map(normalizeParquetValue);
+  if (isPlainObject(value)) {
+    const out: Record<string, any> = {};
+    Object.entries(value).forEach(([k, v]) => { out[k] = normalizeParquetValue(v); });
+    return out;
+  }
+  return value;
+};
+
+const readParquet = async (file: File): Promise<Record<string, any>[]> => {
+  const rows = await parquetReadObjects({ file: await file.arrayBuffer() });
+  return rows.map(normalizeParquetValue);
+};
+
+export const readRecords = async (file: File): Promise<Record<string, any>[]> => {
+  const format = structuredFormatOf(file);
+  if (format === 'parquet') return readParquet(file);
+
+  const text = await file.text();
+  const records = format === 'ndjson' ? readNDJSON(text) : readJSON(text);
+  // Scalars in a record array become a single "value" column
+  return records.map(r => (isPlainObject(r) ? r : { value: r }));
+};
+
+// --- Flattening ---
+
+const flattenInto = (target: DataRow, value: any, prefix: string, options: StructuredImportOptions) => {
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      target[prefix] = null;
+      return;
+    }
+    entries.forEach(([key, v]) => flattenInto(target, v, prefix ? `${prefix}.${key}` : key, options));
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      // In index mode the tags.0, tags.1 columns from other rows already cover it
+      if (options.arrayHandling !== 'index') target[prefix] = null;
+    } else if (options.arrayHandling === 'index') {
+      value.forEach((v, i) => flattenInto(target, v, `${prefix}.${i}`, options));
+    } else if (options.arrayHandling === 'join' && value.every(v => v === null || typeof v !== 'object')) {
+      target[prefix] = value.map(v => (v === null ? '' : String(v))).join(', ');
+    } else {
+      // Arrays of objects can't be joined meaningfully, so they fall back to JSON text
+      target[prefix] = JSON.stringify(value);
+    }
+    return;
+  }
+
+  target[prefix] = value === undefined ? null : value;
+};
+
+/**
+ * Flattens nested records into dotted column names ("customer.address.city") and
+ * aligns every row to the union of columns, in first-seen order, so the result has the
+ * same rectangular shape parseCSV produces.
+ */
+export const flattenRecords = (records: Record<string, any>[], options: StructuredImportOptions): DataRow[] => {
+  const flat = records.map(record => {
+    const row: DataRow = {};
+    flattenInto(row, record, '', options);
+    return row;
+  });
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  flat.forEach(row => Object.keys(row).forEach(key => {
+    if (!seen.has(key)) {
+      seen.add(key);
+      columns.push(key);
+    }
+  }));
+
+  return flat.map(row => {
+    const aligned: DataRow = {};
+    columns.forEach(col => { aligned[col] = col in row ? row[col] : null; });
+    return aligned;
+  });
+};
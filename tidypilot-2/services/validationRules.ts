@@ -0,0 +1,370 @@
+import { ValidationRule, RuleCondition, RuleSet, ColumnIssue, DecimalSeparator, CompareOperator, ArithmeticOperator, DateOrder } from '../types';
+import { parseNumber } from './numberParsing';
+import { CalendarDate, matchDate, toCalendarDate } from './dateParsing';
+import { isRegionOfCountry } from './geoReference';
+
+const ROW_INDEX_LIMIT = 100;
+const EXAMPLE_LIMIT = 3;
+
+const RULE_KINDS = new Set<string>([
+  'range', 'regex', 'allowed_values', 'not_null', 'unique', 'max_length', 'compare', 'arithmetic', 'age_matches', 'valid_pair'
+]);
+
+// --- Describing Rules ---
+
+export const describeCondition = (c: RuleCondition): string => {
+  switch (c.operator) {
+    case 'equals': return `${c.column} = '${c.value ?? ''}'`;
+    case 'not_equals': return `${c.column} ≠ '${c.value ?? ''}'`;
+    case 'in': return `${c.column} in (${c.value ?? ''})`;
+    case 'is_empty': return `${c.column} is empty`;
+    case 'is_not_empty': return `${c.column} is not empty`;
+  }
+};
+
+export const describeRule = (rule: ValidationRule): string => {
+  let text: string;
+  switch (rule.kind) {
+    case 'range':
+      text = rule.min !== undefined && rule.max !== undefined ? `${rule.column} between ${rule.min} and ${rule.max}`
+        : rule.min !== undefined ? `${rule.column} ≥ ${rule.min}` : `${rule.column} ≤ ${rule.max}`;
+      break;
+    case 'regex': text = `${rule.column} matches /${rule.pattern}/${rule.flags || ''}`; break;
+    case 'allowed_values':
+      text = `${rule.column} is one of ${rule.values.slice(0, 5).join(', ')}${rule.values.length > 5 ? ', …' : ''}`;
+      break;
+    case 'not_null': text = `${rule.column} is not empty`; break;
+    case 'unique': text = `${rule.column} is unique`; break;
+    case 'max_length': text = `${rule.column} is at most ${rule.maxLength} characters`; break;
+    case 'compare': text = `${rule.column} ${rule.operator} ${rule.otherColumn}`; break;
+    case 'arithmetic': text = `${rule.column} = ${rule.left} ${rule.operator === '*' ? '×' : rule.operator} ${rule.right}`; break;
+    case 'age_matches': text = `${rule.column} matches ${rule.birthColumn}${rule.asOfColumn ? ` as of ${rule.asOfColumn}` : ''}`; break;
+    case 'valid_pair': text = `${rule.column} is a region of ${rule.otherColumn}`; break;
+  }
+  return rule.when ? `${text} when ${describeCondition(rule.when)}` : text;
+};
+
+/** Returns why a rule can't run (bad regex, empty range...), or null when it's usable. */
+export const ruleProblem = (rule: ValidationRule): string | null => {
+  if (!RULE_KINDS.has(rule.kind)) return `Unknown rule type "${rule.kind}"`;
+  if (!rule.column) return 'Pick a column';
+  if (rule.kind === 'range' && rule.min === undefined && rule.max === undefined) return 'Set a minimum or maximum';
+  if (rule.kind === 'range' && rule.min !== undefined && rule.max !== undefined && rule.min > rule.max) return 'Minimum is above maximum';
+  if (rule.kind === 'allowed_values' && rule.values.length === 0) return 'List at least one allowed value';
+  if (rule.kind === 'max_length' && !(rule.maxLength >= 0)) return 'Set a maximum length';
+  if (rule.kind === 'regex') {
+    try {
+      new RegExp(rule.pattern, rule.flags);
+    } catch {
+      return 'Invalid regular expression';
+    }
+    // A g or y flag makes test() resume from the previous match, so rows would pass or fail by order
+    if (/[gy]/.test(rule.flags || '')) return 'Remove the g and y flags; each value is tested on its own';
+  }
+  if ((rule.kind === 'compare' || rule.kind === 'valid_pair') && !rule.otherColumn) return 'Pick a column to compare with';
+  if (rule.kind === 'arithmetic' && (!rule.left || !rule.right)) return 'Pick both columns of the calculation';
+  if (rule.kind === 'age_matches' && !rule.birthColumn) return 'Pick the birth date column';
+  if (rule.when && !rule.when.column) return 'Pick a column for the condition';
+  return null;
+};
+
+// --- Evaluation ---
+
+export type ValueOf = (column: string) => any;
+
+/**
+ * Calendar readings of a date value. Rules run before a column's day/month order is
+ * settled, so "03/04/2024" yields both readings and a check passes if either does.
+ */
+const readDates = (value: any): CalendarDate[] => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? [] : [{ year: value.getUTCFullYear(), month: value.getUTCMonth() + 1, day: value.getUTCDate() }];
+  }
+  const match = matchDate(String(value));
+  if (!match) return [];
+  const orders: DateOrder[] = match.shape === 'numeric' ? ['mdy', 'dmy'] : ['mdy'];
+  return orders.map(order => toCalendarDate(match, order)).filter((d): d is CalendarDate => d !== null);
+};
+
+const dateOrdinal = (d: CalendarDate) =>
+  ((d.year * 100 + d.month) * 100 + d.day) * 86400 + (d.time ? d.time.hour * 3600 + d.time.minute * 60 + d.time.second : 0);
+
+const fullYearsBetween = (from: CalendarDate, to: CalendarDate) =>
+  to.year - from.year - (to.month < from.month || (to.month === from.month && to.day < from.day) ? 1 : 0);
+
+const compareValues = (a: number, b: number, operator: CompareOperator): boolean => {
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '=': return a === b;
+    case '>=': return a >= b;
+    case '>': return a > b;
+  }
+};
+
+const calculate = (a: number, b: number, operator: ArithmeticOperator): number | null => {
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : a / b;
+  }
+};
+
+// Calculations are allowed a cent or half a percent of drift, whichever is larger
+const DEFAULT_TOLERANCE = 0.005;
+
+/**
+ * Streaming state for one rule. Violations are counted over every row; row indices and
+ * examples are capped. Unique rules also remember the first row holding each value.
+ */
+export interface RuleTracker {
+  rule: ValidationRule;
+  test: (value: any, valueOf: ValueOf) => boolean;
+  usable: boolean;
+  violations: number;
+  rowIndices: number[];
+  examples: string[];
+  seen: Map<string, number>;
+}
+
+export const conditionHolds = (c: RuleCondition, valueOf: ValueOf): boolean => {
+  const value = valueOf(c.column);
+  if (c.operator === 'is_empty') return value === null;
+  if (c.operator === 'is_not_empty') return value !== null;
+  if (value === null) return c.operator === 'not_equals';
+
+  const text = String(value).toLowerCase();
+  const target = (c.value ?? '').trim().toLowerCase();
+  if (c.operator === 'equals') return text === target;
+  if (c.operator === 'not_equals') return text !== target;
+  return target.split(',').map(v => v.trim()).includes(text);
+};
+
+/**
+ * Builds the check for one rule. Cross-column checks pass when another column is empty or
+ * can't be read as a number/date; those problems are reported by the single-column checks.
+ */
+const compileTest = (
+  rule: ValidationRule,
+  decimalOf: (column: string) => DecimalSeparator
+): ((value: any, valueOf: ValueOf) => boolean) => {
+  const decimal = decimalOf(rule.column);
+  const numberIn = (column: string, value: any) => (value === null ? null : parseNumber(value, decimalOf(column))?.value ?? null);
+
+  switch (rule.kind) {
+    case 'not_null':
+      return value => value !== null;
+    case 'range':
+      return value => {
+        if (value === null) return true;
+        const parsed = parseNumber(value, decimal);
+        if (!parsed) return false;
+        return (rule.min === undefined || parsed.value >= rule.min) && (rule.max === undefined || parsed.value <= rule.max);
+      };
+    case 'regex': {
+      const pattern = new RegExp(rule.pattern, rule.flags);
+      return value => value === null || pattern.test(String(value));
+    }
+    case 'allowed_values': {
+      const allowed = new Set(rule.values.map(v => (rule.caseSensitive ? v.trim() : v.trim().toLowerCase())));
+      return value => value === null || allowed.has(rule.caseSensitive ? String(value) : String(value).toLowerCase());
+    }
+    case 'max_length':
+      return value => value === null || String(value).length <= rule.maxLength;
+    case 'unique':
+      return () => true; // Handled with the seen-values map
+    case 'compare':
+      return (value, valueOf) => {
+        const other = valueOf(rule.otherColumn);
+        if (value === null || other === null) return true;
+        const a = numberIn(rule.column, value);
+        const b = numberIn(rule.otherColumn, other);
+        if (a !== null && b !== null) return compareValues(a, b, rule.operator);
+        const da = readDates(value);
+        const db = readDates(other);
+        if (da.length === 0 || db.length === 0) return true;
+        return da.some(x => db.some(y => compareValues(dateOrdinal(x), dateOrdinal(y), rule.operator)));
+      };
+    case 'arithmetic':
+      return (value, valueOf) => {
+        const actual = numberIn(rule.column, value);
+        const left = numberIn(rule.left, valueOf(rule.left));
+        const right = numberIn(rule.right, valueOf(rule.right));
+        if (actual === null || left === null || right === null) return true;
+        const expected = calculate(left, right, rule.operator);
+        if (expected === null) return true;
+        return Math.abs(actual - expected) <= Math.max(0.01, Math.abs(expected) * (rule.tolerance ?? DEFAULT_TOLERANCE));
+      };
+    case 'age_matches':
+      return (value, valueOf) => {
+        const age = numberIn(rule.column, value);
+        const births = readDates(valueOf(rule.birthColumn) ?? '');
+        if (age === null || births.length === 0) return true;
+        if (rule.asOfColumn) {
+          const asOf = readDates(valueOf(rule.asOfColumn) ?? '');
+          return asOf.length === 0 || births.some(b => asOf.some(d => fullYearsBetween(b, d) === age));
+        }
+        // Without a reference date the age may have been recorded up to a year ago
+        const now = new Date();
+        const today = { year: now.getFullYear(), month: now.getMonth() + 1, day: now.getDate() };
+        return births.some(b => {
+          const years = fullYearsBetween(b, today);
+          return age === years || age === years - 1;
+        });
+      };
+    case 'valid_pair':
+      return (value, valueOf) => {
+        const country = valueOf(rule.otherColumn);
+        if (value === null || country === null) return true;
+        return isRegionOfCountry(String(value), String(country)) !== false;
+      };
+  }
+};
+
+export const createRuleTrackers = (rules: ValidationRule[], decimalOf: (column: string) => DecimalSeparator): RuleTracker[] =>
+  rules.map(rule => {
+    const usable = ruleProblem(rule) === null;
+    return {
+      rule,
+      test: usable ? compileTest(rule, decimalOf) : () => true,
+      usable,
+      violations: 0,
+      rowIndices: [],
+      examples: [],
+      seen: new Map()
+    };
+  });
+
+const recordViolation = (tracker: RuleTracker, rowIndex: number, value: any) => {
+  tracker.violations++;
+  if (tracker.rowIndices.length < ROW_INDEX_LIMIT) tracker.rowIndices.push(rowIndex);
+  if (tracker.examples.length < EXAMPLE_LIMIT) tracker.examples.push(value === null ? '(empty)' : String(value));
+};
+
+/** Checks one row (values already normalized by `valueOf`) against every rule. */
+export const trackRow = (trackers: RuleTracker[], rowIndex: number, valueOf: ValueOf) => {
+  for (const tracker of trackers) {
+    const { rule } = tracker;
+    if (!tracker.usable || (rule.when && !conditionHolds(rule.when, valueOf))) continue;
+    const value = valueOf(rule.column);
+
+    if (rule.kind === 'unique') {
+      // Blanks are left to not_null rules
+      if (value === null) continue;
+      const key = String(value);
+      if (tracker.seen.has(key)) recordViolation(tracker, rowIndex, value);
+      else tracker.seen.set(key, rowIndex);
+    } else if (!tracker.test(value, valueOf)) {
+      recordViolation(tracker, rowIndex, value);
+    }
+  }
+};
+
+/** Folds b (built over rows starting at `offset`) into a, in place. */
+export const mergeRuleTrackers = (a: RuleTracker, b: RuleTracker, offset: number) => {
+  a.violations += b.violations;
+
+  const laterRows: { index: number; value: string }[] = [];
+  // Values first seen in chunk b may repeat values from chunk a
+  b.seen.forEach((index, key) => {
+    if (a.seen.has(key)) {
+      a.violations++;
+      laterRows.push({ index: index + offset, value: key });
+    } else {
+      a.seen.set(key, index + offset);
+    }
+  });
+  b.rowIndices.forEach((index, i) => laterRows.push({ index: index + offset, value: b.examples[i] }));
+
+  laterRows.sort((x, y) => x.index - y.index).forEach(({ index, value }) => {
+    if (a.rowIndices.length < ROW_INDEX_LIMIT) a.rowIndices.push(index);
+    if (value !== undefined && a.examples.length < EXAMPLE_LIMIT) a.examples.push(value);
+  });
+};
+
+export const ruleIssue = (tracker: RuleTracker): ColumnIssue | null => {
+  if (!tracker.usable || tracker.violations === 0) return null;
+  return {
+    type: 'validation_error',
+    description: `${tracker.violations} rows break rule: ${describeRule(tracker.rule)}`,
+    severity: tracker.rule.severity || 'High',
+    count: tracker.violations,
+    examples: tracker.examples,
+    ruleId: tracker.rule.id,
+    rowIndices: tracker.rowIndices
+  };
+};
+
+// --- Rule Sets ---
+
+const STORAGE_KEY = 'tidypilot.ruleSets';
+
+export const createRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/** "Sales_2024-03 (2).csv" and "sales_2024-04.csv" share the feed key "sales". */
+export const feedKeyOf = (fileName: string): string => {
+  const key = fileName
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase()
+    .replace(/\d+/g, '')
+    .replace(/[^a-z]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return key || fileName.toLowerCase();
+};
+
+export const loadRuleSets = (): RuleSet[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeRuleSets = (sets: RuleSet[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(sets));
+
+/** Inserts or replaces (by id) a rule set and returns the updated list. */
+export const saveRuleSet = (set: RuleSet): RuleSet[] => {
+  const sets = [...loadRuleSets().filter(s => s.id !== set.id), { ...set, updatedAt: Date.now() }];
+  storeRuleSets(sets);
+  return sets;
+};
+
+export const deleteRuleSet = (id: string): RuleSet[] => {
+  const sets = loadRuleSets().filter(s => s.id !== id);
+  storeRuleSets(sets);
+  return sets;
+};
+
+/** Most recently saved rule set for the same feed as `fileName`, if any. */
+export const findRuleSetForFile = (fileName: string): RuleSet | null => {
+  const feed = feedKeyOf(fileName);
+  return loadRuleSets()
+    .filter(s => s.feed === feed)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0] || null;
+};
+
+/** Reads a rule set exported as JSON; fresh ids keep it from overwriting a stored one. */
+export const parseRuleSetJSON = (text: string): RuleSet => {
+  const parsed = JSON.parse(text);
+  if (!parsed || !Array.isArray(parsed.rules)) throw new Error("Not a TidyPilot rule set");
+  const unknown = parsed.rules.find((r: any) => !RULE_KINDS.has(r?.kind));
+  if (unknown !== undefined) throw new Error(`Unknown rule type "${unknown?.kind}"`);
+  return {
+    id: `set-${Date.now().toString(36)}`,
+    name: String(parsed.name || 'Imported rules'),
+    feed: String(parsed.feed || ''),
+    rules: parsed.rules.map((r: ValidationRule) => ({ ...r, id: createRuleId() })),
+    updatedAt: Date.now()
+  };
+};
+
+/** Empty working rule set for a file, named after its feed. */
+export const createRuleSet = (fileName: string): RuleSet => ({
+  id: `set-${Date.now().toString(36)}`,
+  name: `${feedKeyOf(fileName)} rules`,
+  feed: feedKeyOf(fileName),
+  rules: [],
+  updatedAt: 0
+});
@@ -0,0 +1,167 @@
+import { ClusterMethod, CleaningOperation, ColumnProfile, MappingTable } from '../types';
+import { feedKeyOf } from './validationRules';
+import { LOW_CONFIDENCE_THRESHOLD } from './issueConfidence';
+
+export interface HarmonizationMember {
+  value: string;
+  count: number; // Rows holding the value in this file, 0 when only the table knows it
+  accepted: boolean; // Rejected members keep their own spelling
+}
+
+export interface HarmonizationGroup {
+  id: string;
+  canonical: string; // Picked from the members or typed
+  members: HarmonizationMember[];
+}
+
+const createGroupId = () => `group-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// --- Groups ---
+
+/**
+ * Editable groups for a column: the values the table already maps, then the method's clusters
+ * over the values not yet placed. Once the table has the column it decides what is merged, so
+ * new members start rejected; before that, members of confident clusters start accepted.
+ */
+export const buildGroups = (column: ColumnProfile, method: ClusterMethod, mapping?: Record<string, string>): HarmonizationGroup[] => {
+  const counts = new Map<string, number>();
+  column.topCategories?.forEach(c => counts.set(c.value, c.count));
+  column.clusters?.forEach(cluster => cluster.members.forEach(m => counts.set(m.value, m.count)));
+
+  const groups: HarmonizationGroup[] = [];
+  const placed = new Map<string, HarmonizationGroup>(); // Value → its group
+  const byCanonical = new Map<string, HarmonizationGroup>();
+  Object.entries(mapping || {}).forEach(([value, canonical]) => {
+    let group = byCanonical.get(canonical);
+    if (!group) {
+      group = { id: createGroupId(), canonical, members: [] };
+      byCanonical.set(canonical, group);
+      groups.push(group);
+      if (!(canonical in (mapping || {}))) {
+        group.members.push({ value: canonical, count: counts.get(canonical) || 0, accepted: true });
+        placed.set(canonical, group);
+      }
+    }
+    group.members.push({ value, count: counts.get(value) || 0, accepted: true });
+    placed.set(value, group);
+  });
+
+  // A cluster overlapping a group adds its other members to that group
+  column.clusters?.filter(c => c.method === method).forEach(cluster => {
+    const fresh = cluster.members.filter(m => !placed.has(m.value));
+    const joined = cluster.members.map(m => placed.get(m.value)).find(Boolean);
+    if (fresh.length === 0 || (!joined && fresh.length < 2)) return;
+    const accepted = !mapping && (cluster.confidence ?? 0) >= LOW_CONFIDENCE_THRESHOLD;
+    const group = joined || {
+      id: createGroupId(),
+      canonical: fresh.some(m => m.value === cluster.canonical) ? cluster.canonical : fresh[0].value,
+      members: []
+    };
+    if (!joined) groups.push(group);
+    fresh.forEach(m => {
+      group.members.push({ value: m.value, count: m.count, accepted });
+      placed.set(m.value, group);
+    });
+  });
+  return groups;
+};
+
+/** The value mapping the groups describe: each accepted member that isn't already canonical. */
+export const groupsToMapping = (groups: HarmonizationGroup[]): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+  groups.forEach(group => {
+    const canonical = group.canonical.trim();
+    if (!canonical) return;
+    group.members.forEach(m => {
+      if (m.accepted && m.value !== canonical) mapping[m.value] = canonical;
+    });
+  });
+  return mapping;
+};
+
+/** Moves a value to another group, or to a group of its own when `toGroupId` is null. */
+export const moveMember = (groups: HarmonizationGroup[], value: string, toGroupId: string | null): HarmonizationGroup[] => {
+  const from = groups.find(g => g.members.some(m => m.value === value));
+  const member = from?.members.find(m => m.value === value);
+  if (!from || !member || from.id === toGroupId) return groups;
+
+  const moved = { ...member, accepted: true };
+  const rest = groups.map(g => (g === from ? { ...g, members: g.members.filter(m => m.value !== value) } : g));
+  const next = toGroupId
+    ? rest.map(g => (g.id === toGroupId ? { ...g, members: [...g.members, moved] } : g))
+    : [...rest, { id: createGroupId(), canonical: value, members: [moved] }];
+  return next.filter(g => g.members.length > 0);
+};
+
+/** One map_values step per mapped column, run before the recipe so columns keep their file names. */
+export const mappingOperations = (table: MappingTable): CleaningOperation[] =>
+  Object.entries(table.mappings)
+    .filter(([, mapping]) => Object.keys(mapping).length > 0)
+    .map(([column, mapping]) => ({ id: `mapping:${column}`, enabled: true, kind: 'map_values', column, mapping }));
+
+export const mappedValueCount = (table: MappingTable): number =>
+  Object.values(table.mappings).reduce((sum, mapping) => sum + Object.keys(mapping).length, 0);
+
+// --- Mapping Tables ---
+
+const STORAGE_KEY = 'tidypilot.mappingTables';
+
+export const loadMappingTables = (): MappingTable[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeMappingTables = (tables: MappingTable[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
+
+/** Inserts or replaces (by id) a mapping table and returns the updated list. */
+export const saveMappingTable = (table: MappingTable): MappingTable[] => {
+  const tables = [...loadMappingTables().filter(t => t.id !== table.id), { ...table, updatedAt: Date.now() }];
+  storeMappingTables(tables);
+  return tables;
+};
+
+export const deleteMappingTable = (id: string): MappingTable[] => {
+  const tables = loadMappingTables().filter(t => t.id !== id);
+  storeMappingTables(tables);
+  return tables;
+};
+
+/** Most recently saved mapping table for the same feed as `fileName`, if any. */
+export const findMappingTableForFile = (fileName: string): MappingTable | null => {
+  const feed = feedKeyOf(fileName);
+  return loadMappingTables()
+    .filter(t => t.feed === feed)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0] || null;
+};
+
+/** Reads a mapping table exported as JSON; a fresh id keeps it from overwriting a stored one. */
+export const parseMappingTableJSON = (text: string): MappingTable => {
+  const parsed = JSON.parse(text);
+  if (!parsed || typeof parsed.mappings !== 'object' || Array.isArray(parsed.mappings)) throw new Error("Not a TidyPilot mapping table");
+  const mappings: Record<string, Record<string, string>> = {};
+  Object.entries(parsed.mappings).forEach(([column, mapping]) => {
+    if (mapping && typeof mapping === 'object') {
+      mappings[column] = Object.fromEntries(Object.entries(mapping).map(([from, to]) => [from, String(to)]));
+    }
+  });
+  return {
+    id: `mapping-${Date.now().toString(36)}`,
+    name: String(parsed.name || 'Imported mappings'),
+    feed: String(parsed.feed || ''),
+    mappings,
+    updatedAt: Date.now()
+  };
+};
+
+/** Empty working mapping table for a file, named after its feed. */
+export const createMappingTable = (fileName: string): MappingTable => ({
+  id: `mapping-${Date.now().toString(36)}`,
+  name: `${feedKeyOf(fileName)} mappings`,
+  feed: feedKeyOf(fileName),
+  mappings: {},
+  updatedAt: 0
+});
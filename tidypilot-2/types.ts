@@ -6,13 +6,69 @@ export interface DataRow {
 export type ColumnType = 'string' | 'number' | 'date' | 'boolean' | 'mixed';
 
 export interface ColumnIssue {
-  type: 'missing' | 'duplicate_rows' | 'inconsistent_category' | 'mixed_types' | 'outlier' | 'invalid_date' | 'validation_error';
+  type: 'missing' | 'duplicate_rows' | 'inconsistent_category' | 'mixed_types' | 'outlier' | 'invalid_date' | 'validation_error' | 'schema_mismatch' | 'key_violation' | 'dependency_violation' | 'redundant_column' | 'missing_pattern';
   description: string;
   severity: 'Low' | 'Medium' | 'High';
   count: number;
   examples: string[];
   isAnomaly?: boolean;
-  isLowConfidence?: boolean;
+  isLowConfidence?: boolean; // Set when confidence is below the reporting threshold
+  confidence?: number; // 0..1, from the evidence behind the finding (variant frequencies, sample size, ...)
+  ruleId?: string; // Set on validation_error issues raised by a user rule
+  rowIndices?: number[]; // 0-based data row indices of (the first) offending rows
+  anomalyScores?: number[]; // Outliers: detector score for each entry of rowIndices
+}
+
+export type DecimalSeparator = '.' | ',';
+
+export interface NumberFormatInfo {
+  decimalSeparator: DecimalSeparator;
+  currency?: string; // Dominant ISO currency code among the parsed values
+  unit?: string; // Dominant unit suffix, e.g. "%", "kg"
+}
+
+export type DateOrder = 'dmy' | 'mdy';
+
+export interface DateFormatInfo {
+  kind: 'text' | 'excel_serial' | 'unix_seconds' | 'unix_millis';
+  order: DateOrder; // How numeric dates like 03/04/2024 are read
+  ambiguous: boolean; // No value pinned the day/month order down, so `order` is a guess
+  hasTime: boolean;
+  formats: string[]; // Shapes seen, most common first, e.g. ["ISO 8601", "DD/MM/YYYY"]
+}
+
+export type SemanticType = 'email' | 'phone' | 'url' | 'postal_code' | 'uuid' | 'iban' | 'currency_code';
+
+export interface HistogramBin {
+  start: number;
+  end: number; // Exclusive, except for the last bin
+  count: number;
+}
+
+export interface NumericStats {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+  quantiles: { p1: number; p5: number; p25: number; p75: number; p95: number; p99: number };
+  skewness: number;
+  kurtosis: number; // Excess kurtosis: 0 for a normal distribution
+  zeroCount: number;
+  negativeCount: number;
+  histogram: HistogramBin[];
+}
+
+export interface LengthStats {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+// Character-class shape of a value: letters become A/a, digits 9, the rest stays ("AB-1234" → "AA-9999")
+export interface ValuePattern {
+  pattern: string;
+  count: number;
 }
 
 export interface ColumnProfile {
@@ -22,13 +78,94 @@ export interface ColumnProfile {
   uniqueCount: number;
   issues: ColumnIssue[];
   topCategories?: { value: string; count: number }[]; // Only for text
-  numericStats?: {
-    min: number;
-    max: number;
-    mean: number;
-    median: number;
-    stdDev: number;
-  };
+  numericStats?: NumericStats;
+  lengthStats?: LengthStats; // Only for text
+  patterns?: ValuePattern[]; // Only for text, most common first
+  numberFormat?: NumberFormatInfo; // Only for number columns
+  dateFormat?: DateFormatInfo; // Only for date columns
+  semanticType?: SemanticType; // Business format recognised on top of inferredType
+  majorityType?: ColumnType; // Strict mode: type most values have, short of typing the column; the rest are violations
+  clusters?: CategoryCluster[]; // Only for text: likely variants of one value, per method
+}
+
+// fingerprint: same words · ngram: same letter pairs · metaphone/soundex: same sound · nearest_neighbor: few edits apart
+export type ClusterMethod = 'fingerprint' | 'ngram' | 'metaphone' | 'soundex' | 'nearest_neighbor';
+
+export interface CategoryCluster {
+  method: ClusterMethod;
+  canonical: string; // Suggested value for the whole cluster: its most common member
+  members: { value: string; count: number }[]; // Most common first
+  count: number; // Rows holding any member
+  confidence?: number; // 0..1 that the members are one value; scored for the methods behind findings
+}
+
+export interface DatasetKey {
+  columns: string[];
+  violations: number; // Rows with an empty or repeated key value; 0 for an exact key
+  rowIndices: number[];
+  examples: string[];
+}
+
+export interface FunctionalDependency {
+  from: string;
+  to: string;
+  support: number; // Share of rows agreeing with the most common `to` value for their `from` value, 0..1
+  violations: number;
+  rowIndices: number[];
+  examples: string[];
+}
+
+export interface DatasetStructure {
+  keys: DatasetKey[]; // Exact keys first, then near-keys by fewest violations
+  dependencies: FunctionalDependency[];
+  sampledRows?: number; // Set when only the first rows were examined
+}
+
+// pearson for number pairs (-1..1, with the rank correlation alongside), cramers_v for
+// category pairs and correlation_ratio for category → number pairs (0..1)
+export type AssociationMeasure = 'pearson' | 'cramers_v' | 'correlation_ratio';
+
+export interface ColumnAssociation {
+  columns: [string, string];
+  measure: AssociationMeasure;
+  value: number;
+  spearman?: number; // Rank correlation, alongside pearson
+  rows: number; // Rows where both columns are filled
+}
+
+export interface AssociationMatrix {
+  columns: string[]; // Columns that took part, in dataset order
+  pairs: ColumnAssociation[];
+  sampledRows?: number; // Set when only the first rows were examined
+}
+
+export interface MissingnessCondition {
+  column: string; // Column that goes missing
+  byColumn: string; // Category column it depends on
+  value: string;
+  missingShare: number; // Share of rows with byColumn = value where column is empty, 0..1
+  otherShare: number; // ... among the remaining rows
+  rows: number; // Rows with byColumn = value
+}
+
+export interface MissingRun {
+  column: string;
+  dateColumn: string;
+  from: string; // ISO dates of the first and last row in the run
+  to: string;
+  rows: number;
+}
+
+export interface MissingnessReport {
+  columns: string[]; // Columns with empty cells, most empty first
+  coMissing: number[][]; // Rows where columns i and j are both empty; the diagonal is each column's own count
+  emptyCellsPerRow: { emptyCells: number; rows: number }[]; // How many rows have each number of empty cells
+  sparseRows: number[]; // Rows with at least half their cells empty (first ones only)
+  sparseRowCount: number;
+  nullity: { row: number; empty: number[] }[]; // Evenly spaced rows, indices into `columns`
+  conditions: MissingnessCondition[];
+  runs: MissingRun[];
+  sampledRows?: number; // Set when only the first rows were examined
 }
 
 export interface DatasetStats {
@@ -37,6 +174,9 @@ export interface DatasetStats {
   totalMissingCells: number;
   duplicateRows: number;
   columns: ColumnProfile[];
+  structure?: DatasetStructure; // Grain and dependencies; needs the rows, so absent for sketch-only stats
+  associations?: AssociationMatrix; // Likewise computed from the rows
+  missingness?: MissingnessReport;
 }
 
 export interface AnalysisReport {
@@ -65,6 +205,7 @@ export interface BIModelingSuggestions {
   dimensions: string[];
   starSchema: string;
   kpis: KPIMeasure[];
+  relationships?: TableRelationship[]; // Discovered from the data, not by the LLM
 }
 
 export interface CleaningPlan {
@@ -74,10 +215,262 @@ export interface CleaningPlan {
   biModeling?: BIModelingSuggestions;
 }
 
+export interface WorkbookSheetInfo {
+  name: string;
+  range: string; // Used range in A1 notation, e.g. "A1:F120"
+  rowCount: number;
+  columnCount: number;
+}
+
+export interface SheetParseOptions {
+  sheetName: string;
+  range?: string; // Optional A1 range to restrict parsing, defaults to the used range
+  headerRow?: number; // 1-based Excel row holding the headers, defaults to the first row of the range
+}
+
+export interface CsvImportOptions {
+  encoding: string; // Any label TextDecoder understands, e.g. "utf-8", "windows-1252"
+  delimiter: string; // Empty string lets Papa auto-detect
+  quoteChar: string;
+  skipRows: number; // Non-empty rows above the header (title banners, export notes)
+  hasHeader: boolean; // When false, columns are named "Column 1", "Column 2", ...
+}
+
+export interface CsvPreview {
+  rawRows: string[][]; // First rows exactly as split, before skipping/header handling
+  headers: string[];
+  rows: DataRow[];
+}
+
+export type ArrayHandling = 'join' | 'json' | 'index';
+
+export interface StructuredImportOptions {
+  arrayHandling: ArrayHandling; // join: "a, b" · json: '["a","b"]' · index: tags.0, tags.1 columns
+}
+
+export interface AlignedColumn {
+  name: string; // Canonical name (the first header seen for it)
+  sources: { file: string; header: string }[]; // Header used by each file that has the column
+  missingFrom: string[]; // Files that had no matching column
+}
+
+export interface SchemaAlignmentReport {
+  files: string[];
+  sourceColumn: string; // Name of the added column holding each row's file
+  columns: AlignedColumn[];
+}
+
+export interface DatasetLoadInfo {
+  stats?: DatasetStats; // Present when profiling already happened while streaming the file in
+  schemaReport?: SchemaAlignmentReport; // Present when several files were appended
+}
+
+export interface WorkspaceTable {
+  id: string;
+  name: string;
+  rows: DataRow[];
+}
+
+export interface CandidateKey {
+  column: string;
+  distinctCount: number;
+  nullCount: number;
+}
+
+export interface TableRelationship {
+  fromTable: string; // Many side (holds the foreign key)
+  fromColumn: string;
+  toTable: string; // One side (holds the candidate key)
+  toColumn: string;
+  cardinality: 'many-to-one' | 'one-to-one';
+  coverage: number; // Share of distinct foreign-key values found in the key column, 0..1
+  orphanCount: number; // Distinct foreign-key values with no match
+  confidence: number; // 0..1, coverage weighted by naming evidence
+}
+
+export interface WorkspaceModel {
+  tables: { name: string; rowCount: number; columns: string[]; keys: CandidateKey[]; role: 'fact' | 'dimension' | 'standalone' }[];
+  relationships: TableRelationship[];
+}
+
+export interface AnalysisProgress {
+  phase: 'parsing' | 'profiling';
+  processedRows: number;
+  fraction: number; // 0..1, based on bytes read while parsing and rows profiled otherwise
+}
+
+export interface RuleCondition {
+  column: string;
+  operator: 'equals' | 'not_equals' | 'in' | 'is_empty' | 'is_not_empty';
+  value?: string; // For 'in', a comma-separated list
+}
+
+interface RuleBase {
+  id: string;
+  column: string;
+  when?: RuleCondition; // Only rows matching the condition are checked
+  severity?: ColumnIssue['severity']; // Defaults to High
+}
+
+export type ValidationRule =
+  | (RuleBase & { kind: 'range'; min?: number; max?: number })
+  | (RuleBase & { kind: 'regex'; pattern: string; flags?: string })
+  | (RuleBase & { kind: 'allowed_values'; values: string[]; caseSensitive?: boolean })
+  | (RuleBase & { kind: 'not_null' })
+  | (RuleBase & { kind: 'unique' })
+  | (RuleBase & { kind: 'max_length'; maxLength: number })
+  // Cross-column checks; issues are reported on `column`
+  | (RuleBase & { kind: 'compare'; operator: CompareOperator; otherColumn: string }) // Numbers or dates
+  | (RuleBase & { kind: 'arithmetic'; operator: ArithmeticOperator; left: string; right: string; tolerance?: number }) // column = left op right
+  | (RuleBase & { kind: 'age_matches'; birthColumn: string; asOfColumn?: string }) // Without asOf, age may lag today by a year
+  | (RuleBase & { kind: 'valid_pair'; otherColumn: string }); // column is a state/province of the country in otherColumn
+
+export type CompareOperator = '<' | '<=' | '=' | '>=' | '>';
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+export interface RuleSet {
+  id: string;
+  name: string;
+  feed: string; // Feed key of the file it was saved for, used to re-apply it on later uploads
+  rules: ValidationRule[];
+  updatedAt: number;
+}
+
+// Category harmonization: per column, each variant and the canonical value it becomes
+export interface MappingTable {
+  id: string;
+  name: string;
+  feed: string; // Feed key of the file it was saved for, used to re-apply it on later uploads
+  mappings: Record<string, Record<string, string>>; // column → variant → canonical
+  updatedAt: number;
+}
+
+export interface AnalysisOptions {
+  rules?: ValidationRule[];
+}
+
+export type SurvivorRule = 'first' | 'latest' | 'most_complete';
+
+export interface DuplicateConfig {
+  mode: 'key' | 'fuzzy'; // key: equal normalized values · fuzzy: similarity-scored matches
+  columns: string[]; // Key columns, or the columns compared in fuzzy mode
+  threshold: number; // Fuzzy mode: minimum 0..1 similarity to link two rows
+  survivor: SurvivorRule;
+  orderColumn?: string; // Decides the 'latest' survivor
+}
+
+export interface DuplicateCluster {
+  rowIndices: number[];
+  score: number; // Weakest link in the cluster (1 for key matches)
+  survivor: number; // Row index kept when deduplicating
+}
+
+export interface DuplicateReport {
+  config: DuplicateConfig;
+  clusters: DuplicateCluster[];
+  duplicateRows: number; // Rows removed by deduplicating
+  truncated: boolean; // Fuzzy matching only looked at the first rows
+}
+
+export type NumberLocale = 'auto' | 'en' | 'eu'; // en: 1,234.56 · eu: 1.234,56
+
+// auto: log-scale IQR for positive right-skewed columns (amounts, prices), IQR otherwise
+export type OutlierMethod = 'auto' | 'iqr' | 'log_iqr' | 'zscore' | 'mad';
+
+interface OperationBase {
+  id: string;
+  enabled: boolean; // Disabled steps stay in the recipe but are skipped
+}
+
+export type CastTarget = 'number' | 'date' | 'boolean' | 'text';
+
+// Mean, median and interpolation need numbers or ISO dates; text columns are left as they are
+export type ImputeStrategy = 'constant' | 'mean' | 'median' | 'mode' | 'forward_fill' | 'backward_fill' | 'interpolate' | 'nearest_neighbor';
+
+// cap clips to the bounds, winsorize to the nearest value inside them, null empties, flag adds <column>_outlier
+export type OutlierTreatment = 'cap' | 'winsorize' | 'null' | 'flag';
+
+// One step of a cleaning recipe; steps run in order and skip columns the data doesn't have
+export type CleaningOperation =
+  | (OperationBase & { kind: 'normalize_missing' }) // Every column: trims text, blank tokens (N/A, null, -) become empty
+  | (OperationBase & { kind: 'dedupe_rows' }) // Exact duplicate rows
+  | (OperationBase & { kind: 'rename_column'; column: string; newName: string })
+  | (OperationBase & { kind: 'drop_column'; column: string })
+  | (OperationBase & { kind: 'cast'; column: string; to: CastTarget; keepInvalid?: boolean; decimalSeparator?: DecimalSeparator; dateFormat?: DateFormatInfo }) // Unreadable values become empty unless kept
+  | (OperationBase & { kind: 'standardize_format'; column: string; format: SemanticType }) // Canonical email, phone, ...
+  | (OperationBase & { kind: 'trim'; column: string })
+  | (OperationBase & { kind: 'change_case'; column: string; letterCase: 'lower' | 'upper' | 'title' })
+  | (OperationBase & { kind: 'replace'; column: string; find: string; replaceWith: string; regex?: boolean })
+  | (OperationBase & { kind: 'map_values'; column: string; mapping: Record<string, string> }) // Exact value to replacement
+  | (OperationBase & { kind: 'fill_missing'; column: string; value: string })
+  | (OperationBase & {
+      kind: 'impute';
+      column: string;
+      strategy: ImputeStrategy;
+      value?: string; // constant
+      groupBy?: string; // mean, median, mode: one fill per group, the column-wide one for empty groups
+      sortBy?: string; // forward/backward fill and interpolation: row order (file order without it)
+      neighbors?: number; // nearest_neighbor: k, matched on the other numeric columns
+      indicator?: boolean; // Adds <column>_imputed (true on filled rows) after the column
+      decimalSeparator?: DecimalSeparator; // How the column's numbers are read ('.' when unset)
+    })
+  | (OperationBase & {
+      kind: 'treat_outliers';
+      column: string; // Values that don't read as numbers are left alone
+      treatment: OutlierTreatment;
+      bounds: 'iqr' | 'percentile';
+      k?: number; // iqr: Q1 - k·IQR to Q3 + k·IQR (1.5 when unset)
+      lowerPercentile?: number; // percentile: 0-100 (1 and 99 when unset)
+      upperPercentile?: number;
+      decimalSeparator?: DecimalSeparator; // How the column's numbers are read ('.' when unset)
+    })
+  | (OperationBase & { kind: 'filter_rows'; condition: RuleCondition; keep: boolean }) // Keeps (or removes) matching rows
+  | (OperationBase & { kind: 'split_column'; column: string; separator: string; into: string[] }); // Added after `column`; the last part takes the rest
+
+// Strict mode splits rows that fail validation out of the cleaned output
+export interface CleaningResult {
+  rows: DataRow[];
+  rejected: DataRow[]; // Original values plus source_row and rejection_reason columns
+}
+
+// --- Change Log ---
+
+// One cell a cleaning step changed, compared as written to CSV (empty = null)
+export interface CellChange {
+  stepId: string; // Recipe operation id, or 'duplicates' / 'quarantine'
+  row: number; // 1-based row in the raw data
+  column: string; // Name after the step ran
+  before: any;
+  after: any;
+}
+
+export interface StepLog {
+  stepId: string;
+  description: string;
+  cellsChanged: number; // Exact, even once the log stops keeping changes
+  rowsRemoved: number[]; // 1-based rows in the raw data
+}
+
+export interface ChangeLog {
+  steps: StepLog[];
+  changes: CellChange[];
+  truncated: boolean; // Changes past the log's limit were counted but not kept
+}
+
+// Cleaned rows with the raw row each one came from
+export interface CleaningRun {
+  rows: DataRow[];
+  rowNumbers: number[]; // 1-based raw row per cleaned row
+  log: ChangeLog;
+}
+
 export interface AppSettings {
   autoClean: boolean;
-  strictMode: boolean;
+  strictMode: boolean; // Tighter type inference, every type violation High and quarantined, no imputing or coercing
   outlierSensitivity: 'Low' | 'Medium' | 'High';
+  outlierMethod: OutlierMethod;
+  multivariateOutliers: boolean; // Also flag rows whose combination of numeric values is unusual
+  numberLocale: NumberLocale;
 }
 
 export interface ChatMessage {